@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { authEdge } from "@/lib/auth-edge";
 
-const publicRoutes = ["/login", "/register", "/api/register"];
+// Storage URLs carry their own signature
+const publicRoutes = ["/login", "/register", "/api/register", "/api/storage"];
 
 export default authEdge((request) => {
   const { nextUrl } = request;
@@ -0,0 +1,2 @@
+-- Store the nested table of contents read from the EPUB nav document / NCX
+ALTER TABLE "Novel" ADD COLUMN "toc" JSONB;
@@ -0,0 +1,2 @@
+-- Keep the parser's warnings with the novel so the library can show them
+ALTER TABLE "Novel" ADD COLUMN "importWarnings" JSONB;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Chapter" ADD COLUMN "contentHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN "targetNovelId" TEXT,
+ADD COLUMN "updatePlan" JSONB,
+ADD COLUMN "updateConfirmed" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "removeMissing" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Novel" ADD COLUMN "sourceIdentifier" TEXT,
+ADD COLUMN "chapterFingerprint" TEXT;
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN "duplicateOfNovelId" TEXT,
+ADD COLUMN "allowDuplicate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Novel_userId_sourceIdentifier_idx" ON "Novel"("userId", "sourceIdentifier");
+
+-- CreateIndex
+CREATE INDEX "Novel_userId_chapterFingerprint_idx" ON "Novel"("userId", "chapterFingerprint");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ImportJob" RENAME COLUMN "updateConfirmed" TO "reviewConfirmed";
+ALTER TABLE "ImportJob" ADD COLUMN "parseOptions" JSONB,
+ADD COLUMN "preview" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Novel" ADD COLUMN "layout" TEXT NOT NULL DEFAULT 'prose';
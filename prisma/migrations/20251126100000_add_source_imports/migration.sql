@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ImportJob" ALTER COLUMN "storageKey" DROP NOT NULL,
+ADD COLUMN "sourceUrl" TEXT;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "NovelSource" (
+    "id" TEXT NOT NULL,
+    "novelId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "adapter" TEXT NOT NULL,
+    "lastCheckedAt" TIMESTAMP(3),
+    "lastKnownChapter" TEXT,
+    "newChapterCount" INTEGER NOT NULL DEFAULT 0,
+    "newChaptersAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NovelSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NovelSource_novelId_key" ON "NovelSource"("novelId");
+
+-- CreateIndex
+CREATE INDEX "NovelSource_lastCheckedAt_idx" ON "NovelSource"("lastCheckedAt");
+
+-- AddForeignKey
+ALTER TABLE "NovelSource" ADD CONSTRAINT "NovelSource_novelId_fkey" FOREIGN KEY ("novelId") REFERENCES "Novel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Novel" ADD COLUMN "originalStorageKey" TEXT,
+ADD COLUMN "originalFilename" TEXT;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "PendingUpload" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PendingUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingUpload_storageKey_key" ON "PendingUpload"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "PendingUpload_createdAt_idx" ON "PendingUpload"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PendingUpload" ADD CONSTRAINT "PendingUpload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
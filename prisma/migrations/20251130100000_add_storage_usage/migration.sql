@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Chapter" ADD COLUMN "size" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Novel" ADD COLUMN "originalSize" INTEGER;
+
+-- Backfill chapter sizes; original sizes are filled in from storage on first use
+UPDATE "Chapter" SET "size" = octet_length("content");
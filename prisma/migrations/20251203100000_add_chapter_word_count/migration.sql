@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Chapter" ADD COLUMN "wordCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill with the same rule as chapterWordCount: tags and entities are
+-- dropped, each CJK character is a word, other text splits on whitespace
+UPDATE "Chapter" SET "wordCount" = (
+  SELECT count(*)
+  FROM regexp_matches(
+    regexp_replace("content", '<[^>]*>|&[a-zA-Z0-9#]+;', ' ', 'g'),
+    '[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+',
+    'g'
+  )
+);
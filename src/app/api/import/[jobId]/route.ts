@@ -0,0 +1,217 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { loadImportJob, wakeImportWorker } from "@/lib/import-jobs";
+import {
+  TXT_ENCODINGS,
+  TXT_HEADING_PRESETS,
+  HEADING_PATTERN_ERROR,
+  isValidHeadingPattern,
+  type TxtHeadingPreset,
+} from "@/lib/import-formats";
+
+type RouteContext = {
+  params: Promise<{
+    jobId: string;
+  }>;
+};
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("cancel") }),
+  z.object({ action: z.literal("retry") }),
+  z.object({
+    action: z.literal("confirm"),
+    removeMissing: z.boolean().optional(),
+    // Edits from the chapter preview of a new import
+    title: z.string().trim().min(1).max(200).optional(),
+    author: z.string().trim().max(200).optional(),
+    excludedChapters: z.array(z.number().int().min(0)).max(100000).optional(),
+  }),
+  // Answers to a duplicate match
+  z.object({ action: z.literal("import-anyway") }),
+  z.object({ action: z.literal("update-existing") }),
+  // Parse again with different TXT settings and show a new preview
+  z.object({
+    action: z.literal("reparse"),
+    headings: z
+      .array(z.enum(Object.keys(TXT_HEADING_PRESETS) as [TxtHeadingPreset, ...TxtHeadingPreset[]]))
+      .optional(),
+    customHeading: z.string().max(200).optional(),
+    encoding: z.enum(TXT_ENCODINGS).optional(),
+  }),
+]);
+
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { jobId } = await context.params;
+    const job = await loadImportJob(session.user.id, jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    // Polling doubles as a heartbeat for the in-process worker after a restart
+    if (job.status === "queued") {
+      wakeImportWorker();
+    }
+
+    return NextResponse.json(job, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Error loading import job:", error);
+    return NextResponse.json(
+      { error: "Failed to load import status" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { jobId } = await context.params;
+    const body = await request.json().catch(() => null);
+    const parsed = actionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const where = { id: jobId, userId: session.user.id };
+
+    if (parsed.data.action === "cancel") {
+      // Queued jobs stop right away; running ones notice on their next progress write
+      const queued = await prisma.importJob.updateMany({
+        where: { ...where, status: { in: ["queued", "review", "duplicate"] } },
+        data: { status: "cancelled", cancelRequested: true, finishedAt: new Date() },
+      });
+      const running = await prisma.importJob.updateMany({
+        where: { ...where, status: "running" },
+        data: { cancelRequested: true },
+      });
+
+      if (queued.count + running.count === 0) {
+        return NextResponse.json(
+          { error: "Only queued or running imports can be cancelled" },
+          { status: 409 }
+        );
+      }
+    } else if (parsed.data.action === "confirm") {
+      const { removeMissing, title, author, excludedChapters } = parsed.data;
+      const selection =
+        title !== undefined || author !== undefined || excludedChapters?.length
+          ? { title, author, excludedChapters }
+          : Prisma.DbNull;
+
+      // The worker parses the file again and applies the update or the selection
+      const confirmed = await prisma.importJob.updateMany({
+        where: { ...where, status: "review" },
+        data: {
+          status: "queued",
+          reviewConfirmed: true,
+          removeMissing: removeMissing ?? false,
+          selection,
+        },
+      });
+
+      if (confirmed.count === 0) {
+        return NextResponse.json(
+          { error: "This update is not waiting for confirmation" },
+          { status: 409 }
+        );
+      }
+      wakeImportWorker();
+    } else if (parsed.data.action === "reparse") {
+      const { headings, customHeading, encoding } = parsed.data;
+      if (customHeading && !isValidHeadingPattern(customHeading)) {
+        return NextResponse.json({ error: HEADING_PATTERN_ERROR }, { status: 400 });
+      }
+
+      const reparsed = await prisma.importJob.updateMany({
+        where: { ...where, status: "review", preview: { not: Prisma.AnyNull } },
+        data: {
+          status: "queued",
+          parseOptions: { headings, customHeading, encoding },
+          reviewConfirmed: false,
+          selection: Prisma.DbNull,
+        },
+      });
+
+      if (reparsed.count === 0) {
+        return NextResponse.json(
+          { error: "This import is not waiting for a preview" },
+          { status: 409 }
+        );
+      }
+      wakeImportWorker();
+    } else if (parsed.data.action === "import-anyway" || parsed.data.action === "update-existing") {
+      const current = await prisma.importJob.findFirst({
+        where: { ...where, status: "duplicate" },
+        select: { duplicateOfNovelId: true },
+      });
+
+      if (!current?.duplicateOfNovelId) {
+        return NextResponse.json(
+          { error: "This import is not waiting on a duplicate" },
+          { status: 409 }
+        );
+      }
+
+      // Updating the match goes through the usual review step first
+      await prisma.importJob.updateMany({
+        where: { ...where, status: "duplicate" },
+        data:
+          parsed.data.action === "import-anyway"
+            ? { status: "queued", allowDuplicate: true }
+            : { status: "queued", targetNovelId: current.duplicateOfNovelId },
+      });
+      wakeImportWorker();
+    } else {
+      const retried = await prisma.importJob.updateMany({
+        where: { ...where, status: { in: ["failed", "cancelled"] } },
+        data: {
+          status: "queued",
+          stage: "queued",
+          stageCurrent: 0,
+          stageTotal: 0,
+          progress: 0,
+          cancelRequested: false,
+          // Updates go back through review, the novel may have changed since
+          reviewConfirmed: false,
+          selection: Prisma.DbNull,
+          error: null,
+          finishedAt: null,
+        },
+      });
+
+      if (retried.count === 0) {
+        return NextResponse.json(
+          { error: "Only failed or cancelled imports can be retried" },
+          { status: 409 }
+        );
+      }
+      wakeImportWorker();
+    }
+
+    const job = await loadImportJob(session.user.id, jobId);
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error("Error updating import job:", error);
+    return NextResponse.json(
+      { error: "Failed to update import" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,20 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
+import { createUploadKey, putObject } from "@/lib/storage";
+import { enqueueImportJob } from "@/lib/import-jobs";
+import { detectImportFormat, importContentType } from "@/lib/import-formats";
 import { prisma } from "@/lib/prisma";
-import { parseEpub } from "@/lib/epub";
-import { createDownloadUrl } from "@/lib/storage";
+import { consumePendingUpload, UploadRejectedError } from "@/lib/uploads";
+import { checkStorageQuota } from "@/lib/storage-usage";
+
+// An import may target an existing novel, which it then updates in place
+async function ownsNovel(userId: string, novelId: string) {
+  const novel = await prisma.novel.findFirst({
+    where: { id: novelId, userId },
+    select: { id: true },
+  });
+  return Boolean(novel);
+}
 
 export async function POST(request: Request) {
   try {
@@ -17,70 +29,57 @@ export async function POST(request: Request) {
     // New path: JSON body referencing an object in external storage
     if (contentType.startsWith("application/json")) {
       const body = (await request.json().catch(() => null)) as
-        | { key?: string; filename?: string }
+        | { key?: string; filename?: string; novelId?: string }
         | null;
 
-      if (!body?.key || !body.filename) {
-        return NextResponse.json(
-          { error: "key and filename are required." },
-          { status: 400 }
-        );
+      if (!body?.key) {
+        return NextResponse.json({ error: "key is required." }, { status: 400 });
+      }
+
+      // Keys are namespaced per user by /api/import/upload-url
+      if (!body.key.startsWith(`${session.user.id}/`)) {
+        return NextResponse.json({ error: "Invalid upload key." }, { status: 403 });
       }
 
-      const downloadUrl = await createDownloadUrl({ key: body.key });
-      const fileResponse = await fetch(downloadUrl);
+      if (body.novelId && !(await ownsNovel(session.user.id, body.novelId))) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
 
-      if (!fileResponse.ok) {
-        return NextResponse.json(
-          { error: "Failed to download EPUB from storage." },
-          { status: 502 }
-        );
+      // The upload itself is already counted as pending
+      const quotaError = await checkStorageQuota(session.user.id);
+      if (quotaError) {
+        return NextResponse.json({ error: quotaError }, { status: 413 });
       }
 
-      const arrayBuffer = await fileResponse.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-      const parsed = await parseEpub(buffer, body.filename);
-
-      const novel = await prisma.$transaction(
-        async (tx) => {
-          const novelRecord = await tx.novel.create({
-            data: {
-              title: parsed.title,
-              author: parsed.author,
-              description: parsed.description,
-              coverImage: parsed.coverImage,
-              userId: session.user.id,
-            },
-          });
-
-          if (parsed.chapters.length > 0) {
-            await tx.chapter.createMany({
-              data: parsed.chapters.map((chapter, index) => ({
-                novelId: novelRecord.id,
-                title: chapter.title,
-                content: chapter.content,
-                position: index,
-              })),
-            });
-          }
-
-          return novelRecord;
-        },
-        {
-          timeout: 120000,
-          maxWait: 10000,
+      // The name and type were checked when the upload was signed
+      let upload;
+      try {
+        upload = await consumePendingUpload(session.user.id, body.key);
+      } catch (error) {
+        if (error instanceof UploadRejectedError) {
+          return NextResponse.json({ error: error.message }, { status: error.status });
         }
-      );
+        throw error;
+      }
+
+      const job = await enqueueImportJob({
+        userId: session.user.id,
+        filename: upload.filename,
+        storageKey: body.key,
+        size: upload.size,
+        targetNovelId: body.novelId,
+      });
 
-      return NextResponse.json({ success: true, novelId: novel.id });
+      return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
     }
 
     // Fallback path: small files uploaded directly as form-data
     const formData = await request.formData();
     const file = formData.get("file");
+    const novelId = formData.get("novelId");
 
     if (!(file instanceof File)) {
-      return NextResponse.json({ error: "No EPUB provided." }, { status: 400 });
+      return NextResponse.json({ error: "No file provided." }, { status: 400 });
     }
 
     // Validate file size (for direct uploads via Vercel)
@@ -92,48 +91,39 @@ export async function POST(request: Request) {
       );
     }
 
-    if (!file.name.toLowerCase().endsWith(".epub") && file.type !== "application/epub+zip") {
+    if (!detectImportFormat(file.name, file.type)) {
       return NextResponse.json(
-        { error: "Invalid file type. Please upload an EPUB file." },
+        { error: "Invalid file type. Please upload an EPUB, MOBI, AZW3, FB2, CBZ or TXT file." },
         { status: 400 }
       );
     }
 
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const parsed = await parseEpub(buffer, file.name);
-
-    const novel = await prisma.$transaction(
-      async (tx) => {
-        const novelRecord = await tx.novel.create({
-          data: {
-            title: parsed.title,
-            author: parsed.author,
-            description: parsed.description,
-            coverImage: parsed.coverImage,
-            userId: session.user.id,
-          },
-        });
-
-        if (parsed.chapters.length > 0) {
-          await tx.chapter.createMany({
-            data: parsed.chapters.map((chapter, index) => ({
-              novelId: novelRecord.id,
-              title: chapter.title,
-              content: chapter.content,
-              position: index,
-            })),
-          });
-        }
+    if (typeof novelId === "string" && !(await ownsNovel(session.user.id, novelId))) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
 
-        return novelRecord;
-      },
-      {
-        timeout: 120000,
-        maxWait: 10000,
-      }
-    );
+    const quotaError = await checkStorageQuota(session.user.id, file.size);
+    if (quotaError) {
+      return NextResponse.json({ error: quotaError }, { status: 413 });
+    }
 
-    return NextResponse.json({ success: true, novelId: novel.id });
+    // Park the file in storage so the worker can pick it up like any other upload
+    const storageKey = createUploadKey(session.user.id, file.name);
+    await putObject({
+      key: storageKey,
+      body: Buffer.from(await file.arrayBuffer()),
+      contentType: file.type || importContentType(file.name),
+    });
+
+    const job = await enqueueImportJob({
+      userId: session.user.id,
+      filename: file.name,
+      storageKey,
+      size: file.size,
+      targetNovelId: typeof novelId === "string" ? novelId : undefined,
+    });
+
+    return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
   } catch (error) {
     console.error("Import error:", error);
     return NextResponse.json(
@@ -1,6 +1,13 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 import { auth } from "@/lib/auth";
-import { createUploadUrl } from "@/lib/storage";
+import { createPendingUpload, UploadRejectedError } from "@/lib/uploads";
+
+const uploadUrlSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  contentType: z.string().trim().min(1).max(255),
+  size: z.number().int().positive(),
+});
 
 export async function POST(request: Request) {
   const session = await auth();
@@ -16,29 +23,22 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
   }
 
-  const { filename, contentType } = body as {
-    filename?: string;
-    contentType?: string;
-  };
-
-  if (!filename || !contentType) {
+  const parsed = uploadUrlSchema.safeParse(body);
+  if (!parsed.success) {
     return NextResponse.json(
-      { error: "filename and contentType are required." },
+      { error: "filename, contentType and size are required." },
       { status: 400 }
     );
   }
 
-  const cleanFilename = filename.replace(/[^a-zA-Z0-9._-]/g, "_");
-  const key = `${session.user.id}/${Date.now()}-${cleanFilename}`;
-
   try {
-    const uploadUrl = await createUploadUrl({
-      key,
-      contentType,
-    });
+    const { uploadUrl, key } = await createPendingUpload(session.user.id, parsed.data);
 
     return NextResponse.json({ uploadUrl, key });
   } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Failed to create upload URL:", error);
     return NextResponse.json(
       { error: "Failed to create upload URL." },
@@ -46,4 +46,3 @@ export async function POST(request: Request) {
     );
   }
 }
-
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { enqueueImportJob } from "@/lib/import-jobs";
+import { EPUB_SOURCE, filenameFromUrl, findSourceKind } from "@/lib/source-import";
+import { checkStorageQuota } from "@/lib/storage-usage";
+
+const importUrlSchema = z.object({
+  url: z.string().trim().url().max(2048),
+});
+
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = importUrlSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Enter a valid novel URL." }, { status: 400 });
+    }
+
+    const { url } = parsed.data;
+    const kind = findSourceKind(url);
+
+    if (!kind) {
+      return NextResponse.json(
+        { error: "No source adapter supports this site, and the URL is not an EPUB file." },
+        { status: 400 }
+      );
+    }
+
+    const quotaError = await checkStorageQuota(session.user.id);
+    if (quotaError) {
+      return NextResponse.json({ error: quotaError }, { status: 413 });
+    }
+
+    // The worker fetches the book (or every chapter of the serial) in the background
+    const job = await enqueueImportJob({
+      userId: session.user.id,
+      filename: kind === EPUB_SOURCE ? filenameFromUrl(url) : url,
+      sourceUrl: url,
+    });
+
+    return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
+  } catch (error) {
+    console.error("URL import error:", error);
+    return NextResponse.json(
+      { error: "Import failed. Please try again." },
+      { status: 500 }
+    );
+  }
+}
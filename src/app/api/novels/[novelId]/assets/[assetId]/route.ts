@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getObject } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    novelId: string;
+    assetId: string;
+  }>;
+};
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId, assetId } = await context.params;
+    if (!novelId || !assetId) {
+      return NextResponse.json({ error: "Missing asset id" }, { status: 400 });
+    }
+
+    const asset = await prisma.asset.findFirst({
+      where: {
+        id: assetId,
+        novelId,
+        novel: { userId: session.user.id },
+      },
+      select: { hash: true, mediaType: true, storageKey: true },
+    });
+
+    if (!asset) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+    }
+
+    // Assets are content-addressed, so the hash is a stable ETag and the
+    // response never changes for a given URL
+    const etag = `"${asset.hash}"`;
+    const cacheHeaders = {
+      ETag: etag,
+      "Cache-Control": "private, max-age=31536000, immutable",
+    };
+
+    if (request.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders });
+    }
+
+    const data = await getObject(asset.storageKey);
+    if (!data) {
+      return NextResponse.json({ error: "Asset data missing" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        "Content-Type": asset.mediaType,
+        "Content-Length": String(data.length),
+        // SVGs opened directly must not be able to run script on our origin
+        "Content-Security-Policy": "default-src 'none'; img-src data:; style-src 'unsafe-inline'",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error loading asset:", error);
+    return NextResponse.json({ error: "Failed to load asset" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+type RouteContext = {
+  params: Promise<{
+    novelId: string;
+    bookmarkId: string;
+  }>;
+};
+
+const updateSchema = z.object({
+  label: z.string().trim().max(200),
+});
+
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId, bookmarkId } = await context.params;
+    if (!novelId || !bookmarkId) {
+      return NextResponse.json({ error: "Missing bookmark id" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = updateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+    }
+
+    const updated = await prisma.bookmark.updateMany({
+      where: { id: bookmarkId, novelId, userId: session.user.id },
+      data: { label: parsed.data.label || null },
+    });
+
+    if (updated.count === 0) {
+      return NextResponse.json({ error: "Bookmark not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating bookmark:", error);
+    return NextResponse.json({ error: "Failed to update bookmark" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId, bookmarkId } = await context.params;
+    if (!novelId || !bookmarkId) {
+      return NextResponse.json({ error: "Missing bookmark id" }, { status: 400 });
+    }
+
+    const deleted = await prisma.bookmark.deleteMany({
+      where: { id: bookmarkId, novelId, userId: session.user.id },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: "Bookmark not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting bookmark:", error);
+    return NextResponse.json({ error: "Failed to delete bookmark" }, { status: 500 });
+  }
+}
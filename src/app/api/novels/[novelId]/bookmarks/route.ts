@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { readingLocatorSchema } from "@/lib/reading-locator";
+
+type RouteContext = {
+  params: Promise<{
+    novelId: string;
+  }>;
+};
+
+const createSchema = z.object({
+  chapterId: z.string().cuid(),
+  location: readingLocatorSchema,
+  label: z.string().trim().max(200).optional(),
+});
+
+const bookmarkSelect = {
+  id: true,
+  chapterId: true,
+  location: true,
+  label: true,
+  createdAt: true,
+} as const;
+
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId } = await context.params;
+    if (!novelId) {
+      return NextResponse.json({ error: "Missing novel id" }, { status: 400 });
+    }
+
+    const bookmarks = await prisma.bookmark.findMany({
+      where: { novelId, userId: session.user.id },
+      orderBy: [{ chapter: { position: "asc" } }, { createdAt: "asc" }],
+      select: bookmarkSelect,
+    });
+
+    return NextResponse.json({ bookmarks });
+  } catch (error) {
+    console.error("Error loading bookmarks:", error);
+    return NextResponse.json({ error: "Failed to load bookmarks" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId } = await context.params;
+    if (!novelId) {
+      return NextResponse.json({ error: "Missing novel id" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = createSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid bookmark" }, { status: 400 });
+    }
+
+    const chapter = await prisma.chapter.findFirst({
+      where: {
+        id: parsed.data.chapterId,
+        novelId,
+        novel: { userId: session.user.id },
+      },
+      select: { id: true },
+    });
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+    }
+
+    const bookmark = await prisma.bookmark.create({
+      data: {
+        userId: session.user.id,
+        novelId,
+        chapterId: chapter.id,
+        location: parsed.data.location,
+        label: parsed.data.label || null,
+      },
+      select: bookmarkSelect,
+    });
+
+    return NextResponse.json({ bookmark }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating bookmark:", error);
+    return NextResponse.json({ error: "Failed to create bookmark" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    novelId: string;
+    chapterId: string;
+  }>;
+};
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId, chapterId } = await context.params;
+    if (!novelId || !chapterId) {
+      return NextResponse.json({ error: "Missing chapter id" }, { status: 400 });
+    }
+
+    const chapter = await prisma.chapter.findFirst({
+      where: {
+        id: chapterId,
+        novelId,
+        novel: { userId: session.user.id },
+      },
+      select: { id: true, title: true, position: true, content: true },
+    });
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+    }
+
+    // Chapters change when a novel is updated or re-imported, so the body is
+    // revalidated on every read; unchanged chapters come back as a 304
+    const body = JSON.stringify({ chapter });
+    const etag = `"${createHash("sha256").update(body).digest("base64url")}"`;
+    const cacheHeaders = {
+      ETag: etag,
+      "Cache-Control": "private, no-cache",
+    };
+
+    if (request.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders });
+    }
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error("Error loading chapter:", error);
+    return NextResponse.json({ error: "Failed to load chapter" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { buildNovelEpub } from "@/lib/epub-export";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    novelId: string;
+  }>;
+};
+
+// Chapter numbers as shown in the reader, starting at 1
+const rangeSchema = z
+  .object({
+    from: z.coerce.number().int().min(1).optional(),
+    to: z.coerce.number().int().min(1).optional(),
+  })
+  .refine((range) => !range.from || !range.to || range.from <= range.to);
+
+// Header-safe download name; the title itself can be anything
+const downloadName = (title: string) =>
+  `${title.replace(/[^\p{L}\p{N} ._-]+/gu, "").trim().slice(0, 100) || "novel"}.epub`;
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId } = await context.params;
+    const searchParams = new URL(request.url).searchParams;
+    const parsed = rangeSchema.safeParse({
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid chapter range" }, { status: 400 });
+    }
+
+    const { from, to } = parsed.data;
+    const epub = await buildNovelEpub(session.user.id, novelId, {
+      from: from ? from - 1 : undefined,
+      to: to ? to - 1 : undefined,
+    });
+
+    if (!epub) {
+      return NextResponse.json({ error: "Novel not found" }, { status: 404 });
+    }
+
+    if (!epub.data) {
+      return NextResponse.json({ error: "No chapters in the selected range" }, { status: 400 });
+    }
+
+    const filename = downloadName(epub.title);
+    return new NextResponse(new Uint8Array(epub.data), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/epub+zip",
+        "Content-Length": String(epub.data.length),
+        "Content-Disposition": `attachment; filename="${filename.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting novel:", error);
+    return NextResponse.json(
+      { error: "Failed to export novel" },
+      { status: 500 }
+    );
+  }
+}
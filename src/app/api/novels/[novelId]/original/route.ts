@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getObject } from "@/lib/storage";
+import { importContentType } from "@/lib/import-formats";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    novelId: string;
+  }>;
+};
+
+// Downloads the file the novel was imported from, as it was uploaded
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId } = await context.params;
+    const novel = await prisma.novel.findFirst({
+      where: { id: novelId, userId: session.user.id },
+      select: { originalStorageKey: true, originalFilename: true },
+    });
+
+    if (!novel) {
+      return NextResponse.json({ error: "Novel not found" }, { status: 404 });
+    }
+
+    const data = novel.originalStorageKey ? await getObject(novel.originalStorageKey) : null;
+    if (!data) {
+      return NextResponse.json(
+        { error: "The original file for this novel is not available" },
+        { status: 404 }
+      );
+    }
+
+    const filename = novel.originalFilename || "original";
+    return new NextResponse(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        "Content-Type": importContentType(filename),
+        "Content-Length": String(data.length),
+        "Content-Disposition": `attachment; filename="${filename.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading original file:", error);
+    return NextResponse.json(
+      { error: "Failed to download the original file" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { readingLocatorSchema } from "@/lib/reading-locator";
 
 type RouteContext = {
   params: Promise<{
@@ -11,6 +13,8 @@ type RouteContext = {
 
 const progressSchema = z.object({
   chapterId: z.string().cuid(),
+  // Position inside the chapter; see ReadingLocator
+  location: readingLocatorSchema.optional(),
 });
 
 export async function PATCH(request: Request, context: RouteContext) {
@@ -25,11 +29,11 @@ export async function PATCH(request: Request, context: RouteContext) {
       return NextResponse.json({ error: "Missing novel id" }, { status: 400 });
     }
 
-    const body = await request.json();
+    const body = await request.json().catch(() => null);
     const parsed = progressSchema.safeParse(body);
 
     if (!parsed.success) {
-      return NextResponse.json({ error: "Invalid chapter id" }, { status: 400 });
+      return NextResponse.json({ error: "Invalid reading progress" }, { status: 400 });
     }
 
     const novel = await prisma.novel.findFirst({
@@ -60,6 +64,7 @@ export async function PATCH(request: Request, context: RouteContext) {
       where: { id: novelId },
       data: {
         lastReadChapterId: chapter.id,
+        lastReadLocation: parsed.data.location ?? Prisma.DbNull,
         lastReadAt: new Date(),
       },
     });
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { enqueueImportJob } from "@/lib/import-jobs";
+
+type RouteContext = {
+  params: Promise<{
+    novelId: string;
+  }>;
+};
+
+// Parses the kept original again with the current importers and queues it as
+// an update, so parser fixes reach books already in the library
+export async function POST(_request: Request, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { novelId } = await context.params;
+    const novel = await prisma.novel.findFirst({
+      where: { id: novelId, userId: session.user.id },
+      select: { originalStorageKey: true, originalFilename: true },
+    });
+
+    if (!novel) {
+      return NextResponse.json({ error: "Novel not found" }, { status: 404 });
+    }
+
+    if (!novel.originalStorageKey || !novel.originalFilename) {
+      return NextResponse.json(
+        { error: "This novel has no original file to re-import from" },
+        { status: 409 }
+      );
+    }
+
+    const job = await enqueueImportJob({
+      userId: session.user.id,
+      filename: novel.originalFilename,
+      storageKey: novel.originalStorageKey,
+      targetNovelId: novelId,
+    });
+
+    return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
+  } catch (error) {
+    console.error("Error re-importing novel:", error);
+    return NextResponse.json(
+      { error: "Failed to start re-import" },
+      { status: 500 }
+    );
+  }
+}
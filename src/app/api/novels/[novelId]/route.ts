@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { deleteObject } from "@/lib/storage";
 
 type RouteContext = {
   params: Promise<{
@@ -69,6 +70,15 @@ export async function DELETE(_request: Request, context: RouteContext) {
       return NextResponse.json({ error: "Missing novel id" }, { status: 400 });
     }
 
+    const assets = await prisma.asset.findMany({
+      where: { novelId, novel: { userId: session.user.id } },
+      select: { storageKey: true },
+    });
+    const original = await prisma.novel.findFirst({
+      where: { id: novelId, userId: session.user.id },
+      select: { originalStorageKey: true },
+    });
+
     // Delete with ownership check - cascade will handle chapters automatically
     const result = await prisma.novel.deleteMany({
       where: {
@@ -81,6 +91,14 @@ export async function DELETE(_request: Request, context: RouteContext) {
       return NextResponse.json({ error: "Not found" }, { status: 404 });
     }
 
+    // Best effort: a leftover object is harmless once its row is gone
+    const storageKeys = assets.map((asset) => asset.storageKey);
+    if (original?.originalStorageKey) storageKeys.push(original.originalStorageKey);
+    const removals = await Promise.allSettled(storageKeys.map((key) => deleteObject(key)));
+    if (removals.some((removal) => removal.status === "rejected")) {
+      console.warn(`[storage] Failed to remove some assets for novel ${novelId}`);
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting novel:", error);
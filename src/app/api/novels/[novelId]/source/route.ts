@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+type RouteContext = {
+  params: Promise<{
+    novelId: string;
+  }>;
+};
+
+// Stops checking the novel's source for new chapters; the chapters stay
+export async function DELETE(_request: Request, context: RouteContext) {
+  try {
+    const { novelId } = await context.params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await prisma.novelSource.deleteMany({
+      where: { novelId, novel: { userId: session.user.id } },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unfollowing novel source:", error);
+    return NextResponse.json(
+      { error: "Unable to stop update checks" },
+      { status: 500 }
+    );
+  }
+}
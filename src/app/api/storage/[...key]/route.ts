@@ -0,0 +1,138 @@
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { resolveStorageDriverName } from "@/lib/storage";
+import { localObjectPath, verifyStorageSignature } from "@/lib/storage/disk";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    key: string[];
+  }>;
+};
+
+// The signature in the URL is the only credential, so these routes skip the
+// session check and answer 404 unless the disk driver is in use
+async function resolveSignedKey(
+  request: Request,
+  context: RouteContext,
+  upload?: { contentType: string; contentLength?: number }
+) {
+  if (resolveStorageDriverName() !== "disk") return null;
+
+  const { key: segments } = await context.params;
+  const key = segments.join("/");
+  const { searchParams } = new URL(request.url);
+  const valid = verifyStorageSignature({
+    method: upload ? "PUT" : "GET",
+    key,
+    expires: searchParams.get("expires"),
+    signature: searchParams.get("signature"),
+    ...upload,
+  });
+
+  return valid ? key : undefined;
+}
+
+class UploadSizeError extends Error {
+  constructor() {
+    super("Upload is larger than its signed size");
+    this.name = "UploadSizeError";
+  }
+}
+
+// The signed size came from the Content-Length header; don't trust the body to honour it
+function limitBytes(limit: number | undefined) {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (limit !== undefined && received > limit) {
+        callback(new UploadSizeError());
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    const lengthHeader = request.headers.get("content-length");
+    const contentLength = lengthHeader ? Number(lengthHeader) : undefined;
+    const key = await resolveSignedKey(request, context, { contentType, contentLength });
+    if (key === null) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (!key) {
+      return NextResponse.json({ error: "Invalid or expired upload URL" }, { status: 403 });
+    }
+    if (!request.body) {
+      return NextResponse.json({ error: "Missing upload body" }, { status: 400 });
+    }
+
+    // Written beside the target and renamed in, so readers never see half a file
+    const filePath = localObjectPath(key);
+    const tempPath = path.join(path.dirname(filePath), `.${randomUUID()}.upload`);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      await pipeline(
+        Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>),
+        limitBytes(contentLength),
+        createWriteStream(tempPath)
+      );
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      if (error instanceof UploadSizeError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    console.error("Error storing upload:", error);
+    return NextResponse.json({ error: "Failed to store upload" }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const key = await resolveSignedKey(request, context);
+    if (key === null) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (!key) {
+      return NextResponse.json({ error: "Invalid or expired download URL" }, { status: 403 });
+    }
+
+    const filePath = localObjectPath(key);
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (!stat?.isFile()) {
+      return NextResponse.json({ error: "Object not found" }, { status: 404 });
+    }
+
+    const body = Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": String(stat.size),
+        "Content-Disposition": "attachment",
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error serving stored object:", error);
+    return NextResponse.json({ error: "Failed to load stored object" }, { status: 500 });
+  }
+}
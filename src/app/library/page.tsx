@@ -4,8 +4,13 @@ import { redirect } from "next/navigation";
 import { EpubImport } from "@/components/epub-import";
 import { SignOutButton } from "@/components/sign-out-button";
 import { LibraryItemActions } from "@/components/library-item-actions";
+import { ImportWarnings } from "@/components/import-warnings";
+import { StorageUsageSummary } from "@/components/storage-usage-summary";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isImportWarningList } from "@/lib/import-report";
+import { wakeImportWorker } from "@/lib/import-jobs";
+import { getStorageUsage } from "@/lib/storage-usage";
 
 // Enable dynamic rendering for authenticated pages
 export const dynamic = 'force-dynamic';
@@ -22,6 +27,8 @@ export default async function LibraryPage() {
     redirect("/login");
   }
 
+  const usage = await getStorageUsage(session.user.id!);
+
   // Optimized query with indexed fields
   const novels = await prisma.novel.findMany({
     where: { userId: session.user.id! },
@@ -34,6 +41,8 @@ export default async function LibraryPage() {
       coverImage: true,
       updatedAt: true,
       lastReadAt: true,
+      importWarnings: true,
+      originalStorageKey: true,
       lastReadChapter: {
         select: {
           id: true,
@@ -41,12 +50,24 @@ export default async function LibraryPage() {
           position: true,
         },
       },
+      source: {
+        select: {
+          newChapterCount: true,
+          newChaptersAt: true,
+          lastError: true,
+        },
+      },
       _count: {
         select: { chapters: true },
       },
     },
   });
 
+  // Update checks run on the import worker; make sure it is up after a restart
+  if (novels.some((novel) => novel.source)) {
+    wakeImportWorker();
+  }
+
   return (
     <div className="min-h-screen bg-[#151515] text-zinc-100">
       <div className="mx-auto flex min-h-screen max-w-6xl flex-col gap-8 px-4 py-8 md:px-8 md:py-12">
@@ -66,6 +87,7 @@ export default async function LibraryPage() {
               {novels.length ? `${novels.length} saved` : "Nothing yet"}
             </span>
           </div>
+          <StorageUsageSummary usage={usage} />
         </header>
 
         <div className="border-y border-zinc-800 py-6">
@@ -85,6 +107,13 @@ export default async function LibraryPage() {
                 : 0;
             const progressLabel =
               totalChapters > 0 ? `${currentChapterNumber}/${totalChapters}` : "0/0";
+            const unreadCount = totalChapters - currentChapterNumber;
+            // Chapters the scheduler added since the novel was last opened
+            const newChapterCount =
+              novel.source?.newChaptersAt &&
+              (!novel.lastReadAt || novel.source.newChaptersAt > novel.lastReadAt)
+                ? novel.source.newChapterCount
+                : 0;
             return (
               <div
                 key={novel.id}
@@ -109,15 +138,40 @@ export default async function LibraryPage() {
                   <div className="flex flex-1 flex-col gap-1">
                     <div className="flex items-center justify-between text-xs md:text-sm text-zinc-500">
                       <span className="truncate">{novel.author || "Unknown"}</span>
-                      <span className="text-[10px] uppercase tracking-[0.2em] text-zinc-500">
-                        {progressLabel}
+                      <span className="flex items-center gap-2 text-[10px] uppercase tracking-[0.2em] text-zinc-500">
+                        {unreadCount > 0 && currentChapterNumber > 0 && (
+                          <span>{unreadCount} unread</span>
+                        )}
+                        <span>{progressLabel}</span>
                       </span>
                     </div>
                     <h2 className="text-sm md:text-lg text-zinc-50 leading-tight">{novel.title}</h2>
+                    {(newChapterCount > 0 || novel.source?.lastError) && (
+                      <div className="flex flex-wrap items-center gap-2 text-[10px] uppercase tracking-[0.2em]">
+                        {newChapterCount > 0 && (
+                          <span className="border border-zinc-300 px-1.5 py-0.5 text-zinc-100">
+                            {newChapterCount} new {newChapterCount === 1 ? "chapter" : "chapters"}
+                          </span>
+                        )}
+                        {novel.source?.lastError && (
+                          <span className="normal-case tracking-normal text-zinc-500" title={novel.source.lastError}>
+                            Update check failed
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </Link>
+                {isImportWarningList(novel.importWarnings) && (
+                  <ImportWarnings warnings={novel.importWarnings} />
+                )}
                 <div className="flex items-center justify-between md:justify-end md:gap-3">
-                  <LibraryItemActions novelId={novel.id} title={novel.title} />
+                  <LibraryItemActions
+                    novelId={novel.id}
+                    title={novel.title}
+                    followed={Boolean(novel.source)}
+                    hasOriginal={Boolean(novel.originalStorageKey)}
+                  />
                 </div>
               </div>
             );
@@ -3,6 +3,8 @@ import { notFound, redirect } from "next/navigation";
 import { ReaderView } from "@/components/reader-view";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isReadingLocator } from "@/lib/reading-locator";
+import { isTocEntryList } from "@/lib/toc";
 
 type ReaderPageProps = {
   params: Promise<{
@@ -42,13 +44,18 @@ export default async function ReaderPage({ params, searchParams }: ReaderPagePro
       author: true,
       description: true,
       coverImage: true,
+      layout: true,
+      toc: true,
       lastReadChapterId: true,
+      lastReadLocation: true,
       chapters: {
         orderBy: { position: "asc" },
+        // Bodies are loaded by the reader one chapter at a time
         select: {
           id: true,
           title: true,
-          content: true,
+          position: true,
+          wordCount: true,
         },
       },
     },
@@ -76,5 +83,15 @@ export default async function ReaderPage({ params, searchParams }: ReaderPagePro
     }
   }
 
-  return <ReaderView novel={novel} initialIndex={initialIndex} />;
+  return (
+    <ReaderView
+      novel={{
+        ...novel,
+        layout: novel.layout === "pages" ? "pages" : "prose",
+        toc: isTocEntryList(novel.toc) ? novel.toc : null,
+        lastReadLocation: isReadingLocator(novel.lastReadLocation) ? novel.lastReadLocation : null,
+      }}
+      initialIndex={initialIndex}
+    />
+  );
 }
@@ -0,0 +1,188 @@
+"use client";
+
+import { memo, useMemo, useRef, useState } from "react";
+import type { BookmarkView } from "@/hooks/use-bookmarks";
+import type { THEMES } from "@/lib/reader-preferences";
+
+type BookmarksPanelProps = {
+  bookmarks: BookmarkView[];
+  chapters: { id: string; title: string }[];
+  // Bookmark at the reader's current position, if any
+  activeBookmarkId: string | null;
+  error: string | null;
+  theme: typeof THEMES.dark;
+  onToggleHere: () => void;
+  onOpen: (bookmark: BookmarkView) => void;
+  onRename: (bookmark: BookmarkView, label: string) => void;
+  onRemove: (bookmark: BookmarkView) => void;
+};
+
+const BookmarkItem = memo(function BookmarkItem({
+  bookmark,
+  chapterTitle,
+  active,
+  theme,
+  onOpen,
+  onRename,
+  onRemove,
+}: {
+  bookmark: BookmarkView;
+  chapterTitle: string;
+  active: boolean;
+  theme: typeof THEMES.dark;
+  onOpen: (bookmark: BookmarkView) => void;
+  onRename: (bookmark: BookmarkView, label: string) => void;
+  onRemove: (bookmark: BookmarkView) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  // Leaving the field saves; Enter and Escape both leave it
+  const handleBlur = () => {
+    if (!cancelledRef.current && draft !== null && draft.trim() !== (bookmark.label ?? "")) {
+      onRename(bookmark, draft);
+    }
+    cancelledRef.current = false;
+    setDraft(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") event.currentTarget.blur();
+    // Escape drops the edit without also closing the mobile menu
+    if (event.key === "Escape") {
+      event.nativeEvent.stopPropagation();
+      cancelledRef.current = true;
+      event.currentTarget.blur();
+    }
+  };
+
+  return (
+    <li
+      className="flex flex-col gap-2 px-3 py-3"
+      style={{
+        backgroundColor: active ? theme.active : "transparent",
+        borderBottom: `1px solid ${theme.border}`,
+      }}
+    >
+      {draft === null ? (
+        <button
+          type="button"
+          onClick={() => onOpen(bookmark)}
+          className="text-left text-sm leading-snug transition"
+          style={{ color: active ? theme.activeForeground : theme.foreground }}
+        >
+          {bookmark.label || "Untitled bookmark"}
+        </button>
+      ) : (
+        <input
+          type="text"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={handleBlur}
+          maxLength={200}
+          autoFocus
+          aria-label="Bookmark label"
+          className="border bg-transparent px-2 py-1 text-sm focus:outline-none"
+          style={{ borderColor: theme.border, color: theme.foreground }}
+        />
+      )}
+      <div
+        className="flex items-center gap-3 text-[0.6rem] uppercase tracking-[0.2em]"
+        style={{ color: theme.mutedForeground }}
+      >
+        <span className="flex-1 truncate" title={chapterTitle}>
+          {chapterTitle} · {Math.round(bookmark.location.percent * 100)}%
+        </span>
+        <button
+          type="button"
+          onClick={() => setDraft(bookmark.label ?? "")}
+          className="uppercase transition hover:opacity-70"
+        >
+          rename
+        </button>
+        <button
+          type="button"
+          onClick={() => onRemove(bookmark)}
+          className="uppercase transition hover:opacity-70"
+        >
+          remove
+        </button>
+      </div>
+    </li>
+  );
+});
+
+export const BookmarksPanel = memo(function BookmarksPanel({
+  bookmarks,
+  chapters,
+  activeBookmarkId,
+  error,
+  theme,
+  onToggleHere,
+  onOpen,
+  onRename,
+  onRemove,
+}: BookmarksPanelProps) {
+  // Reading order: by chapter, then by how far into it
+  const sorted = useMemo(() => {
+    const chapterIndex = new Map(chapters.map((chapter, index) => [chapter.id, index]));
+    return bookmarks
+      .filter((bookmark) => chapterIndex.has(bookmark.chapterId))
+      .sort(
+        (a, b) =>
+          chapterIndex.get(a.chapterId)! - chapterIndex.get(b.chapterId)! ||
+          a.location.percent - b.location.percent
+      );
+  }, [bookmarks, chapters]);
+
+  const chapterTitles = useMemo(
+    () => new Map(chapters.map((chapter, index) => [chapter.id, chapter.title || `Chapter ${index + 1}`])),
+    [chapters]
+  );
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span
+          className="text-[0.65rem] uppercase tracking-[0.25em]"
+          style={{ color: theme.mutedForeground }}
+        >
+          {sorted.length} Bookmarks
+        </span>
+        <button
+          type="button"
+          onClick={onToggleHere}
+          className="border px-3 py-1.5 text-[0.6rem] uppercase tracking-[0.2em] transition"
+          style={{ borderColor: theme.border, color: theme.foreground }}
+        >
+          {activeBookmarkId ? "remove here" : "bookmark here"}
+        </button>
+      </div>
+      <p className="text-[0.65rem]" style={{ color: theme.mutedForeground }}>
+        Press B to bookmark the current spot, or again to remove it.
+      </p>
+      {error && (
+        <p className="text-[0.65rem]" style={{ color: theme.foreground }}>
+          {error}
+        </p>
+      )}
+      {sorted.length > 0 && (
+        <ul className="min-h-0 flex-1 overflow-y-auto pr-2 scrollbar-thin">
+          {sorted.map((bookmark) => (
+            <BookmarkItem
+              key={bookmark.id}
+              bookmark={bookmark}
+              chapterTitle={chapterTitles.get(bookmark.chapterId) ?? ""}
+              active={bookmark.id === activeBookmarkId}
+              theme={theme}
+              onOpen={onOpen}
+              onRename={onRename}
+              onRemove={onRemove}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,307 @@
+"use client";
+
+import { memo, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { THEMES } from "@/lib/reader-preferences";
+import type { ChapterListRow } from "@/lib/toc";
+
+type ChapterListTheme = typeof THEMES.dark;
+
+type ChapterListProps = {
+  chapters: { id: string; title: string }[];
+  rows: ChapterListRow[];
+  currentIndex: number;
+  // Chapters holding at least one bookmark
+  bookmarkedIds?: ReadonlySet<string>;
+  // Whether the list is on screen; it re-centres on the current chapter when shown
+  visible: boolean;
+  theme: ChapterListTheme;
+  onSelect: (index: number) => void;
+  onToggleGroup: (id: string) => void;
+};
+
+type ListRow = ChapterListRow | { kind: "jump"; index: number };
+
+// Rows are one line at a fixed height so only the ones in view need rendering
+const ROW_HEIGHT = 37;
+const OVERSCAN_ROWS = 10;
+
+// "12", "ch 12", "chapter 12"
+const CHAPTER_NUMBER = /^(?:ch(?:apter)?\.?\s*)?(\d+)$/i;
+
+const ChapterButton = memo(function ChapterButton({
+  title,
+  number,
+  active,
+  bookmarked = false,
+  depth = 0,
+  onClick,
+  theme,
+}: {
+  title: string;
+  // Shown in filter results, where the list order no longer gives it away
+  number?: number;
+  active: boolean;
+  bookmarked?: boolean;
+  depth?: number;
+  onClick: () => void;
+  theme: ChapterListTheme;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="group w-full px-3 text-left text-sm transition active:scale-98"
+      style={{
+        height: ROW_HEIGHT,
+        backgroundColor: active ? theme.active : "transparent",
+        color: active ? theme.activeForeground : theme.muted,
+        borderBottom: `1px solid ${theme.border}`,
+        paddingLeft: depth ? `${0.75 + depth}rem` : undefined,
+      }}
+      onMouseEnter={(e) => {
+        if (!active) {
+          e.currentTarget.style.backgroundColor = theme.hover;
+          e.currentTarget.style.color = theme.hoverForeground;
+        }
+      }}
+      onMouseLeave={(e) => {
+        if (!active) {
+          e.currentTarget.style.backgroundColor = "transparent";
+          e.currentTarget.style.color = theme.muted;
+        }
+      }}
+      title={title}
+      aria-current={active ? "true" : undefined}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex-1 truncate leading-snug">
+          {number !== undefined && (
+            <span style={{ color: theme.mutedForeground }}>#{number} </span>
+          )}
+          {title}
+        </span>
+        {bookmarked && (
+          <span
+            className="flex-shrink-0 text-[0.6rem]"
+            style={{ color: theme.mutedForeground }}
+            aria-label="Bookmarked"
+          >
+            ◆
+          </span>
+        )}
+        {active && (
+          <div className="h-1.5 w-1.5 flex-shrink-0" style={{ backgroundColor: theme.muted }} />
+        )}
+      </div>
+    </button>
+  );
+});
+
+const ChapterGroupButton = memo(function ChapterGroupButton({
+  title,
+  expanded,
+  depth,
+  onToggle,
+  theme,
+}: {
+  title: string;
+  expanded: boolean;
+  depth: number;
+  onToggle: () => void;
+  theme: ChapterListTheme;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      className="flex w-full items-center gap-2 px-3 text-left text-[0.65rem] uppercase tracking-[0.2em] transition"
+      style={{
+        height: ROW_HEIGHT,
+        color: theme.mutedForeground,
+        borderBottom: `1px solid ${theme.border}`,
+        paddingLeft: depth ? `${0.75 + depth}rem` : undefined,
+      }}
+      title={title || undefined}
+      aria-expanded={expanded}
+    >
+      <span className="w-3 flex-shrink-0">{expanded ? "-" : "+"}</span>
+      <span className="flex-1 truncate leading-snug">{title || "Untitled"}</span>
+    </button>
+  );
+});
+
+export const ChapterList = memo(function ChapterList({
+  chapters,
+  rows,
+  currentIndex,
+  bookmarkedIds,
+  visible,
+  theme,
+  onSelect,
+  onToggleGroup,
+}: ChapterListProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState("");
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const needle = query.trim().toLowerCase();
+  const jumpNumber = Number(CHAPTER_NUMBER.exec(needle)?.[1] ?? NaN);
+  const jumpIndex =
+    Number.isInteger(jumpNumber) && jumpNumber >= 1 && jumpNumber <= chapters.length
+      ? jumpNumber - 1
+      : null;
+
+  // A filter flattens the volumes into a list of matching chapters
+  const listRows = useMemo<ListRow[]>(() => {
+    if (!needle) return rows;
+    const matches: ListRow[] = [];
+    chapters.forEach((chapter, index) => {
+      if (chapter.title.toLowerCase().includes(needle) || String(index + 1) === needle) {
+        matches.push({ kind: "chapter", index, depth: 0 });
+      }
+    });
+    return jumpIndex === null ? matches : [{ kind: "jump", index: jumpIndex }, ...matches];
+  }, [chapters, jumpIndex, needle, rows]);
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const measure = () => setViewportHeight(container.clientHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const currentRow = useMemo(
+    () => rows.findIndex((row) => row.kind === "chapter" && row.index === currentIndex),
+    [currentIndex, rows]
+  );
+  // Chapter the list was last centred on, so toggling a volume doesn't yank it back
+  const centeredIndexRef = useRef<number | null>(null);
+
+  // Bring the current chapter to the middle when it changes or the list is shown
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!visible || needle) {
+      centeredIndexRef.current = null;
+      return;
+    }
+    if (currentRow < 0 || !container?.clientHeight) return;
+    if (centeredIndexRef.current === currentIndex) return;
+    centeredIndexRef.current = currentIndex;
+    container.scrollTo({
+      top: Math.max(currentRow * ROW_HEIGHT - (container.clientHeight - ROW_HEIGHT) / 2, 0),
+      behavior: "smooth",
+    });
+  }, [currentIndex, currentRow, needle, visible]);
+
+  const select = (index: number) => {
+    setQuery("");
+    onSelect(index);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      const first = listRows.find((row) => row.kind !== "group");
+      if (first) select(first.index);
+    }
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      scrollRef.current?.querySelector("button")?.focus();
+    }
+    // Escape clears the filter first, then closes the mobile menu as before
+    if (event.key === "Escape" && query) {
+      event.nativeEvent.stopPropagation();
+      setQuery("");
+    }
+  };
+
+  const start = Math.max(Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS, 0);
+  const end = Math.min(
+    Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS,
+    listRows.length
+  );
+
+  return (
+    <>
+      <div className="mb-2 flex items-center justify-between">
+        <span
+          className="text-[0.65rem] uppercase tracking-[0.25em]"
+          style={{ color: theme.mutedForeground }}
+        >
+          {needle ? `${listRows.length - (jumpIndex === null ? 0 : 1)} Found` : `${chapters.length} Chapters`}
+        </span>
+        <span className="text-[0.65rem]" style={{ color: theme.mutedForeground }}>
+          {currentIndex + 1} of {chapters.length}
+        </span>
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          scrollRef.current?.scrollTo({ top: 0 });
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Filter, or a chapter number"
+        aria-label="Filter chapters"
+        className="border bg-transparent px-3 py-2 text-xs focus:outline-none"
+        style={{ borderColor: theme.border, color: theme.foreground }}
+      />
+      <div
+        ref={scrollRef}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        className="min-h-0 flex-1 overflow-y-auto pr-2 scrollbar-thin"
+      >
+        <div
+          style={{
+            height: listRows.length * ROW_HEIGHT,
+            paddingTop: start * ROW_HEIGHT,
+            boxSizing: "border-box",
+          }}
+        >
+          {listRows.slice(start, end).map((row) => {
+            if (row.kind === "group") {
+              return (
+                <ChapterGroupButton
+                  key={`group-${row.id}`}
+                  title={row.title}
+                  expanded={row.expanded}
+                  depth={row.depth}
+                  theme={theme}
+                  onToggle={() => onToggleGroup(row.id)}
+                />
+              );
+            }
+            if (row.kind === "jump") {
+              return (
+                <ChapterButton
+                  key="jump"
+                  title={`Go to chapter ${row.index + 1}`}
+                  active={false}
+                  theme={theme}
+                  onClick={() => select(row.index)}
+                />
+              );
+            }
+            const chapter = chapters[row.index];
+            return (
+              <ChapterButton
+                key={chapter.id}
+                title={chapter.title}
+                number={needle ? row.index + 1 : undefined}
+                active={row.index === currentIndex}
+                bookmarked={bookmarkedIds?.has(chapter.id)}
+                depth={row.depth}
+                theme={theme}
+                onClick={() => select(row.index)}
+              />
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+});
@@ -0,0 +1,44 @@
+"use client";
+
+import { memo, useEffect } from "react";
+
+type ImportDialogProps = {
+  label: string;
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+};
+
+/** Modal shell for the import review steps (update plan, chapter preview). */
+export const ImportDialog = memo(function ImportDialog({
+  label,
+  title,
+  onClose,
+  children,
+}: ImportDialogProps) {
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleEscape);
+    return () => window.removeEventListener("keydown", handleEscape);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={`${label}: ${title}`}
+        className="flex max-h-[85vh] w-full max-w-lg flex-col gap-4 overflow-y-auto border border-zinc-800 bg-[#151515] p-5 text-xs md:text-sm normal-case tracking-normal text-zinc-400"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex flex-col gap-1">
+          <span className="text-[0.65rem] uppercase tracking-[0.3em] text-zinc-500">{label}</span>
+          <span className="text-sm md:text-base text-zinc-50">{title}</span>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,103 @@
+"use client";
+
+import { memo } from "react";
+import Link from "next/link";
+import type { ImportJobAction, ImportJobView } from "@/hooks/use-import-job";
+import { NovelUpdateReview } from "@/components/novel-update-review";
+import { ImportPreviewReview } from "@/components/import-preview-review";
+
+type ImportJobProgressProps = {
+  job: ImportJobView | null;
+  message: string | null;
+  jobActive: boolean;
+  onAction: (payload: ImportJobAction) => void;
+  onDismiss: () => void;
+  // Heading for the update review; defaults to the matched novel or file name
+  reviewTitle?: string;
+};
+
+const actionClass =
+  "uppercase tracking-[0.2em] text-[0.65rem] text-zinc-500 transition hover:text-zinc-200";
+
+export const ImportJobProgress = memo(function ImportJobProgress({
+  job,
+  message,
+  jobActive,
+  onAction,
+  onDismiss,
+  reviewTitle,
+}: ImportJobProgressProps) {
+  if (!message && !job) return null;
+
+  const settled = job?.status === "failed" || job?.status === "cancelled";
+  const inReview = job?.status === "review" && Boolean(job.updatePlan || job.preview);
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-zinc-300">
+      {message && !inReview && <span>{message}</span>}
+      {job && job.status !== "cancelled" && (
+        <div className="h-1 w-full bg-zinc-900">
+          <div
+            className={`h-full transition-all ${job.status === "failed" ? "bg-red-900" : "bg-zinc-300"}`}
+            style={{ width: `${job.progress}%` }}
+          />
+        </div>
+      )}
+      {job?.status === "duplicate" && (
+        <div className="flex flex-wrap gap-3">
+          {job.duplicateOf && (
+            <Link href={`/reader/${job.duplicateOf.id}`} className={actionClass}>
+              open existing
+            </Link>
+          )}
+          <button type="button" onClick={() => onAction({ action: "update-existing" })} className={actionClass}>
+            update existing
+          </button>
+          <button type="button" onClick={() => onAction({ action: "import-anyway" })} className={actionClass}>
+            import anyway
+          </button>
+          <button type="button" onClick={() => onAction({ action: "cancel" })} className={actionClass}>
+            cancel
+          </button>
+        </div>
+      )}
+      {job && (jobActive || settled) && (
+        <div className="flex gap-3">
+          {jobActive ? (
+            <button type="button" onClick={() => onAction({ action: "cancel" })} className={actionClass}>
+              cancel
+            </button>
+          ) : (
+            <>
+              <button type="button" onClick={() => onAction({ action: "retry" })} className={actionClass}>
+                retry
+              </button>
+              <button type="button" onClick={onDismiss} className={actionClass}>
+                dismiss
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {inReview && job.preview && !job.updatePlan && (
+        <ImportPreviewReview
+          // Remount with fresh settings whenever a new preview arrives
+          key={JSON.stringify(job.preview.options)}
+          title={reviewTitle ?? job.filename}
+          preview={job.preview}
+          onConfirm={(selection) => onAction({ action: "confirm", ...selection })}
+          onReparse={(options) => onAction({ action: "reparse", ...options })}
+          onCancel={() => onAction({ action: "cancel" })}
+        />
+      )}
+      {inReview && job.updatePlan && (
+        <NovelUpdateReview
+          title={reviewTitle ?? job.duplicateOf?.title ?? job.filename}
+          plan={job.updatePlan}
+          onConfirm={(removeMissing) => onAction({ action: "confirm", removeMissing })}
+          onCancel={() => onAction({ action: "cancel" })}
+        />
+      )}
+    </div>
+  );
+});
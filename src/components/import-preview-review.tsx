@@ -0,0 +1,243 @@
+"use client";
+
+import { memo, useMemo, useState } from "react";
+import { ImportDialog } from "@/components/import-dialog";
+import {
+  DEFAULT_TXT_HEADINGS,
+  TXT_ENCODINGS,
+  TXT_HEADING_PRESETS,
+  type ImportParseOptions,
+  type ImportPreview,
+  type ImportSelection,
+  type TxtHeadingPreset,
+} from "@/lib/import-formats";
+
+type ImportPreviewReviewProps = {
+  title: string;
+  preview: ImportPreview;
+  onConfirm: (selection: ImportSelection) => void;
+  onReparse: (options: ImportParseOptions) => void;
+  onCancel: () => void;
+};
+
+const LIST_LIMIT = 200;
+
+const presetIds = Object.keys(TXT_HEADING_PRESETS) as TxtHeadingPreset[];
+
+const fieldClass =
+  "border border-zinc-800 bg-black/40 px-2 py-1 text-zinc-100 focus:border-zinc-200 focus:outline-none";
+
+export const ImportPreviewReview = memo(function ImportPreviewReview({
+  title,
+  preview,
+  onConfirm,
+  onReparse,
+  onCancel,
+}: ImportPreviewReviewProps) {
+  const [headings, setHeadings] = useState<TxtHeadingPreset[]>(
+    preview.options.headings ?? DEFAULT_TXT_HEADINGS
+  );
+  const [customHeading, setCustomHeading] = useState(preview.options.customHeading ?? "");
+  const [encoding, setEncoding] = useState(preview.options.encoding ?? preview.encoding ?? "");
+  const [bookTitle, setBookTitle] = useState(preview.title);
+  const [author, setAuthor] = useState(preview.author ?? "");
+  // The parser's front-matter guesses start unticked
+  const [excluded, setExcluded] = useState(
+    () =>
+      new Set(
+        preview.chapters.flatMap((chapter, index) => (chapter.isFrontMatter ? [index] : []))
+      )
+  );
+  const [showAll, setShowAll] = useState(false);
+
+  const toggleHeading = (preset: TxtHeadingPreset) => {
+    setHeadings((current) =>
+      current.includes(preset) ? current.filter((id) => id !== preset) : [...current, preset]
+    );
+  };
+
+  const toggleChapter = (index: number) => {
+    setExcluded((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const chapterCount = preview.chapters.length;
+  const selectedCount = chapterCount - excluded.size;
+  const visibleChapters = useMemo(
+    () => (showAll ? preview.chapters : preview.chapters.slice(0, LIST_LIMIT)),
+    [preview.chapters, showAll]
+  );
+
+  const handleConfirm = () => {
+    const trimmedTitle = bookTitle.trim();
+    const trimmedAuthor = author.trim();
+    onConfirm({
+      title: trimmedTitle !== preview.title ? trimmedTitle : undefined,
+      author: trimmedAuthor !== (preview.author ?? "") ? trimmedAuthor : undefined,
+      excludedChapters: [...excluded].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <ImportDialog label="preview" title={title} onClose={onCancel}>
+      <p>
+        {chapterCount} chapter{chapterCount === 1 ? "" : "s"} detected
+        {preview.encoding ? ` · read as ${preview.encoding}` : ""}.
+      </p>
+
+      <div className="flex flex-col gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-[0.65rem] uppercase tracking-[0.2em] text-zinc-500">title</span>
+          <input
+            type="text"
+            value={bookTitle}
+            onChange={(event) => setBookTitle(event.target.value)}
+            maxLength={200}
+            className={fieldClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-[0.65rem] uppercase tracking-[0.2em] text-zinc-500">author</span>
+          <input
+            type="text"
+            value={author}
+            onChange={(event) => setAuthor(event.target.value)}
+            placeholder="Unknown"
+            maxLength={200}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+
+      {preview.format === "txt" && (
+        <div className="flex flex-col gap-2 border-y border-zinc-800 py-3">
+          <span className="text-[0.65rem] uppercase tracking-[0.2em] text-zinc-500">chapter headings</span>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-zinc-300">
+            {presetIds.map((preset) => (
+              <label key={preset} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={headings.includes(preset)}
+                  onChange={() => toggleHeading(preset)}
+                />
+                {TXT_HEADING_PRESETS[preset].label}
+              </label>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={customHeading}
+            onChange={(event) => setCustomHeading(event.target.value)}
+            placeholder="Custom heading, # for the number: Part #, 第#话"
+            maxLength={200}
+            className={fieldClass}
+          />
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2">
+              <span className="text-[0.65rem] uppercase tracking-[0.2em] text-zinc-500">encoding</span>
+              <select
+                value={encoding}
+                onChange={(event) => setEncoding(event.target.value)}
+                className={fieldClass}
+              >
+                {TXT_ENCODINGS.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={() =>
+                onReparse({
+                  headings,
+                  customHeading: customHeading.trim() || undefined,
+                  encoding: TXT_ENCODINGS.find((value) => value === encoding),
+                })
+              }
+              className="text-[0.65rem] uppercase tracking-[0.2em] text-zinc-300 transition hover:text-white"
+            >
+              detect again
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-4 text-[0.65rem] uppercase tracking-[0.2em] text-zinc-500">
+        <span>chapters</span>
+        <button type="button" onClick={() => setExcluded(new Set())} className="transition hover:text-white">
+          all
+        </button>
+        <button
+          type="button"
+          onClick={() => setExcluded(new Set(preview.chapters.map((_chapter, index) => index)))}
+          className="transition hover:text-white"
+        >
+          none
+        </button>
+      </div>
+
+      <ol className="flex flex-col gap-2">
+        {visibleChapters.map((chapter, index) => (
+          <li key={index} className={`flex gap-2 ${excluded.has(index) ? "opacity-50" : ""}`}>
+            <input
+              type="checkbox"
+              checked={!excluded.has(index)}
+              onChange={() => toggleChapter(index)}
+              aria-label={`Import ${chapter.title}`}
+              className="mt-1 flex-shrink-0"
+            />
+            <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+              <div className="flex items-baseline justify-between gap-3 text-zinc-200">
+                <span className="truncate">
+                  <span className="text-zinc-600">#{index + 1} </span>
+                  {chapter.title}
+                </span>
+                <span className="flex-shrink-0 text-[0.65rem] text-zinc-600">
+                  {chapter.isFrontMatter && (
+                    <span className="uppercase tracking-[0.2em] text-zinc-500">front matter · </span>
+                  )}
+                  {chapter.length.toLocaleString()} chars
+                </span>
+              </div>
+              {chapter.excerpt && <p className="line-clamp-2 text-zinc-500">{chapter.excerpt}</p>}
+            </div>
+          </li>
+        ))}
+        {!showAll && chapterCount > LIST_LIMIT && (
+          <li>
+            <button
+              type="button"
+              onClick={() => setShowAll(true)}
+              className="text-zinc-600 transition hover:text-white"
+            >
+              and {chapterCount - LIST_LIMIT} more
+            </button>
+          </li>
+        )}
+      </ol>
+
+      <div className="flex gap-4 text-[0.65rem] md:text-xs uppercase tracking-[0.25em]">
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={selectedCount === 0 || !bookTitle.trim()}
+          className="text-zinc-200 transition hover:text-white disabled:opacity-40"
+        >
+          import {selectedCount} chapter{selectedCount === 1 ? "" : "s"}
+        </button>
+        <button type="button" onClick={onCancel} className="text-zinc-500 transition hover:text-white">
+          cancel
+        </button>
+      </div>
+    </ImportDialog>
+  );
+});
@@ -0,0 +1,30 @@
+import {
+  IMPORT_WARNING_LABELS,
+  ImportWarning,
+  formatWarningCount,
+} from "@/lib/import-report";
+
+type ImportWarningsProps = {
+  warnings: ImportWarning[];
+};
+
+export function ImportWarnings({ warnings }: ImportWarningsProps) {
+  if (!warnings.length) return null;
+
+  return (
+    <details className="group text-[0.65rem] md:text-xs text-zinc-500">
+      <summary className="cursor-pointer list-none uppercase tracking-[0.2em] transition hover:text-zinc-200">
+        imported with {formatWarningCount(warnings.length)}
+      </summary>
+      <ul className="mt-2 flex max-h-48 flex-col gap-1 overflow-y-auto border-l border-zinc-800 pl-3 normal-case tracking-normal">
+        {warnings.map((warning, index) => (
+          <li key={index} className="leading-snug">
+            <span className="text-zinc-400">{IMPORT_WARNING_LABELS[warning.code] ?? warning.code}</span>
+            <span className="text-zinc-600"> — </span>
+            {warning.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
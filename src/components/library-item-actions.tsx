@@ -1,19 +1,36 @@
 "use client";
 
-import { FormEvent, useEffect, useState, memo, useCallback } from "react";
+import { FormEvent, useEffect, useRef, useState, memo, useCallback } from "react";
 import { useRouter } from "next/navigation";
+import { useImportJob } from "@/hooks/use-import-job";
+import { IMPORT_FILE_ACCEPT } from "@/lib/import-formats";
+import { ImportJobProgress } from "@/components/import-job-progress";
 
 type LibraryItemActionsProps = {
   novelId: string;
   title: string;
+  // The novel is checked for new chapters at its source URL
+  followed?: boolean;
+  // The uploaded file is kept and can be downloaded or parsed again
+  hasOriginal?: boolean;
 };
 
-export const LibraryItemActions = memo(function LibraryItemActions({ novelId, title }: LibraryItemActionsProps) {
+export const LibraryItemActions = memo(function LibraryItemActions({
+  novelId,
+  title,
+  followed = false,
+  hasOriginal = false,
+}: LibraryItemActionsProps) {
   const router = useRouter();
   const [isEditing, setIsEditing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportRange, setExportRange] = useState({ from: "", to: "" });
   const [value, setValue] = useState(title);
   const [error, setError] = useState<string | null>(null);
   const [isBusy, setIsBusy] = useState(false);
+  const updateInputRef = useRef<HTMLInputElement>(null);
+  const updateJob = useImportJob();
+  const { startImport, startReimport, runAction } = updateJob;
 
   useEffect(() => {
     setValue(title);
@@ -71,6 +88,49 @@ export const LibraryItemActions = memo(function LibraryItemActions({ novelId, ti
     router.refresh();
   }, [novelId, router]);
 
+  const handleUnfollow = useCallback(async () => {
+    if (!confirm("Stop checking this novel for new chapters?")) {
+      return;
+    }
+    setIsBusy(true);
+    const response = await fetch(`/api/novels/${novelId}/source`, {
+      method: "DELETE",
+    });
+    setIsBusy(false);
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      setError(data.error || "Unable to unfollow.");
+      return;
+    }
+
+    router.refresh();
+  }, [novelId, router]);
+
+  const handleExport = useCallback((event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const params = new URLSearchParams();
+    if (exportRange.from) params.set("from", exportRange.from);
+    if (exportRange.to) params.set("to", exportRange.to);
+    const query = params.toString();
+
+    // The route answers with an attachment, so the page stays where it is
+    window.location.href = `/api/novels/${novelId}/export.epub${query ? `?${query}` : ""}`;
+    setIsExporting(false);
+  }, [novelId, exportRange]);
+
+  const handleUpdateFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const input = event.currentTarget;
+      const file = input.files?.[0];
+      if (!file) return;
+
+      await startImport(file, { novelId });
+      input.value = "";
+    },
+    [novelId, startImport]
+  );
+
   if (isEditing) {
     return (
       <form onSubmit={handleRename} className="flex flex-col gap-2 text-xs text-zinc-500">
@@ -103,9 +163,58 @@ export const LibraryItemActions = memo(function LibraryItemActions({ novelId, ti
     );
   }
 
+  if (isExporting) {
+    return (
+      <form onSubmit={handleExport} className="flex flex-col gap-2 text-xs text-zinc-500">
+        <span className="uppercase tracking-[0.2em]">export chapters</span>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            value={exportRange.from}
+            onChange={(event) => setExportRange((range) => ({ ...range, from: event.target.value }))}
+            placeholder="first"
+            className="w-20 border border-zinc-800 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-zinc-200 focus:outline-none"
+          />
+          <span>–</span>
+          <input
+            type="number"
+            min={1}
+            value={exportRange.to}
+            onChange={(event) => setExportRange((range) => ({ ...range, to: event.target.value }))}
+            placeholder="last"
+            className="w-20 border border-zinc-800 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-zinc-200 focus:outline-none"
+          />
+        </div>
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="uppercase tracking-[0.2em] text-zinc-300 transition hover:text-white"
+          >
+            download epub
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsExporting(false)}
+            className="uppercase tracking-[0.2em] text-zinc-500 transition hover:text-white"
+          >
+            cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
   return (
     <div className="flex flex-col gap-1 text-[0.65rem] md:text-xs uppercase tracking-[0.25em] md:tracking-[0.3em] text-zinc-500">
       {error && <span className="text-red-400 normal-case tracking-normal text-xs">{error}</span>}
+      <input
+        ref={updateInputRef}
+        type="file"
+        accept={IMPORT_FILE_ACCEPT}
+        className="hidden"
+        onChange={handleUpdateFile}
+      />
       <button
         type="button"
         onClick={toggleEditing}
@@ -122,6 +231,65 @@ export const LibraryItemActions = memo(function LibraryItemActions({ novelId, ti
       >
         delete
       </button>
+      <button
+        type="button"
+        onClick={() => updateInputRef.current?.click()}
+        className="text-left transition hover:text-white disabled:opacity-40"
+        disabled={isBusy || updateJob.busy}
+        title="Update from a newer export of this novel"
+      >
+        update
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsExporting(true)}
+        className="text-left transition hover:text-white"
+        disabled={isBusy}
+        title="Download as EPUB, whole or a range of chapters"
+      >
+        export
+      </button>
+      {hasOriginal && (
+        <>
+          <a
+            href={`/api/novels/${novelId}/original`}
+            className="text-left transition hover:text-white"
+            title="Download the file this novel was imported from"
+          >
+            original
+          </a>
+          <button
+            type="button"
+            onClick={() => startReimport(novelId)}
+            className="text-left transition hover:text-white disabled:opacity-40"
+            disabled={isBusy || updateJob.busy}
+            title="Parse the original file again with the current importer"
+          >
+            re-import
+          </button>
+        </>
+      )}
+      {followed && (
+        <button
+          type="button"
+          onClick={handleUnfollow}
+          className="text-left transition hover:text-white"
+          disabled={isBusy}
+          title="Stop checking the source for new chapters"
+        >
+          unfollow
+        </button>
+      )}
+      <div className="normal-case tracking-normal">
+        <ImportJobProgress
+          job={updateJob.job}
+          message={updateJob.message}
+          jobActive={updateJob.jobActive}
+          onAction={runAction}
+          onDismiss={updateJob.dismiss}
+          reviewTitle={title}
+        />
+      </div>
     </div>
   );
 });
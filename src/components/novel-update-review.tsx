@@ -0,0 +1,119 @@
+"use client";
+
+import { memo, useState } from "react";
+import type { NovelUpdateSummary } from "@/lib/novel-update";
+import { ImportDialog } from "@/components/import-dialog";
+
+type NovelUpdateReviewProps = {
+  title: string;
+  plan: NovelUpdateSummary;
+  onConfirm: (removeMissing: boolean) => void;
+  onCancel: () => void;
+};
+
+const LIST_LIMIT = 12;
+
+function ChangeList({
+  label,
+  items,
+}: {
+  label: string;
+  items: { key: string; position: number; text: string }[];
+}) {
+  if (!items.length) return null;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-[0.65rem] uppercase tracking-[0.2em] text-zinc-500">
+        {label} · {items.length}
+      </span>
+      <ul className="flex flex-col gap-0.5 border-l border-zinc-800 pl-3 text-zinc-300">
+        {items.slice(0, LIST_LIMIT).map((item) => (
+          <li key={item.key} className="truncate">
+            <span className="text-zinc-600">#{item.position + 1} </span>
+            {item.text}
+          </li>
+        ))}
+        {items.length > LIST_LIMIT && (
+          <li className="text-zinc-600">and {items.length - LIST_LIMIT} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+export const NovelUpdateReview = memo(function NovelUpdateReview({
+  title,
+  plan,
+  onConfirm,
+  onCancel,
+}: NovelUpdateReviewProps) {
+  const [removeMissing, setRemoveMissing] = useState(false);
+
+  const nothingToDo = !plan.added.length && !plan.changed.length && !plan.removed.length;
+
+  return (
+    <ImportDialog label="update" title={title} onClose={onCancel}>
+      {nothingToDo ? (
+        <p>The new file has the same chapters. Nothing will change.</p>
+      ) : (
+        <p>
+          {plan.unchanged} chapter{plan.unchanged === 1 ? "" : "s"} unchanged. Reading progress
+          stays on matched chapters.
+        </p>
+      )}
+
+      <ChangeList
+        label="added"
+        items={plan.added.map((chapter) => ({
+          key: `added-${chapter.position}`,
+          position: chapter.position,
+          text: chapter.title,
+        }))}
+      />
+      <ChangeList
+        label="changed"
+        items={plan.changed.map((chapter) => ({
+          key: chapter.chapterId,
+          position: chapter.position,
+          text:
+            chapter.previousTitle === chapter.title
+              ? chapter.title
+              : `${chapter.previousTitle} → ${chapter.title}`,
+        }))}
+      />
+      <ChangeList
+        label="missing from the new file"
+        items={plan.removed.map((chapter) => ({
+          key: chapter.chapterId,
+          position: chapter.position,
+          text: chapter.title,
+        }))}
+      />
+
+      {plan.removed.length > 0 && (
+        <label className="flex items-center gap-2 text-zinc-300">
+          <input
+            type="checkbox"
+            checked={removeMissing}
+            onChange={(event) => setRemoveMissing(event.target.checked)}
+          />
+          Delete the {plan.removed.length} missing chapter{plan.removed.length === 1 ? "" : "s"}
+        </label>
+      )}
+
+      <div className="flex gap-4 text-[0.65rem] md:text-xs uppercase tracking-[0.25em]">
+        <button
+          type="button"
+          onClick={() => onConfirm(removeMissing)}
+          className="text-zinc-200 transition hover:text-white"
+        >
+          {nothingToDo ? "update anyway" : "apply update"}
+        </button>
+        <button type="button" onClick={onCancel} className="text-zinc-500 transition hover:text-white">
+          cancel
+        </button>
+      </div>
+    </ImportDialog>
+  );
+});
@@ -0,0 +1,378 @@
+"use client";
+
+import {
+  forwardRef,
+  memo,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import type { PageMargins } from "@/lib/reader-preferences";
+import {
+  firstTextPosition,
+  locatorFromPosition,
+  positionRect,
+  resolveLocator,
+  type ReadingLocator,
+} from "@/lib/reading-locator";
+
+export type PaginatedChapterHandle = {
+  /** Turns to the page that shows the element, e.g. the word TTS is reading. */
+  showElement: (element: Element) => void;
+  /** Turns to the page holding the locator and makes it the reading position. */
+  showLocator: (locator: ReadingLocator) => void;
+};
+
+type PaginatedChapterProps = {
+  html: string;
+  mode: "slide" | "curl";
+  margins: PageMargins;
+  maxWidth: number;
+  contentStyle: React.CSSProperties;
+  paragraphOverride: boolean;
+  theme: { background: string; muted: string };
+  // Opens on the last page, for turning back into the previous chapter
+  startAtEnd?: boolean;
+  // Where to open instead, e.g. the saved reading position
+  initialLocator?: ReadingLocator | null;
+  onLocatorChange?: (locator: ReadingLocator) => void;
+  contentRef?: React.RefObject<HTMLDivElement | null>;
+  onPrevChapter: () => void;
+  onNextChapter: () => void;
+};
+
+type PageTurn = { id: number; from: number; to: number };
+
+const TURN_DURATION_MS = 450;
+const SWIPE_THRESHOLD_PX = 50;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Columns are one page wide, so a point's page is its distance from the
+ * content's left edge in page widths. Works mid-transition because the
+ * content box moves with its columns.
+ */
+const pageAt = (content: HTMLElement, pageWidth: number, left: number) =>
+  Math.floor((left - content.getBoundingClientRect().left) / pageWidth);
+
+export const PaginatedChapter = memo(
+  forwardRef<PaginatedChapterHandle, PaginatedChapterProps>(function PaginatedChapter(
+    {
+      html,
+      mode,
+      margins,
+      maxWidth,
+      contentStyle,
+      paragraphOverride,
+      theme,
+      startAtEnd = false,
+      initialLocator = null,
+      onLocatorChange,
+      contentRef,
+      onPrevChapter,
+      onNextChapter,
+    },
+    ref
+  ) {
+    const frameRef = useRef<HTMLDivElement>(null);
+    const ownContentRef = useRef<HTMLDivElement>(null);
+    const [pageSize, setPageSize] = useState({ width: 0, height: 0 });
+    const [page, setPage] = useState(0);
+    const [pageCount, setPageCount] = useState(1);
+    const [turn, setTurn] = useState<PageTurn | null>(null);
+    const pageRef = useRef(0);
+    const pageCountRef = useRef(1);
+    // Where the reader is, kept as a locator so a reflow (or the TTS word
+    // wrapping replacing the HTML) can find it again
+    const anchorRef = useRef<ReadingLocator | null>(initialLocator);
+    const fractionRef = useRef(startAtEnd ? 1 : 0);
+    const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+    const swipedRef = useRef(false);
+
+    const setContentNode = useCallback(
+      (node: HTMLDivElement | null) => {
+        ownContentRef.current = node;
+        if (contentRef) contentRef.current = node;
+      },
+      [contentRef]
+    );
+
+    const onLocatorChangeRef = useRef(onLocatorChange);
+    useEffect(() => {
+      onLocatorChangeRef.current = onLocatorChange;
+    }, [onLocatorChange]);
+
+    const captureAnchor = useCallback((target: number) => {
+      const content = ownContentRef.current;
+      const width = frameRef.current?.clientWidth ?? 0;
+      fractionRef.current = pageCountRef.current > 1 ? target / (pageCountRef.current - 1) : 0;
+      const position =
+        content && width
+          ? firstTextPosition(content, (rect) => pageAt(content, width, rect.left) >= target)
+          : null;
+      anchorRef.current = content && position ? locatorFromPosition(content, position) : null;
+      if (anchorRef.current) onLocatorChangeRef.current?.(anchorRef.current);
+    }, []);
+
+    useLayoutEffect(() => {
+      const frame = frameRef.current;
+      if (!frame) return;
+      const measure = () =>
+        setPageSize((current) =>
+          current.width === frame.clientWidth && current.height === frame.clientHeight
+            ? current
+            : { width: frame.clientWidth, height: frame.clientHeight }
+        );
+      measure();
+      const observer = new ResizeObserver(measure);
+      observer.observe(frame);
+      return () => observer.disconnect();
+    }, []);
+
+    const relayout = useCallback(() => {
+      const content = ownContentRef.current;
+      if (!content || !pageSize.width) return;
+      const count = Math.max(1, Math.ceil((content.scrollWidth - 1) / pageSize.width));
+      pageCountRef.current = count;
+
+      const position = anchorRef.current ? resolveLocator(content, anchorRef.current) : null;
+      const rect = position ? positionRect(position) : null;
+      const anchored = rect ? pageAt(content, pageSize.width, rect.left) : null;
+      const target = clamp(
+        anchored ?? Math.round(fractionRef.current * (count - 1)),
+        0,
+        count - 1
+      );
+
+      pageRef.current = target;
+      setPageCount(count);
+      setPage(target);
+      setTurn(null);
+      if (anchored === null) captureAnchor(target);
+    }, [captureAnchor, pageSize.width]);
+
+    // Anything that reflows the text re-derives the page from the anchor
+    const layoutKey = JSON.stringify([contentStyle, margins, paragraphOverride]);
+    useLayoutEffect(() => {
+      relayout();
+    }, [html, layoutKey, pageSize.height, relayout]);
+
+    // Images and web fonts arrive after the first layout
+    useEffect(() => {
+      const content = ownContentRef.current;
+      if (!content) return;
+      const onLoad = () => relayout();
+      content.addEventListener("load", onLoad, true);
+      document.fonts?.addEventListener("loadingdone", onLoad);
+      return () => {
+        content.removeEventListener("load", onLoad, true);
+        document.fonts?.removeEventListener("loadingdone", onLoad);
+      };
+    }, [relayout]);
+
+    useEffect(() => {
+      if (!turn) return;
+      const timeout = setTimeout(() => setTurn(null), TURN_DURATION_MS);
+      return () => clearTimeout(timeout);
+    }, [turn]);
+
+    const goToPage = useCallback(
+      (target: number) => {
+        const from = pageRef.current;
+        const to = clamp(target, 0, pageCountRef.current - 1);
+        if (to === from) return;
+        pageRef.current = to;
+        setPage(to);
+        const reduceMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+        setTurn(reduceMotion ? null : { id: Date.now(), from, to });
+        captureAnchor(to);
+      },
+      [captureAnchor]
+    );
+
+    const turnForward = useCallback(() => {
+      if (pageRef.current < pageCountRef.current - 1) {
+        goToPage(pageRef.current + 1);
+      } else {
+        onNextChapter();
+      }
+    }, [goToPage, onNextChapter]);
+
+    const turnBack = useCallback(() => {
+      if (pageRef.current > 0) {
+        goToPage(pageRef.current - 1);
+      } else {
+        onPrevChapter();
+      }
+    }, [goToPage, onPrevChapter]);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        showElement(element) {
+          const content = ownContentRef.current;
+          if (!content || !pageSize.width || !content.contains(element)) return;
+          goToPage(pageAt(content, pageSize.width, element.getBoundingClientRect().left));
+        },
+        showLocator(locator) {
+          const content = ownContentRef.current;
+          const position = content ? resolveLocator(content, locator) : null;
+          const rect = position ? positionRect(position) : null;
+          if (!content || !rect || !pageSize.width) return;
+          goToPage(pageAt(content, pageSize.width, rect.left));
+          // Keep the exact spot rather than the top of its page
+          anchorRef.current = locator;
+          onLocatorChangeRef.current?.(locator);
+        },
+      }),
+      [goToPage, pageSize.width]
+    );
+
+    useEffect(() => {
+      const onKey = (event: KeyboardEvent) => {
+        if (event.altKey || event.ctrlKey || event.metaKey || isEditableTarget(event.target)) {
+          return;
+        }
+        if (event.key === "ArrowRight" || event.key === "PageDown") {
+          event.preventDefault();
+          turnForward();
+        }
+        if (event.key === "ArrowLeft" || event.key === "PageUp") {
+          event.preventDefault();
+          turnBack();
+        }
+      };
+      window.addEventListener("keydown", onKey);
+      return () => window.removeEventListener("keydown", onKey);
+    }, [turnBack, turnForward]);
+
+    // Tap the outer thirds of the page to turn it; the middle is left for selecting text
+    const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+      if (swipedRef.current) {
+        swipedRef.current = false;
+        return;
+      }
+      if ((event.target as Element).closest("a")) return;
+      if (window.getSelection()?.toString()) return;
+      const rect = event.currentTarget.getBoundingClientRect();
+      const x = (event.clientX - rect.left) / rect.width;
+      if (x < 1 / 3) turnBack();
+      if (x > 2 / 3) turnForward();
+    };
+
+    const handleTouchStart = (event: React.TouchEvent<HTMLDivElement>) => {
+      const touch = event.touches[0];
+      touchStartRef.current = event.touches.length === 1 ? { x: touch.clientX, y: touch.clientY } : null;
+      swipedRef.current = false;
+    };
+
+    const handleTouchEnd = (event: React.TouchEvent<HTMLDivElement>) => {
+      const start = touchStartRef.current;
+      touchStartRef.current = null;
+      const touch = event.changedTouches[0];
+      if (!start || !touch) return;
+      const dx = touch.clientX - start.x;
+      const dy = touch.clientY - start.y;
+      if (Math.abs(dx) < SWIPE_THRESHOLD_PX || Math.abs(dx) < Math.abs(dy)) return;
+      swipedRef.current = true;
+      if (dx < 0) turnForward();
+      else turnBack();
+    };
+
+    // In-chapter links and find-in-page scroll the frame; turn that into a page instead
+    const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+      const frame = event.currentTarget;
+      if (!frame.scrollLeft || !pageSize.width) return;
+      const target = pageRef.current + Math.round(frame.scrollLeft / pageSize.width);
+      frame.scrollLeft = 0;
+      goToPage(target);
+    };
+
+    const backward = turn !== null && turn.to < turn.from;
+    // A backward curl lays the previous page down over the current one, which stays until it lands
+    const shownPage = mode === "curl" && turn && backward ? turn.from : page;
+    const curlPage = turn ? (backward ? turn.to : turn.from) : null;
+
+    const columnsStyle = (visiblePage: number): React.CSSProperties => ({
+      ...contentStyle,
+      height: `${pageSize.height}px`,
+      paddingLeft: `${margins.left}px`,
+      paddingRight: `${margins.right}px`,
+      paddingTop: `${margins.top}px`,
+      paddingBottom: `${margins.bottom}px`,
+      boxSizing: "border-box",
+      overflowWrap: "break-word",
+      columnWidth: `${Math.max(pageSize.width - margins.left - margins.right, 1)}px`,
+      columnGap: `${margins.left + margins.right}px`,
+      columnFill: "auto",
+      transform: `translateX(-${visiblePage * pageSize.width}px)`,
+      "--page-height": `${Math.max(pageSize.height - margins.top - margins.bottom, 0)}px`,
+    } as React.CSSProperties);
+
+    return (
+      <div className="flex min-h-0 w-full flex-1 flex-col" style={{ maxWidth: `${maxWidth}px` }}>
+        <div
+          ref={frameRef}
+          className="relative min-h-0 flex-1 overflow-hidden"
+          style={{ touchAction: "pan-y pinch-zoom" }}
+          onClick={handleClick}
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
+          onScroll={handleScroll}
+        >
+          <div
+            ref={setContentNode}
+            className="chapter-content"
+            data-paginated="true"
+            data-paragraph-override={paragraphOverride}
+            style={{
+              ...columnsStyle(shownPage),
+              transition:
+                mode === "slide" && turn
+                  ? `transform ${TURN_DURATION_MS}ms cubic-bezier(0.2, 0.7, 0.3, 1)`
+                  : undefined,
+            }}
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+          {mode === "curl" && turn && curlPage !== null && (
+            <div
+              key={turn.id}
+              className="page-curl pointer-events-none absolute inset-0 overflow-hidden"
+              data-direction={backward ? "back" : "forward"}
+              style={{
+                backgroundColor: theme.background,
+                animationDuration: `${TURN_DURATION_MS}ms`,
+              }}
+              aria-hidden="true"
+            >
+              <div
+                className="chapter-content"
+                data-paginated="true"
+                data-paragraph-override={paragraphOverride}
+                style={columnsStyle(curlPage)}
+                dangerouslySetInnerHTML={{ __html: html }}
+              />
+            </div>
+          )}
+        </div>
+        <div
+          className="py-2 text-center text-[0.6rem] uppercase tracking-[0.25em]"
+          style={{ color: theme.muted }}
+        >
+          {page + 1} / {pageCount}
+        </div>
+      </div>
+    );
+  })
+);
+
+PaginatedChapter.displayName = "PaginatedChapter";
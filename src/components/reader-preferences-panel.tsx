@@ -22,7 +22,6 @@ export const ReaderPreferencesPanel = memo(function ReaderPreferencesPanel({
     "theme" | "font" | "layout" | "spacing"
   >("theme");
 
-  const isMobile = typeof window !== "undefined" && window.innerWidth < 768;
   const currentTheme = THEMES[preferences.theme] || THEMES.dark;
 
   const updatePreference = <K extends keyof ReaderPreferences>(
@@ -253,39 +252,37 @@ export const ReaderPreferencesPanel = memo(function ReaderPreferencesPanel({
 
         {activeSection === "layout" && (
           <div className="flex flex-col gap-6">
-            {isMobile && (
-              <div>
-                <h3
-                  className="mb-3 text-xs uppercase tracking-[0.3em]"
-                  style={{ color: currentTheme.mutedForeground }}
-                >
-                  Page Turn
-                </h3>
-                <div className="flex flex-col gap-2">
-                  {[
-                    { key: "infinite-scroll" as const, label: "Infinite Scroll" },
-                    { key: "slide" as const, label: "Slide" },
-                    { key: "curl" as const, label: "Page Curl" },
-                  ].map((mode) => {
-                    const isActive = preferences.pageTurnMode === mode.key;
-                    return (
-                      <button
-                        key={mode.key}
-                        type="button"
-                        onClick={() => updatePreference("pageTurnMode", mode.key)}
-                        className="border-b px-3 py-2 text-left text-xs transition"
-                        style={{
-                          borderColor: isActive ? currentTheme.foreground : currentTheme.border,
-                          color: isActive ? currentTheme.foreground : currentTheme.muted,
-                        }}
-                      >
-                        {mode.label}
-                      </button>
-                    );
-                  })}
-                </div>
+            <div>
+              <h3
+                className="mb-3 text-xs uppercase tracking-[0.3em]"
+                style={{ color: currentTheme.mutedForeground }}
+              >
+                Page Turn
+              </h3>
+              <div className="flex flex-col gap-2">
+                {[
+                  { key: "infinite-scroll" as const, label: "Infinite Scroll" },
+                  { key: "slide" as const, label: "Slide" },
+                  { key: "curl" as const, label: "Page Curl" },
+                ].map((mode) => {
+                  const isActive = preferences.pageTurnMode === mode.key;
+                  return (
+                    <button
+                      key={mode.key}
+                      type="button"
+                      onClick={() => updatePreference("pageTurnMode", mode.key)}
+                      className="border-b px-3 py-2 text-left text-xs transition"
+                      style={{
+                        borderColor: isActive ? currentTheme.foreground : currentTheme.border,
+                        color: isActive ? currentTheme.foreground : currentTheme.muted,
+                      }}
+                    >
+                      {mode.label}
+                    </button>
+                  );
+                })}
               </div>
-            )}
+            </div>
 
             <div>
               <h3
@@ -1,13 +1,19 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState, memo, useRef, forwardRef } from "react";
+import { useCallback, useEffect, useLayoutEffect, useMemo, useState, memo, useRef } from "react";
 import Link from "next/link";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
 import { ReaderPreferencesPanel } from "@/components/reader-preferences-panel";
+import { ChapterList } from "@/components/chapter-list";
+import { BookmarksPanel } from "@/components/bookmarks-panel";
 import { MobileNavOverlay } from "@/components/mobile-nav-overlay";
 import { TTSPanel } from "@/components/tts-panel";
 import { TTSFloatingControls } from "@/components/tts-floating-controls";
+import { InlineSpinner } from "@/components/loading-spinner";
+import { useChapterContent } from "@/hooks/use-chapter-content";
+import { useBookmarks, type BookmarkView } from "@/hooks/use-bookmarks";
+import { PaginatedChapter, type PaginatedChapterHandle } from "@/components/paginated-chapter";
 import {
   ReaderPreferences,
   getPreferencesFromStorage,
@@ -16,11 +22,28 @@ import {
   FONT_FAMILIES,
   DEFAULT_PREFERENCES,
 } from "@/lib/reader-preferences";
+import {
+  TocEntry,
+  buildChapterTree,
+  findGroupPath,
+  flattenChapterTree,
+} from "@/lib/toc";
+import type { NovelLayout } from "@/lib/import-formats";
+import {
+  type ReadingLocator,
+  firstTextPosition,
+  locatorExcerpt,
+  locatorFromPosition,
+  positionRect,
+  resolveLocator,
+} from "@/lib/reading-locator";
 
+// Chapter bodies are fetched separately; see useChapterContent
 type ReaderChapter = {
   id: string;
   title: string;
-  content: string;
+  position: number;
+  wordCount: number;
 };
 
 type ReaderNovel = {
@@ -29,7 +52,10 @@ type ReaderNovel = {
   author?: string | null;
   description?: string | null;
   coverImage?: string | null;
+  layout?: NovelLayout;
   lastReadChapterId?: string | null;
+  lastReadLocation?: ReadingLocator | null;
+  toc?: TocEntry[] | null;
   chapters: ReaderChapter[];
 };
 
@@ -41,6 +67,11 @@ type ReaderViewProps = {
 const clamp = (value: number, min: number, max: number) =>
   Math.min(Math.max(value, min), max);
 
+// In scroll mode, text above this line counts as read (it sits under the mobile buttons)
+const READING_TOP_PX = 64;
+// Where a chapter opens; page-image chapters are bookmarked here as a whole
+const CHAPTER_START: ReadingLocator = { paragraph: -1, offset: 0, percent: 0 };
+
 // Process HTML content to wrap text nodes with spans for TTS highlighting
 const processHTMLForTTS = (html: string): string => {
   if (typeof window === "undefined") return html;
@@ -87,67 +118,18 @@ const processHTMLForTTS = (html: string): string => {
   return tempDiv.innerHTML;
 };
 
-const ChapterButton = memo(
-  forwardRef<HTMLButtonElement, {
-    chapter: ReaderChapter;
-    active: boolean;
-    onClick: () => void;
-    theme: typeof THEMES.dark;
-  }>(function ChapterButton(
-    { chapter, active, onClick, theme },
-    ref
-  ) {
-    return (
-  <button
-    ref={ref}
-    type="button"
-    onClick={onClick}
-    className="group w-full px-3 py-2 text-left text-sm transition active:scale-98"
-    style={{
-      backgroundColor: active ? theme.active : 'transparent',
-      color: active ? theme.activeForeground : theme.muted,
-      borderBottom: `1px solid ${theme.border}`,
-    }}
-    onMouseEnter={(e) => {
-      if (!active) {
-        e.currentTarget.style.backgroundColor = theme.hover;
-        e.currentTarget.style.color = theme.hoverForeground;
-      }
-    }}
-    onMouseLeave={(e) => {
-      if (!active) {
-        e.currentTarget.style.backgroundColor = 'transparent';
-        e.currentTarget.style.color = theme.muted;
-      }
-    }}
-    aria-current={active ? "true" : undefined}
-  >
-    <div className="flex items-center justify-between gap-3">
-      <span className="flex-1 leading-snug line-clamp-2">{chapter.title}</span>
-      {active && (
-        <div 
-          className="h-1.5 w-1.5 flex-shrink-0"
-          style={{ backgroundColor: theme.muted }}
-        />
-      )}
-    </div>
-  </button>
-    );
-  })
-);
-
-ChapterButton.displayName = "ChapterButton";
-
 export const ReaderView = memo(function ReaderView({ novel, initialIndex }: ReaderViewProps) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const maxIndex = Math.max(novel.chapters.length - 1, 0);
+  // Comic imports show page images; text preferences and TTS don't apply
+  const isPageLayout = novel.layout === "pages";
   const [currentIndex, setCurrentIndex] = useState(() =>
     clamp(initialIndex, 0, maxIndex)
   );
   const [activePanel, setActivePanel] = useState<
-    "chapters" | "preference" | "tts"
+    "chapters" | "bookmarks" | "preference" | "tts"
   >("chapters");
   const [preferences, setPreferences] = useState<ReaderPreferences>(DEFAULT_PREFERENCES);
   const [isMobileNavOpen, setIsMobileNavOpen] = useState(false);
@@ -171,11 +153,33 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
   const [autoAdvanceEnabled, setAutoAdvanceEnabled] = useState(false);
   const [autoAdvanceTargetChapterId, setAutoAdvanceTargetChapterId] = useState<string | null>(null);
   const [autoStartPlaybackKey, setAutoStartPlaybackKey] = useState(0);
+  const chapterTree = useMemo(
+    () => buildChapterTree(novel.toc ?? [], novel.chapters.length),
+    [novel.toc, novel.chapters.length]
+  );
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(
+    () => new Set(findGroupPath(chapterTree, clamp(initialIndex, 0, maxIndex)))
+  );
+  const chapterRows = useMemo(
+    () => flattenChapterTree(chapterTree, expandedGroups),
+    [chapterTree, expandedGroups]
+  );
   const articleRef = useRef<HTMLDivElement>(null);
-  const activeChapterButtonRef = useRef<HTMLButtonElement | null>(null);
-  const setActiveChapterButtonRef = useCallback((node: HTMLButtonElement | null) => {
-    activeChapterButtonRef.current = node;
+  const pagerRef = useRef<PaginatedChapterHandle>(null);
+  // Position inside the current chapter, starting from the saved one when
+  // the reader opens on the chapter it was left at
+  const [location, setLocation] = useState<ReadingLocator | null>(() =>
+    novel.chapters[clamp(initialIndex, 0, maxIndex)]?.id === novel.lastReadChapterId
+      ? novel.lastReadLocation ?? null
+      : null
+  );
+  const locationRef = useRef(location);
+  const updateLocation = useCallback((locator: ReadingLocator | null) => {
+    locationRef.current = locator;
+    setLocation(locator);
   }, []);
+  // Turning back past a chapter's first page opens the previous one on its last page
+  const [enterAtEnd, setEnterAtEnd] = useState(false);
 
   // Load preferences on mount
   useEffect(() => {
@@ -191,11 +195,60 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
   // Get current theme with fallback for legacy themes
   const currentTheme = THEMES[preferences.theme] || THEMES.dark;
   const currentFont = FONT_FAMILIES[preferences.fontFamily] || FONT_FAMILIES['space-mono'];
+  const isPaginated = !isPageLayout && preferences.pageTurnMode !== "infinite-scroll";
+  // Typography shared by the scrolling article and the paginated columns
+  const chapterTextStyle = useMemo(
+    () => ({
+      fontSize: `${preferences.fontSize}px`,
+      fontFamily: currentFont.family,
+      color: currentTheme.foreground,
+      textAlign: preferences.textAlign,
+      ...(preferences.lineHeightSettings.override && {
+        lineHeight: preferences.lineHeightSettings.multiplier,
+      }),
+      ...(preferences.paragraphSettings.override && {
+        '--paragraph-spacing': `${preferences.paragraphSettings.spacing}rem`,
+        '--paragraph-indent': `${preferences.paragraphSettings.indentation}em`,
+      }),
+    } as React.CSSProperties),
+    [
+      currentFont.family,
+      currentTheme.foreground,
+      preferences.fontSize,
+      preferences.lineHeightSettings,
+      preferences.paragraphSettings,
+      preferences.textAlign,
+    ]
+  );
 
   useEffect(() => {
     setCurrentIndex(clamp(initialIndex, 0, maxIndex));
   }, [initialIndex, maxIndex]);
 
+  // Keep the volume/arc holding the current chapter open
+  useEffect(() => {
+    const path = findGroupPath(chapterTree, currentIndex);
+    if (!path.length) return;
+    setExpandedGroups((prev) => {
+      if (path.every((id) => prev.has(id))) return prev;
+      const next = new Set(prev);
+      path.forEach((id) => next.add(id));
+      return next;
+    });
+  }, [chapterTree, currentIndex]);
+
+  const toggleGroup = useCallback((id: string) => {
+    setExpandedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
   // Reset TTS highlighting when chapter changes
   useEffect(() => {
     setTtsWordIndex(-1);
@@ -223,14 +276,17 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
     }
   };
 
+  // A location opens the chapter at that spot instead of its top
   const handleNavigate = useCallback(
-    (index: number) => {
+    (index: number, location: ReadingLocator | null = null) => {
       const nextIndex = clamp(index, 0, maxIndex);
       setCurrentIndex(nextIndex);
+      setEnterAtEnd(false);
+      updateLocation(location);
       syncUrl(nextIndex);
-      scrollToTop();
+      if (!location?.percent) scrollToTop();
     },
-    [maxIndex, syncUrl]
+    [maxIndex, syncUrl, updateLocation]
   );
 
   const goNext = useCallback(() => {
@@ -241,6 +297,20 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
     handleNavigate(currentIndex - 1);
   }, [currentIndex, handleNavigate]);
 
+  const turnBackIntoPrevChapter = useCallback(() => {
+    if (currentIndex === 0) return;
+    handleNavigate(currentIndex - 1);
+    setEnterAtEnd(true);
+  }, [currentIndex, handleNavigate]);
+
+  const handleSelectChapter = useCallback(
+    (index: number) => {
+      handleNavigate(index);
+      setIsMobileNavOpen(false);
+    },
+    [handleNavigate]
+  );
+
   const handleAutoAdvanceChange = useCallback((enabled: boolean) => {
     setAutoAdvanceEnabled(enabled);
     if (!enabled) {
@@ -258,18 +328,6 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
     handleNavigate(nextIndex);
   }, [autoAdvanceEnabled, currentIndex, handleNavigate, maxIndex, novel.chapters]);
 
-  useEffect(() => {
-    if (activePanel !== "chapters") return;
-    const target = activeChapterButtonRef.current;
-    if (!target) return;
-    const isMobile = typeof window !== "undefined" && window.matchMedia("(max-width: 767px)").matches;
-    if (isMobile && !isMobileNavOpen) return;
-    target.scrollIntoView({
-      behavior: "smooth",
-      block: "center",
-    });
-  }, [activePanel, currentIndex, isMobileNavOpen]);
-
   // Handle TTS highlighting and auto-scroll
   useEffect(() => {
     if (ttsWordIndex < 0 || !articleRef.current) return;
@@ -287,6 +345,11 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
     
     if (currentWord) {
       currentWord.classList.add("active");
+
+      if (isPaginated) {
+        pagerRef.current?.showElement(currentWord);
+        return;
+      }
       
       // Auto-scroll to keep the highlighted word visible
       const rect = currentWord.getBoundingClientRect();
@@ -299,10 +362,17 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
         });
       }
     }
-  }, [ttsWordIndex]);
+  }, [isPaginated, ttsWordIndex]);
 
   useEffect(() => {
+    // Paginated chapters turn pages with the arrow keys and move chapters at either end
+    if (isPaginated) return;
     const onKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      // Arrow keys in the chapter filter or a slider move the caret, not the chapter
+      if (target?.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target?.tagName ?? "")) {
+        return;
+      }
       if (event.key === "ArrowRight") {
         goNext();
       }
@@ -312,28 +382,51 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [goNext, goPrev]);
+  }, [goNext, goPrev, isPaginated]);
 
   const currentChapter = useMemo(
     () => novel.chapters[currentIndex],
     [currentIndex, novel.chapters]
   );
-  const rawChapterContent = currentChapter?.content ?? "";
-  const [processedContent, setProcessedContent] = useState(rawChapterContent);
+  const chapterIds = useMemo(
+    () => novel.chapters.map((chapter) => chapter.id),
+    [novel.chapters]
+  );
+  const {
+    content: chapterContent,
+    error: chapterError,
+    retry: retryChapter,
+  } = useChapterContent(novel.id, chapterIds, currentIndex);
+  // Tagged with its chapter so a newly opened chapter never renders the last one's HTML
+  const [processedChapter, setProcessedChapter] = useState<{ id: string; html: string } | null>(
+    null
+  );
 
   useEffect(() => {
-    setProcessedContent(rawChapterContent);
-    if (typeof window === "undefined") return;
-    setProcessedContent(processHTMLForTTS(rawChapterContent));
-  }, [rawChapterContent]);
+    if (!currentChapter || chapterContent === null) return;
+    setProcessedChapter({
+      id: currentChapter.id,
+      html:
+        typeof window === "undefined" || isPageLayout
+          ? chapterContent
+          : processHTMLForTTS(chapterContent),
+    });
+  }, [chapterContent, currentChapter, isPageLayout]);
+
+  const processedContent =
+    processedChapter && processedChapter.id === currentChapter?.id ? processedChapter.html : null;
 
   const currentChapterId = currentChapter?.id;
-  const lastPersistedChapterIdRef = useRef<string | null>(null);
+  const lastPersistedProgressRef = useRef<string | null>(null);
   const hasNextChapter = currentIndex < maxIndex;
 
   useEffect(() => {
     if (!currentChapterId) return;
-    if (lastPersistedChapterIdRef.current === currentChapterId) return;
+    const progress = JSON.stringify({
+      chapterId: currentChapterId,
+      ...(location && { location }),
+    });
+    if (lastPersistedProgressRef.current === progress) return;
 
     const controller = new AbortController();
     const timeout = setTimeout(async () => {
@@ -343,11 +436,11 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ chapterId: currentChapterId }),
+          body: progress,
           keepalive: true,
           signal: controller.signal,
         });
-        lastPersistedChapterIdRef.current = currentChapterId;
+        lastPersistedProgressRef.current = progress;
       } catch (error) {
         if ((error as DOMException)?.name === "AbortError") return;
         console.error("Failed to save reading progress:", error);
@@ -358,7 +451,67 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
       controller.abort();
       clearTimeout(timeout);
     };
-  }, [currentChapterId, novel.id]);
+  }, [currentChapterId, location, novel.id]);
+
+  // Scroll mode: put the located line at the top of the window
+  const scrollToLocator = useCallback((locator: ReadingLocator) => {
+    const article = articleRef.current;
+    if (!article || locator.percent === 0) return;
+    const position = resolveLocator(article, locator);
+    const rect = position && positionRect(position);
+    if (!rect) return;
+    window.scrollTo({ top: window.scrollY + rect.top - READING_TOP_PX });
+  }, []);
+
+  // Re-find the position after anything that reflows the chapter
+  useLayoutEffect(() => {
+    if (isPaginated || isPageLayout || !locationRef.current) return;
+    scrollToLocator(locationRef.current);
+  }, [
+    chapterTextStyle,
+    isPageLayout,
+    isPaginated,
+    preferences.maxWidth,
+    preferences.pageMargins,
+    processedContent,
+    scrollToLocator,
+  ]);
+
+  useEffect(() => {
+    if (isPaginated || isPageLayout) return;
+    const article = articleRef.current;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    // Images above the position load late and push it down; hold it until the reader scrolls
+    let holding = true;
+    const release = () => {
+      holding = false;
+    };
+    const onLoad = () => {
+      if (holding && locationRef.current) scrollToLocator(locationRef.current);
+    };
+    const onScroll = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        if (!article?.isConnected) return;
+        const position = firstTextPosition(article, (rect) => rect.bottom > READING_TOP_PX);
+        if (position) updateLocation(locatorFromPosition(article, position));
+      }, 300);
+    };
+
+    article?.addEventListener("load", onLoad, true);
+    window.addEventListener("scroll", onScroll, { passive: true });
+    window.addEventListener("wheel", release, { passive: true });
+    window.addEventListener("touchstart", release, { passive: true });
+    window.addEventListener("keydown", release);
+    return () => {
+      clearTimeout(timeout);
+      article?.removeEventListener("load", onLoad, true);
+      window.removeEventListener("scroll", onScroll);
+      window.removeEventListener("wheel", release);
+      window.removeEventListener("touchstart", release);
+      window.removeEventListener("keydown", release);
+    };
+  }, [currentChapterId, isPageLayout, isPaginated, scrollToLocator, updateLocation]);
 
   useEffect(() => {
     if (!autoAdvanceEnabled) {
@@ -367,9 +520,11 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
     }
     if (!autoAdvanceTargetChapterId) return;
     if (!currentChapterId || currentChapterId !== autoAdvanceTargetChapterId) return;
+    // Wait for the chapter to arrive so playback has its text
+    if (processedContent === null) return;
     setAutoAdvanceTargetChapterId(null);
     setAutoStartPlaybackKey((key) => key + 1);
-  }, [autoAdvanceEnabled, autoAdvanceTargetChapterId, currentChapterId]);
+  }, [autoAdvanceEnabled, autoAdvanceTargetChapterId, currentChapterId, processedContent]);
 
   const ttsStopRef = useRef<(() => void) | null>(null);
 
@@ -384,13 +539,128 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
     };
   }, []);
 
+  const {
+    bookmarks,
+    error: bookmarksError,
+    addBookmark,
+    renameBookmark,
+    removeBookmark,
+  } = useBookmarks(novel.id);
+
+  const bookmarkedChapterIds = useMemo(
+    () => new Set(bookmarks.map((bookmark) => bookmark.chapterId)),
+    [bookmarks]
+  );
+
+  // The spot being read; before the first scroll or page turn that's the chapter's top
+  const currentLocator = useCallback((): ReadingLocator => {
+    const article = articleRef.current;
+    if (locationRef.current) return locationRef.current;
+    if (article && !isPageLayout) {
+      const position = firstTextPosition(article, (rect) => rect.bottom > READING_TOP_PX);
+      if (position) return locatorFromPosition(article, position);
+    }
+    return CHAPTER_START;
+  }, [isPageLayout]);
+
+  // A bookmark counts as "here" when it's in the paragraph being read
+  const bookmarkAt = useCallback(
+    (locator: ReadingLocator) =>
+      bookmarks.find(
+        (bookmark) =>
+          bookmark.chapterId === currentChapterId &&
+          (locator.paragraph >= 0
+            ? bookmark.location.paragraph === locator.paragraph
+            : bookmark.location.paragraph < 0 &&
+              Math.abs(bookmark.location.percent - locator.percent) < 0.01)
+      ) ?? null,
+    [bookmarks, currentChapterId]
+  );
+
+  const activeBookmarkId = useMemo(
+    () => bookmarkAt(location ?? CHAPTER_START)?.id ?? null,
+    [bookmarkAt, location]
+  );
+
+  // Set while a toggle is saving, so a quick second press can't add the same spot twice
+  const bookmarkTogglingRef = useRef(false);
+
+  const toggleBookmarkHere = useCallback(async () => {
+    if (bookmarkTogglingRef.current || !currentChapterId || processedContent === null) return;
+    const locator = currentLocator();
+    const existing = bookmarkAt(locator);
+    bookmarkTogglingRef.current = true;
+    try {
+      if (existing) {
+        await removeBookmark(existing);
+        return;
+      }
+      const article = articleRef.current;
+      const label = article && !isPageLayout ? locatorExcerpt(article, locator) : "";
+      await addBookmark({ chapterId: currentChapterId, location: locator, ...(label && { label }) });
+    } finally {
+      bookmarkTogglingRef.current = false;
+    }
+  }, [
+    addBookmark,
+    bookmarkAt,
+    currentChapterId,
+    currentLocator,
+    isPageLayout,
+    processedContent,
+    removeBookmark,
+  ]);
+
+  const openBookmark = useCallback(
+    (bookmark: BookmarkView) => {
+      const index = novel.chapters.findIndex((chapter) => chapter.id === bookmark.chapterId);
+      if (index < 0) return;
+      if (index === currentIndex) {
+        updateLocation(bookmark.location);
+        if (isPaginated) {
+          pagerRef.current?.showLocator(bookmark.location);
+        } else if (bookmark.location.percent) {
+          scrollToLocator(bookmark.location);
+        } else {
+          scrollToTop();
+        }
+      } else {
+        handleNavigate(index, bookmark.location);
+      }
+      setIsMobileNavOpen(false);
+    },
+    [
+      currentIndex,
+      handleNavigate,
+      isPaginated,
+      novel.chapters,
+      scrollToLocator,
+      updateLocation,
+    ]
+  );
+
+  useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key !== "b" && event.key !== "B") return;
+      if (event.altKey || event.ctrlKey || event.metaKey || event.repeat) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target?.tagName ?? "")) {
+        return;
+      }
+      toggleBookmarkHere();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [toggleBookmarkHere]);
+
   const navItems: Array<{
-    key: "chapters" | "preference" | "tts";
+    key: "chapters" | "bookmarks" | "preference" | "tts";
     label: string;
   }> = [
     { key: "chapters", label: "chapters" },
+    { key: "bookmarks", label: "bookmarks" },
     { key: "preference", label: "preference" },
-    { key: "tts", label: "tts" },
+    ...(isPageLayout ? [] : [{ key: "tts" as const, label: "tts" }]),
   ];
 
   const navContent = (
@@ -427,35 +697,35 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
           <div
             className={`${
               activePanel === "chapters" ? "flex" : "hidden"
-            } min-h-0 flex-1 flex-col gap-3 overflow-y-auto pr-2 scrollbar-thin`}
+            } min-h-0 flex-1 flex-col gap-3`}
           >
-              <div className="mb-2 flex items-center justify-between">
-                <span 
-                  className="text-[0.65rem] uppercase tracking-[0.25em]"
-                  style={{ color: currentTheme.mutedForeground }}
-                >
-                  {novel.chapters.length} Chapters
-                </span>
-                <span 
-                  className="text-[0.65rem]"
-                  style={{ color: currentTheme.mutedForeground }}
-                >
-                  {currentIndex + 1} of {novel.chapters.length}
-                </span>
-              </div>
-              {novel.chapters.map((chapter, index) => (
-                <ChapterButton
-                  ref={index === currentIndex ? setActiveChapterButtonRef : undefined}
-                  key={chapter.id}
-                  chapter={chapter}
-                  active={index === currentIndex}
-                  theme={currentTheme}
-                  onClick={() => {
-                    handleNavigate(index);
-                    setIsMobileNavOpen(false);
-                  }}
-                />
-              ))}
+              <ChapterList
+                chapters={novel.chapters}
+                rows={chapterRows}
+                currentIndex={currentIndex}
+                bookmarkedIds={bookmarkedChapterIds}
+                visible={activePanel === "chapters"}
+                theme={currentTheme}
+                onSelect={handleSelectChapter}
+                onToggleGroup={toggleGroup}
+              />
+          </div>
+          <div
+            className={`${
+              activePanel === "bookmarks" ? "flex" : "hidden"
+            } min-h-0 flex-1 flex-col`}
+          >
+            <BookmarksPanel
+              bookmarks={bookmarks}
+              chapters={novel.chapters}
+              activeBookmarkId={activeBookmarkId}
+              error={bookmarksError}
+              theme={currentTheme}
+              onToggleHere={toggleBookmarkHere}
+              onOpen={openBookmark}
+              onRename={renameBookmark}
+              onRemove={removeBookmark}
+            />
           </div>
           <div className={activePanel === "preference" ? "block" : "hidden"}>
             <ReaderPreferencesPanel
@@ -465,7 +735,7 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
           </div>
           <div className={activePanel === "tts" ? "block" : "hidden"}>
           <TTSPanel
-            chapterContent={currentChapter?.content || ""}
+            chapterContent={chapterContent ?? ""}
             onWordChange={setTtsWordIndex}
             onTTSStateChange={setTtsState}
             autoAdvanceEnabled={autoAdvanceEnabled}
@@ -510,7 +780,7 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
       >
         {/* Mobile Tab Navigation */}
         <div 
-        className="sticky top-0 z-10 grid grid-cols-3 text-center text-[0.6rem] uppercase tracking-[0.25em]" 
+        className={`sticky top-0 z-10 grid ${isPageLayout ? "grid-cols-3" : "grid-cols-4"} text-center text-[0.6rem] uppercase tracking-[0.25em]`}
         style={{ 
           backgroundColor: currentTheme.background,
         }}
@@ -635,7 +905,9 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
       </div>
 
       <main 
-        className="flex flex-1 flex-col gap-3 md:gap-6 pt-16 md:pt-8 pb-24 md:pb-8 md:ml-72 items-center"
+        className={`flex flex-1 flex-col gap-3 md:gap-6 pt-16 md:pt-8 pb-24 md:pb-8 md:ml-72 items-center ${
+          isPaginated ? "h-[100dvh] min-w-0 overflow-hidden" : ""
+        }`}
       >
         <header 
           className="flex flex-col gap-2 md:gap-4 text-xs md:text-sm text-zinc-400 w-full"
@@ -667,7 +939,7 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
             <div className="flex gap-2 md:gap-4">
               {novel.coverImage && (
                 <div className="h-20 w-14 md:h-32 md:w-24 flex-shrink-0 bg-zinc-900/40">
-                  {novel.coverImage.startsWith("data:") ? (
+                  {novel.coverImage.startsWith("data:") || novel.coverImage.startsWith("/api/") ? (
                     // eslint-disable-next-line @next/next/no-img-element
                     <img
                       src={novel.coverImage}
@@ -696,6 +968,7 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
                 </p>
                 <p className="text-[0.6rem] md:text-xs uppercase tracking-[0.25em] md:tracking-[0.3em] text-zinc-500">
                   {currentIndex + 1} / {novel.chapters.length}
+                  {currentChapter?.wordCount ? ` · ${currentChapter.wordCount.toLocaleString()} words` : ""}
                 </p>
               </div>
             </div>
@@ -746,35 +1019,66 @@ export const ReaderView = memo(function ReaderView({ novel, initialIndex }: Read
           </div>
         </header>
 
-        <article
-          ref={articleRef}
-          key={currentChapter?.id}
-        className="chapter-content flex-1 mb-20 md:mb-0 w-full"
-          data-paragraph-override={preferences.paragraphSettings.override}
-          style={{
-            maxWidth: `${preferences.maxWidth}px`,
-            fontSize: `${preferences.fontSize}px`,
-            fontFamily: currentFont.family,
-            color: currentTheme.foreground,
-            textAlign: preferences.textAlign,
-            paddingLeft: `${preferences.pageMargins.left}px`,
-            paddingRight: `${preferences.pageMargins.right}px`,
-            paddingTop: `${preferences.pageMargins.top}px`,
-            paddingBottom: `${preferences.pageMargins.bottom}px`,
-            boxSizing: 'border-box',
-            overflowWrap: 'break-word',
-            ...(preferences.lineHeightSettings.override && {
-              lineHeight: preferences.lineHeightSettings.multiplier,
-            }),
-            ...(preferences.paragraphSettings.override && {
-              '--paragraph-spacing': `${preferences.paragraphSettings.spacing}rem`,
-              '--paragraph-indent': `${preferences.paragraphSettings.indentation}em`,
-            } as React.CSSProperties),
-          }}
-          dangerouslySetInnerHTML={{
-            __html: processedContent,
-          }}
-        />
+        {processedContent === null ? (
+          <div
+            className="flex flex-1 flex-col items-center gap-3 w-full text-xs uppercase tracking-[0.3em]"
+            style={{ color: currentTheme.muted }}
+          >
+            {chapterError ? (
+              <>
+                <p>{chapterError}</p>
+                <button
+                  type="button"
+                  onClick={retryChapter}
+                  className="uppercase tracking-[0.3em] transition"
+                  style={{ color: currentTheme.foreground }}
+                >
+                  try again
+                </button>
+              </>
+            ) : (
+              <InlineSpinner />
+            )}
+          </div>
+        ) : isPaginated ? (
+          <PaginatedChapter
+            ref={pagerRef}
+            key={currentChapter?.id}
+            html={processedContent}
+            mode={preferences.pageTurnMode === "curl" ? "curl" : "slide"}
+            margins={preferences.pageMargins}
+            maxWidth={preferences.maxWidth}
+            contentStyle={chapterTextStyle}
+            paragraphOverride={preferences.paragraphSettings.override}
+            theme={currentTheme}
+            startAtEnd={enterAtEnd}
+            initialLocator={location}
+            onLocatorChange={updateLocation}
+            contentRef={articleRef}
+            onPrevChapter={turnBackIntoPrevChapter}
+            onNextChapter={goNext}
+          />
+        ) : (
+          <article
+            ref={articleRef}
+            key={currentChapter?.id}
+            className={`${isPageLayout ? "chapter-pages" : "chapter-content"} flex-1 mb-20 md:mb-0 w-full`}
+            data-paragraph-override={preferences.paragraphSettings.override}
+            style={isPageLayout ? undefined : {
+              ...chapterTextStyle,
+              maxWidth: `${preferences.maxWidth}px`,
+              paddingLeft: `${preferences.pageMargins.left}px`,
+              paddingRight: `${preferences.pageMargins.right}px`,
+              paddingTop: `${preferences.pageMargins.top}px`,
+              paddingBottom: `${preferences.pageMargins.bottom}px`,
+              boxSizing: 'border-box',
+              overflowWrap: 'break-word',
+            }}
+            dangerouslySetInnerHTML={{
+              __html: processedContent,
+            }}
+          />
+        )}
         
         {/* Chapter Counter - Bottom Right */}
         <div 
@@ -0,0 +1,54 @@
+import Link from "next/link";
+import { formatBytes, type StorageUsage } from "@/lib/storage-usage";
+
+type StorageUsageSummaryProps = {
+  usage: StorageUsage;
+};
+
+export function StorageUsageSummary({ usage }: StorageUsageSummaryProps) {
+  const share = usage.quota ? Math.min(usage.total / usage.quota, 1) : 0;
+  const nearlyFull = usage.quota !== null && share >= 0.9;
+  const novels = usage.novels.filter((novel) => novel.total > 0);
+
+  return (
+    <details className="group text-[0.65rem] md:text-xs text-zinc-500">
+      <summary className="flex cursor-pointer list-none flex-col gap-1.5 uppercase tracking-[0.2em] transition hover:text-zinc-200">
+        <span className={nearlyFull ? "text-red-400" : undefined}>
+          {formatBytes(usage.total)}
+          {usage.quota !== null ? ` of ${formatBytes(usage.quota)}` : ""} used
+        </span>
+        {usage.quota !== null && (
+          <span className="block h-px w-full max-w-xs bg-zinc-800">
+            <span
+              className={`block h-px ${nearlyFull ? "bg-red-400" : "bg-zinc-300"}`}
+              style={{ width: `${share * 100}%` }}
+            />
+          </span>
+        )}
+      </summary>
+      <ul className="mt-3 flex max-h-64 flex-col gap-2 overflow-y-auto border-l border-zinc-800 pl-3 normal-case tracking-normal">
+        {novels.map((novel) => (
+          <li key={novel.novelId} className="flex flex-col gap-0.5 leading-snug">
+            <div className="flex items-baseline justify-between gap-3">
+              <Link href={`/reader/${novel.novelId}`} className="truncate text-zinc-300 transition hover:text-white">
+                {novel.title}
+              </Link>
+              <span className="flex-shrink-0 text-zinc-400">{formatBytes(novel.total)}</span>
+            </div>
+            <span className="text-zinc-600">
+              text {formatBytes(novel.chapters)} · images {formatBytes(novel.assets)}
+              {novel.original > 0 && ` · original ${formatBytes(novel.original)}`}
+            </span>
+          </li>
+        ))}
+        {usage.pending > 0 && (
+          <li className="flex items-baseline justify-between gap-3 leading-snug">
+            <span>Uploads not imported yet</span>
+            <span className="flex-shrink-0 text-zinc-400">{formatBytes(usage.pending)}</span>
+          </li>
+        )}
+        {!novels.length && !usage.pending && <li>Nothing stored yet.</li>}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { isReadingLocator, type ReadingLocator } from "@/lib/reading-locator";
+
+export type BookmarkView = {
+  id: string;
+  chapterId: string;
+  location: ReadingLocator;
+  label: string | null;
+  createdAt: string;
+};
+
+type NewBookmark = {
+  chapterId: string;
+  location: ReadingLocator;
+  label?: string;
+};
+
+const isBookmarkView = (value: unknown): value is BookmarkView =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as BookmarkView).id === "string" &&
+  typeof (value as BookmarkView).chapterId === "string" &&
+  isReadingLocator((value as BookmarkView).location);
+
+async function readError(response: Response, fallback: string) {
+  const data = await response.json().catch(() => null);
+  return data?.error || fallback;
+}
+
+/** The novel's bookmarks, kept in sync with /api/novels/[novelId]/bookmarks. */
+export function useBookmarks(novelId: string) {
+  const [bookmarks, setBookmarks] = useState<BookmarkView[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(`/api/novels/${novelId}/bookmarks`, { signal: controller.signal })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to load bookmarks"));
+        }
+        const data = await response.json();
+        setBookmarks(Array.isArray(data?.bookmarks) ? data.bookmarks.filter(isBookmarkView) : []);
+      })
+      .catch((error) => {
+        if ((error as DOMException)?.name === "AbortError") return;
+        console.error("Failed to load bookmarks:", error);
+        setError(error instanceof Error ? error.message : "Failed to load bookmarks");
+      });
+    return () => controller.abort();
+  }, [novelId]);
+
+  const addBookmark = useCallback(
+    async (bookmark: NewBookmark) => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/novels/${novelId}/bookmarks`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(bookmark),
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to add bookmark"));
+        }
+        const data = await response.json();
+        if (isBookmarkView(data?.bookmark)) {
+          setBookmarks((current) => [...current, data.bookmark]);
+        }
+      } catch (error) {
+        console.error("Failed to add bookmark:", error);
+        setError(error instanceof Error ? error.message : "Failed to add bookmark");
+      }
+    },
+    [novelId]
+  );
+
+  // Renames and removals show at once and are undone if the server refuses them
+  const renameBookmark = useCallback(
+    async (bookmark: BookmarkView, label: string) => {
+      setError(null);
+      const setLabel = (value: string | null) =>
+        setBookmarks((current) =>
+          current.map((entry) => (entry.id === bookmark.id ? { ...entry, label: value } : entry))
+        );
+      setLabel(label.trim() || null);
+      try {
+        const response = await fetch(`/api/novels/${novelId}/bookmarks/${bookmark.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ label }),
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to rename bookmark"));
+        }
+      } catch (error) {
+        console.error("Failed to rename bookmark:", error);
+        setLabel(bookmark.label);
+        setError(error instanceof Error ? error.message : "Failed to rename bookmark");
+      }
+    },
+    [novelId]
+  );
+
+  const removeBookmark = useCallback(
+    async (bookmark: BookmarkView) => {
+      setError(null);
+      setBookmarks((current) => current.filter((entry) => entry.id !== bookmark.id));
+      try {
+        const response = await fetch(`/api/novels/${novelId}/bookmarks/${bookmark.id}`, {
+          method: "DELETE",
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to remove bookmark"));
+        }
+      } catch (error) {
+        console.error("Failed to remove bookmark:", error);
+        setBookmarks((current) => [...current, bookmark]);
+        setError(error instanceof Error ? error.message : "Failed to remove bookmark");
+      }
+    },
+    [novelId]
+  );
+
+  return { bookmarks, error, addBookmark, renameBookmark, removeBookmark };
+}
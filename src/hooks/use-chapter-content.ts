@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// Chapter bodies kept in memory; the current chapter and its neighbours fit easily
+const CHAPTER_CACHE_SIZE = 8;
+
+type ChapterContentState = {
+  chapterId: string;
+  content: string | null;
+  error: string | null;
+};
+
+/**
+ * Loads the body of the chapter at `index` from
+ * /api/novels/[novelId]/chapters/[chapterId], then prefetches the chapters on
+ * either side so turning to them doesn't wait on the network. The server
+ * answers repeat requests with a 304 through the browser cache.
+ */
+export function useChapterContent(novelId: string, chapterIds: string[], index: number) {
+  const cacheRef = useRef(new Map<string, string>());
+  const pendingRef = useRef(new Map<string, Promise<string>>());
+  const [state, setState] = useState<ChapterContentState | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const chapterId = chapterIds[index];
+  const neighbourIds = useMemo(
+    () => [chapterIds[index + 1], chapterIds[index - 1]].filter((id): id is string => Boolean(id)),
+    [chapterIds, index]
+  );
+
+  const load = useCallback(
+    (id: string): Promise<string> => {
+      const cache = cacheRef.current;
+      const cached = cache.get(id);
+      if (cached !== undefined) {
+        // Move it to the back of the eviction order
+        cache.delete(id);
+        cache.set(id, cached);
+        return Promise.resolve(cached);
+      }
+
+      const pending = pendingRef.current.get(id);
+      if (pending) return pending;
+
+      const request = fetch(`/api/novels/${novelId}/chapters/${id}`)
+        .then(async (response) => {
+          const data = await response.json().catch(() => null);
+          if (!response.ok || typeof data?.chapter?.content !== "string") {
+            throw new Error(data?.error || "Failed to load chapter");
+          }
+          const content: string = data.chapter.content;
+          cache.set(id, content);
+          while (cache.size > CHAPTER_CACHE_SIZE) {
+            cache.delete(cache.keys().next().value as string);
+          }
+          return content;
+        })
+        .finally(() => {
+          pendingRef.current.delete(id);
+        });
+      pendingRef.current.set(id, request);
+      return request;
+    },
+    [novelId]
+  );
+
+  useEffect(() => {
+    if (!chapterId) return;
+    let cancelled = false;
+
+    setState((current) =>
+      current?.chapterId === chapterId && current.content !== null
+        ? current
+        : { chapterId, content: cacheRef.current.get(chapterId) ?? null, error: null }
+    );
+
+    load(chapterId)
+      .then((content) => {
+        if (cancelled) return;
+        setState({ chapterId, content, error: null });
+        neighbourIds.forEach((id) => {
+          load(id).catch((error) => console.error("Failed to prefetch chapter:", error));
+        });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Failed to load chapter:", error);
+        setState({
+          chapterId,
+          content: null,
+          error: error instanceof Error ? error.message : "Failed to load chapter",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attempt, chapterId, load, neighbourIds]);
+
+  const retry = useCallback(() => setAttempt((value) => value + 1), []);
+
+  const current = state?.chapterId === chapterId ? state : null;
+  return {
+    content: current?.content ?? null,
+    error: current?.error ?? null,
+    retry,
+  };
+}
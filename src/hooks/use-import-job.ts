@@ -0,0 +1,325 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatWarningCount } from "@/lib/import-report";
+import {
+  importContentType,
+  type ImportParseOptions,
+  type ImportPreview,
+  type ImportSelection,
+} from "@/lib/import-formats";
+import type { ImportJobStage, ImportJobStatus } from "@/lib/import-jobs";
+import type { NovelUpdateSummary } from "@/lib/novel-update";
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
+export type ImportJobView = {
+  id: string;
+  status: ImportJobStatus;
+  stage: ImportJobStage;
+  stageCurrent: number;
+  stageTotal: number;
+  progress: number;
+  error: string | null;
+  warnings: unknown[] | null;
+  filename: string;
+  sourceUrl: string | null;
+  novelId: string | null;
+  targetNovelId: string | null;
+  updatePlan: NovelUpdateSummary | null;
+  preview: ImportPreview | null;
+  duplicateOf: { id: string; title: string } | null;
+};
+
+export type ImportJobAction =
+  | { action: "cancel" }
+  | { action: "retry" }
+  | ({ action: "confirm"; removeMissing?: boolean } & ImportSelection)
+  | { action: "import-anyway" }
+  | { action: "update-existing" }
+  | ({ action: "reparse" } & ImportParseOptions);
+
+type StartImportOptions = {
+  // Update this novel from the file instead of importing a new one
+  novelId?: string;
+};
+
+export function describeImportJob(job: ImportJobView): string {
+  const verb = job.targetNovelId ? "Update" : "Import";
+
+  switch (job.status) {
+    case "queued":
+      return `Waiting to ${verb.toLowerCase()}...`;
+    case "review":
+      return job.preview ? "Check the chapters before importing." : "Review the changes below.";
+    case "duplicate":
+      return job.duplicateOf
+        ? `Already in your library as “${job.duplicateOf.title}”.`
+        : "Already in your library.";
+    case "succeeded": {
+      const warningCount = job.warnings?.length ?? 0;
+      const done = job.targetNovelId ? "Updated" : "Imported";
+      return warningCount ? `${done} with ${formatWarningCount(warningCount)}` : done;
+    }
+    case "failed":
+      return job.error || `${verb} failed.`;
+    case "cancelled":
+      return `${verb} cancelled.`;
+  }
+
+  const counter = job.stageTotal > 0 ? ` ${job.stageCurrent}/${job.stageTotal}` : "";
+  switch (job.stage) {
+    case "downloading":
+      return "Downloading...";
+    case "parsing":
+      return job.sourceUrl ? `Fetching chapter${counter}` : `Parsing chapter${counter}`;
+    case "writing":
+      return `Writing chapter${counter}`;
+    default:
+      return "Importing...";
+  }
+}
+
+/**
+ * Uploads a file (or submits a serial's URL), queues it with /api/import and
+ * follows the resulting job until it settles. The library is refreshed once the job succeeds.
+ */
+export function useImportJob() {
+  const router = useRouter();
+  const [status, setStatus] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [job, setJob] = useState<ImportJobView | null>(null);
+  const [pollTick, setPollTick] = useState(0);
+
+  const jobId = job?.id;
+  const jobActive = job?.status === "queued" || job?.status === "running";
+
+  useEffect(() => {
+    if (!jobId || !jobActive) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/import/${jobId}`, { credentials: "include" });
+        if (!response.ok) throw new Error("Failed to load import status");
+        const next = (await response.json()) as ImportJobView;
+        if (cancelled) return;
+        setJob(next);
+
+        if (next.status === "succeeded") {
+          router.refresh();
+          setTimeout(() => {
+            setJob((current) => (current?.id === next.id ? null : current));
+          }, 2000);
+        }
+      } catch {
+        // Keep polling; a dropped request shouldn't abandon the job
+      }
+      if (!cancelled) setPollTick((tick) => tick + 1);
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId, jobActive, pollTick, router]);
+
+  const runAction = useCallback(
+    async (payload: ImportJobAction) => {
+      if (!jobId) return;
+      try {
+        const response = await fetch(`/api/import/${jobId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+          credentials: "include",
+        });
+        const data = (await response.json().catch(() => ({}))) as Partial<ImportJobView> & {
+          error?: string;
+        };
+        if (!response.ok) {
+          setStatus(data.error || "Failed to update import.");
+          return;
+        }
+        setStatus(null);
+        setJob(data as ImportJobView);
+      } catch {
+        setStatus("Network error. Please try again.");
+      }
+    },
+    [jobId]
+  );
+
+  const startImport = useCallback(
+    async (file: File, options: StartImportOptions = {}) => {
+      setIsUploading(true);
+      setStatus("Uploading...");
+      setJob(null);
+
+      try {
+        const filename = file.name || "upload.epub";
+        const contentType = file.type || importContentType(filename);
+
+        const uploadUrlResponse = await fetch("/api/import/upload-url", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ filename, contentType, size: file.size }),
+          credentials: "include",
+        });
+
+        if (uploadUrlResponse.redirected) {
+          setStatus("Session expired. Please log in again.");
+          setIsUploading(false);
+          router.replace("/login");
+          return;
+        }
+
+        if (!uploadUrlResponse.ok) {
+          const data = (await uploadUrlResponse.json().catch(() => ({}))) as {
+            error?: string;
+          };
+          setStatus(data.error || "Failed to prepare upload.");
+          setIsUploading(false);
+          return;
+        }
+
+        const { uploadUrl, key } = (await uploadUrlResponse.json()) as {
+          uploadUrl: string;
+          key: string;
+        };
+
+        const uploadResponse = await fetch(uploadUrl, {
+          method: "PUT",
+          headers: { "Content-Type": contentType },
+          body: file,
+        });
+
+        if (!uploadResponse.ok) {
+          setStatus("Upload failed. Please try a smaller file.");
+          setIsUploading(false);
+          return;
+        }
+
+        setStatus("Importing...");
+
+        const importResponse = await fetch("/api/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, filename, novelId: options.novelId }),
+          credentials: "include",
+        });
+
+        if (importResponse.redirected) {
+          setStatus("Session expired. Please log in again.");
+          setIsUploading(false);
+          router.replace("/login");
+          return;
+        }
+
+        const data = (await importResponse.json().catch(() => ({}))) as {
+          error?: string;
+          job?: ImportJobView;
+        };
+
+        if (!importResponse.ok || !data.job) {
+          setStatus(data.error || "Import failed.");
+        } else {
+          setStatus(null);
+          setJob(data.job);
+        }
+        setIsUploading(false);
+      } catch {
+        setStatus("Network error. Please try again.");
+        setIsUploading(false);
+      }
+    },
+    [router]
+  );
+
+  const startUrlImport = useCallback(
+    async (url: string) => {
+      setIsUploading(true);
+      setStatus("Importing...");
+      setJob(null);
+
+      try {
+        const response = await fetch("/api/import/url", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url }),
+          credentials: "include",
+        });
+
+        if (response.redirected) {
+          setStatus("Session expired. Please log in again.");
+          setIsUploading(false);
+          router.replace("/login");
+          return;
+        }
+
+        const data = (await response.json().catch(() => ({}))) as {
+          error?: string;
+          job?: ImportJobView;
+        };
+
+        if (!response.ok || !data.job) {
+          setStatus(data.error || "Import failed.");
+        } else {
+          setStatus(null);
+          setJob(data.job);
+        }
+      } catch {
+        setStatus("Network error. Please try again.");
+      }
+      setIsUploading(false);
+    },
+    [router]
+  );
+
+  const startReimport = useCallback(
+    async (novelId: string) => {
+      setStatus("Importing...");
+      setJob(null);
+
+      try {
+        const response = await fetch(`/api/novels/${novelId}/reimport`, {
+          method: "POST",
+          credentials: "include",
+        });
+        const data = (await response.json().catch(() => ({}))) as {
+          error?: string;
+          job?: ImportJobView;
+        };
+
+        if (!response.ok || !data.job) {
+          setStatus(data.error || "Re-import failed.");
+        } else {
+          setStatus(null);
+          setJob(data.job);
+        }
+      } catch {
+        setStatus("Network error. Please try again.");
+      }
+    },
+    []
+  );
+
+  const dismiss = useCallback(() => {
+    setJob(null);
+    setStatus(null);
+  }, []);
+
+  return {
+    job,
+    isUploading,
+    busy: isUploading || jobActive,
+    jobActive,
+    message: status ?? (job ? describeImportJob(job) : null),
+    startImport,
+    startUrlImport,
+    startReimport,
+    runAction,
+    dismiss,
+  };
+}
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { parseEpub } from "@/lib/epub";
+import { packEpub, type PackEpubOptions } from "./helpers";
+
+const SAMPLE_EPUB = path.join(__dirname, "fixtures", "sample-epub");
+const CHAPTERS = ["Part One: The Wick", "First Light", "The Long Street", "Dawn Round"];
+
+async function parseSample(options: PackEpubOptions = {}) {
+  const parsed = await parseEpub(await packEpub(SAMPLE_EPUB, options), "almanac.epub");
+  return {
+    parsed,
+    titles: parsed.chapters.map((chapter) => chapter.title),
+    repairs: parsed.warnings
+      .filter((warning) => warning.code === "epub-repaired")
+      .map((warning) => warning.message),
+  };
+}
+
+test("a percent-encoded manifest href finds its file without a repair", async () => {
+  // The manifest lists text/chapter%202.xhtml for the file "chapter 2.xhtml"
+  const { parsed, titles, repairs } = await parseSample();
+  assert.equal(parsed.title, "The Lamplighter's Almanac");
+  assert.deepEqual(titles, CHAPTERS);
+  assert.deepEqual(repairs, []);
+});
+
+test("the package is found by scanning when container.xml is missing", async () => {
+  const { parsed, titles, repairs } = await parseSample({ omit: ["META-INF/container.xml"] });
+  assert.equal(parsed.author, "Odile Marsh");
+  assert.deepEqual(titles, CHAPTERS);
+  assert.deepEqual(repairs, [
+    "META-INF/container.xml is missing; found OEBPS/content.opf in the archive.",
+  ]);
+});
+
+test("the package is found by scanning when container.xml points elsewhere", async () => {
+  const { titles, repairs } = await parseSample({
+    rename: { "OEBPS/content.opf": "OEBPS/book.opf" },
+  });
+  assert.deepEqual(titles, CHAPTERS);
+  assert.deepEqual(repairs, [
+    "container.xml names no readable package; found OEBPS/book.opf in the archive.",
+  ]);
+});
+
+test("entries whose case differs from the manifest are matched and reported", async () => {
+  const { parsed, titles, repairs } = await parseSample({
+    rename: {
+      "META-INF/container.xml": "meta-inf/Container.xml",
+      "OEBPS/text/chapter-1.xhtml": "OEBPS/Text/Chapter-1.xhtml",
+      // Differs in case and is percent-encoded in the manifest
+      "OEBPS/text/chapter 2.xhtml": "OEBPS/text/Chapter 2.xhtml",
+    },
+  });
+  assert.deepEqual(titles, CHAPTERS);
+  assert.deepEqual(repairs, [
+    "META-INF/container.xml only exists as meta-inf/Container.xml; matched ignoring case.",
+    "OEBPS/text/chapter-1.xhtml only exists as OEBPS/Text/Chapter-1.xhtml; matched ignoring case.",
+    "OEBPS/text/chapter%202.xhtml only exists as OEBPS/text/Chapter 2.xhtml; matched ignoring case.",
+  ]);
+  // The nav still links the renamed chapters into the TOC
+  const partOne = parsed.toc.find((entry) => entry.title === "Part One: The Wick");
+  assert.deepEqual(
+    partOne?.children.map((entry) => entry.chapterIndex),
+    [1, 2, 2]
+  );
+});
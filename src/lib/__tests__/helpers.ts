@@ -0,0 +1,161 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import JSZip from "jszip";
+
+export type PackEpubOptions = {
+  // Paths inside the archive to leave out
+  omit?: string[];
+  // Archive paths to store under another name
+  rename?: Record<string, string>;
+};
+
+/**
+ * Zips an unpacked EPUB directory, with `mimetype` stored first as the spec
+ * asks. `omit` and `rename` damage the copy the way broken exports do.
+ */
+export async function packEpub(dir: string, options: PackEpubOptions = {}): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("mimetype", await readFile(path.join(dir, "mimetype")), { compression: "STORE" });
+
+  const addDir = async (relative: string) => {
+    for (const entry of await readdir(path.join(dir, relative), { withFileTypes: true })) {
+      const name = path.posix.join(relative, entry.name);
+      if (entry.isDirectory()) {
+        await addDir(name);
+      } else if (name !== "mimetype" && !options.omit?.includes(name)) {
+        zip.file(options.rename?.[name] ?? name, await readFile(path.join(dir, name)));
+      }
+    }
+  };
+  await addDir("");
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+export type MobiBook = {
+  version: number;
+  compression: number;
+  // Text records as stored, already compressed
+  records: Buffer[];
+  textLength: number;
+  fullName?: string;
+  extraDataFlags?: number;
+  exth?: [type: number, value: string][];
+};
+
+const NULL_INDEX = 0xffffffff;
+
+function mobiHeaderRecord(book: MobiBook, exth: [number, Buffer][]): Buffer {
+  const headerLength = 0xe8;
+  const header = Buffer.alloc(16 + headerLength);
+  header.writeUInt16BE(book.compression, 0);
+  header.writeUInt32BE(book.textLength, 4);
+  header.writeUInt16BE(book.records.length, 8);
+  header.writeUInt16BE(4096, 10);
+  header.write("MOBI", 16, "latin1");
+  header.writeUInt32BE(headerLength, 20);
+  header.writeUInt32BE(2, 24);
+  header.writeUInt32BE(65001, 0x1c);
+  header.writeUInt32BE(book.version, 0x24);
+  for (const offset of [0x6c, 0xc0, 0xf4]) header.writeUInt32BE(NULL_INDEX, offset);
+  header.writeUInt32BE(exth.length ? 0x40 : 0, 0x80);
+  header.writeUInt16BE(book.extraDataFlags ?? 0, 0xf2);
+
+  const exthRecords = exth.map(([type, value]) => {
+    const record = Buffer.alloc(8);
+    record.writeUInt32BE(type, 0);
+    record.writeUInt32BE(8 + value.length, 4);
+    return Buffer.concat([record, value]);
+  });
+  const exthBody = Buffer.concat(exthRecords);
+  const exthHeader = Buffer.alloc(12);
+  exthHeader.write("EXTH", 0, "latin1");
+  exthHeader.writeUInt32BE(12 + exthBody.length, 4);
+  exthHeader.writeUInt32BE(exthRecords.length, 8);
+  const exthBlock = exth.length ? Buffer.concat([exthHeader, exthBody]) : Buffer.alloc(0);
+
+  const name = Buffer.from(book.fullName ?? "");
+  header.writeUInt32BE(header.length + exthBlock.length, 0x54);
+  header.writeUInt32BE(name.length, 0x58);
+  return Buffer.concat([header, exthBlock, name]);
+}
+
+/**
+ * Lays out a Mobipocket file: a PDB record list holding each book's header
+ * record and then its text records. A second book is joined on as the KF8
+ * half of a combined file, found through the first book's boundary record.
+ */
+export function packMobi(...books: MobiBook[]): Buffer {
+  const records: Buffer[] = [];
+  books.forEach((book, index) => {
+    const exth: [number, Buffer][] = (book.exth ?? []).map(([type, value]) => [type, Buffer.from(value)]);
+    if (index === 0 && books.length > 1) {
+      const boundary = Buffer.alloc(4);
+      boundary.writeUInt32BE(1 + book.records.length, 0);
+      exth.push([121, boundary]);
+    }
+    records.push(mobiHeaderRecord(book, exth), ...book.records);
+  });
+
+  const pdb = Buffer.alloc(78 + records.length * 8 + 2);
+  pdb.write("sample", 0, "latin1");
+  pdb.write("BOOKMOBI", 60, "latin1");
+  pdb.writeUInt16BE(records.length, 76);
+  let offset = pdb.length;
+  records.forEach((record, index) => {
+    pdb.writeUInt32BE(offset, 78 + index * 8);
+    pdb.writeUInt32BE(index * 2, 78 + index * 8 + 4);
+    offset += record.length;
+  });
+  return Buffer.concat([pdb, ...records]);
+}
+
+export type StandInResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+};
+
+export type StandInRequest = { method: string; url: string; body: string };
+
+/**
+ * A local HTTP server standing in for a source site. Routes are keyed by
+ * path (query strings are ignored); anything else is a 404. Every request
+ * is recorded so tests can check what was asked for.
+ */
+export async function startStandIn(routes: Record<string, StandInResponse>) {
+  const requests: StandInRequest[] = [];
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => {
+      const url = request.url ?? "/";
+      requests.push({ method: request.method ?? "GET", url, body: Buffer.concat(chunks).toString() });
+      const route = routes[new URL(url, "http://stand-in").pathname];
+      response.writeHead(route ? route.status ?? 200 : 404, {
+        "Content-Type": "text/html; charset=utf-8",
+        ...route?.headers,
+      });
+      response.end(route?.body ?? "");
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
+// Passing a fetch of our own skips the public-address check, which would
+// otherwise refuse the stand-in on 127.0.0.1
+export const standInFetch: typeof fetch = (input, init) => fetch(input, init);
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compileHeadingPattern, isValidHeadingPattern } from "@/lib/import-formats";
+
+test("custom headings match the text followed by a chapter number", () => {
+  const part = compileHeadingPattern("Part")!;
+  assert.ok(part.test("Part 3"));
+  assert.ok(part.test("part IV: The Crossing"));
+  assert.ok(!part.test("Partial eclipse"));
+  assert.ok(!part.test("The Part 3"));
+
+  const cjk = compileHeadingPattern("第#话")!;
+  assert.ok(cjk.test("第十二话 归来"));
+  assert.ok(cjk.test("第 12 话"));
+  assert.ok(!cjk.test("第十二章"));
+});
+
+test("custom headings are literal text, never a regular expression", () => {
+  const literal = compileHeadingPattern("(a+)+ #")!;
+  assert.ok(literal.test("(a+)+ 7"));
+  assert.ok(!literal.test("aaaa 7"));
+
+  // A classic catastrophic-backtracking pattern must come back at once
+  const started = Date.now();
+  compileHeadingPattern("^(a+)+$")!.test(`${"a".repeat(5000)}!`);
+  assert.ok(Date.now() - started < 100);
+});
+
+test("custom headings allow at most one number placeholder", () => {
+  assert.ok(isValidHeadingPattern("Volume # Book"));
+  assert.ok(!isValidHeadingPattern("# of #"));
+  assert.ok(!isValidHeadingPattern("  #  "));
+  assert.ok(!isValidHeadingPattern(""));
+});
@@ -0,0 +1,119 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseMobi } from "@/lib/mobi";
+import { packMobi } from "./helpers";
+
+const PALMDOC = 2;
+const UNCOMPRESSED = 1;
+const EXTH_AUTHOR = 100;
+const EXTH_UPDATED_TITLE = 503;
+
+// PalmDOC tokens: bytes below 0x80 are themselves, 1-8 prefix a run of raw
+// bytes, 0xc0 and up are a space plus a character, and 0x80-0xbf start a
+// two-byte copy from earlier in the record
+const text = (value: string) => Buffer.from(value, "latin1");
+const raw = (...bytes: number[]) => Buffer.from([bytes.length, ...bytes]);
+const spaceThen = (char: string) => Buffer.from([char.charCodeAt(0) ^ 0x80]);
+const copy = (distance: number, length: number) =>
+  Buffer.from([0x80 | (distance >> 5), ((distance << 3) & 0xff) | (length - 3)]);
+// One trailing multibyte entry of zero extra bytes, as extraDataFlags 1 expects
+const trailer = Buffer.from([0x00]);
+
+const palmDocBook = () => {
+  const records = [
+    Buffer.concat([
+      text("<h1>Tide</h1><p>tick"),
+      spaceThen("t"),
+      text("ock "),
+      // "tick tock", starting ten bytes back
+      copy(10, 9),
+      text("</p>"),
+      trailer,
+    ]),
+    Buffer.concat([text("<mbp:pagebreak/><h1>Ebb</h1><p>caf"), raw(0xc3, 0xa9), text("</p>"), trailer]),
+  ];
+  const expected =
+    "<h1>Tide</h1><p>tick tock tick tock</p><mbp:pagebreak/><h1>Ebb</h1><p>café</p>";
+  return { records, textLength: Buffer.byteLength(expected) };
+};
+
+test("PalmDOC records are decompressed and split at page breaks", async () => {
+  const book = packMobi({
+    version: 6,
+    compression: PALMDOC,
+    extraDataFlags: 1,
+    fullName: "Tide Tables",
+    exth: [
+      [EXTH_AUTHOR, "Wren Calloway"],
+      [EXTH_AUTHOR, "Odile Marsh"],
+    ],
+    ...palmDocBook(),
+  });
+
+  const parsed = await parseMobi(book, "tides.mobi");
+  assert.equal(parsed.title, "Tide Tables");
+  assert.equal(parsed.author, "Wren Calloway, Odile Marsh");
+  assert.deepEqual(
+    parsed.chapters.map((chapter) => chapter.title),
+    ["Tide", "Ebb"]
+  );
+  assert.match(parsed.chapters[0].content, /<p>tick tock tick tock<\/p>/);
+  assert.match(parsed.chapters[1].content, /<p>café<\/p>/);
+  assert.deepEqual(parsed.warnings, []);
+});
+
+test("the EXTH updated title wins over the full name", async () => {
+  const book = packMobi({
+    version: 6,
+    compression: PALMDOC,
+    extraDataFlags: 1,
+    fullName: "tide_tables_v2",
+    exth: [[EXTH_UPDATED_TITLE, "Tide Tables (Revised)"]],
+    ...palmDocBook(),
+  });
+
+  const parsed = await parseMobi(book, "tides.mobi");
+  assert.equal(parsed.title, "Tide Tables (Revised)");
+  assert.equal(parsed.author, undefined);
+});
+
+test("a copy reaching before the start of the record is refused", async () => {
+  const book = packMobi({
+    version: 6,
+    compression: PALMDOC,
+    records: [Buffer.concat([text("<p>ab"), copy(9, 3)])],
+    textLength: 8,
+  });
+
+  await assert.rejects(parseMobi(book, "broken.mobi"), /corrupt compressed text/);
+});
+
+test("a combined file is read from its KF8 half", async () => {
+  const book = packMobi(
+    {
+      version: 6,
+      compression: UNCOMPRESSED,
+      fullName: "Old Edition",
+      exth: [[EXTH_AUTHOR, "Wren Calloway"]],
+      records: [text("<h1>Old Opening</h1><p>Superseded.</p>")],
+      textLength: 38,
+    },
+    {
+      version: 8,
+      compression: UNCOMPRESSED,
+      fullName: "New Edition",
+      exth: [[EXTH_UPDATED_TITLE, "Tide Tables"]],
+      records: [text("<h1>New Opening</h1><p>Current.</p>")],
+      textLength: 35,
+    }
+  );
+
+  const parsed = await parseMobi(book, "tides.azw3");
+  assert.equal(parsed.title, "Tide Tables");
+  // Metadata missing from the KF8 header falls back to the old one
+  assert.equal(parsed.author, "Wren Calloway");
+  assert.deepEqual(
+    parsed.chapters.map((chapter) => chapter.title),
+    ["New Opening"]
+  );
+});
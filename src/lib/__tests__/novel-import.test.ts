@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { applyImportSelection, buildImportPreview, parseImportFile } from "@/lib/importers";
+import { chapterListFingerprint } from "@/lib/novel-import";
+import { packEpub } from "./helpers";
+
+const SAMPLE_EPUB = path.join(__dirname, "fixtures", "sample-epub");
+
+// What the worker fingerprints when it checks for a duplicate, and what it
+// stores once the preview is confirmed with its default selection
+async function importOnce(file: Buffer, filename: string) {
+  const result = await parseImportFile(file, filename, { keepFrontMatter: true });
+  const preview = buildImportPreview(result, {});
+  const excludedChapters = preview.chapters.flatMap((chapter, index) =>
+    chapter.isFrontMatter ? [index] : []
+  );
+  const saved = applyImportSelection(result.parsed, { excludedChapters });
+  return {
+    checked: chapterListFingerprint(result.parsed.chapters),
+    stored: chapterListFingerprint(saved.chapters),
+    excludedChapters,
+  };
+}
+
+test("an EPUB imported twice matches the copy saved the first time", async () => {
+  const file = await packEpub(SAMPLE_EPUB);
+  const first = await importOnce(file, "almanac.epub");
+  const second = await importOnce(file, "almanac.epub");
+
+  // The fixture has no dc:identifier, so only the fingerprint can match it
+  assert.deepEqual(first.excludedChapters, [0, 1]);
+  assert.equal(second.checked, first.stored);
+
+  // Updating the novel from the same file parses without the front matter
+  const update = await parseImportFile(file, "almanac.epub");
+  assert.equal(update.parsed.chapters.length, 4);
+  assert.equal(chapterListFingerprint(update.parsed.chapters), first.stored);
+});
+
+test("a TXT file imported twice matches the copy saved the first time", async () => {
+  const text = ["Chapter 1", "The tide came in.", "", "Chapter 2", "The tide went out."].join("\n");
+  const first = await importOnce(Buffer.from(text), "tides.txt");
+  const second = await importOnce(Buffer.from(text), "tides.txt");
+  assert.equal(second.checked, first.stored);
+});
@@ -0,0 +1,94 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  matchChapters,
+  orderUpdatedChapters,
+  type ExistingChapter,
+  type IncomingChapter,
+} from "@/lib/novel-update";
+
+// Chapters are [title, body] pairs; the body stands in for the content hash
+const stored = (...chapters: [string, string][]): ExistingChapter[] =>
+  chapters.map(([title, body], position) => ({
+    id: `chapter-${position}`,
+    position,
+    title,
+    contentHash: body,
+    backfilled: false,
+  }));
+
+const parsed = (...chapters: [string, string][]): IncomingChapter[] =>
+  chapters.map(([title, contentHash]) => ({ title, contentHash }));
+
+const summary = (existing: ExistingChapter[], incoming: IncomingChapter[]) =>
+  matchChapters(existing, incoming).map((match) => `${match.kind}:${match.chapterId ?? "-"}`);
+
+test("reordered chapters keep their ids", () => {
+  const existing = stored(["One", "a"], ["Two", "b"], ["Three", "c"]);
+  assert.deepEqual(summary(existing, parsed(["Three", "c"], ["One", "a"], ["Two", "b"])), [
+    "unchanged:chapter-2",
+    "unchanged:chapter-0",
+    "unchanged:chapter-1",
+  ]);
+});
+
+test("a renamed chapter is changed in place", () => {
+  const existing = stored(["One", "a"], ["Two", "b"], ["Three", "c"]);
+
+  // Same body under a new title
+  assert.deepEqual(summary(existing, parsed(["One", "a"], ["Two: The Fog", "b"], ["Three", "c"])), [
+    "unchanged:chapter-0",
+    "changed:chapter-1",
+    "unchanged:chapter-2",
+  ]);
+
+  // Retitled and edited, but still between the same neighbours
+  assert.deepEqual(summary(existing, parsed(["One", "a"], ["Interlude", "b2"], ["Three", "c"])), [
+    "unchanged:chapter-0",
+    "changed:chapter-1",
+    "unchanged:chapter-2",
+  ]);
+
+  // Edited under the same title in another slot
+  assert.deepEqual(summary(existing, parsed(["Prologue", "p"], ["One", "a2"], ["Two", "b"])), [
+    "added:-",
+    "changed:chapter-0",
+    "unchanged:chapter-1",
+  ]);
+});
+
+test("an inserted chapter is added without taking a neighbour's id", () => {
+  const existing = stored(["One", "a"], ["Two", "b"], ["Three", "c"]);
+  const incoming = parsed(["One", "a"], ["Side Story", "x"], ["Two", "b"], ["Three", "c"]);
+  const matches = matchChapters(existing, incoming);
+  assert.deepEqual(summary(existing, incoming), [
+    "unchanged:chapter-0",
+    "added:-",
+    "unchanged:chapter-1",
+    "unchanged:chapter-2",
+  ]);
+
+  const { order, removed } = orderUpdatedChapters(existing, matches);
+  assert.deepEqual(order, [{ incoming: 0 }, { incoming: 1 }, { incoming: 2 }, { incoming: 3 }]);
+  assert.deepEqual(removed, []);
+});
+
+test("chapters missing from the file stay in place unless removeMissing is set", () => {
+  const existing = stored(["Foreword", "f"], ["One", "a"], ["Two", "b"], ["Three", "c"]);
+  const incoming = parsed(["One", "a"], ["Three", "c"]);
+  const matches = matchChapters(existing, incoming);
+  const [foreword, , two] = existing;
+
+  const kept = orderUpdatedChapters(existing, matches);
+  assert.deepEqual(kept.order, [
+    { kept: foreword },
+    { incoming: 0 },
+    { kept: two },
+    { incoming: 1 },
+  ]);
+  assert.deepEqual(kept.removed, [foreword, two]);
+
+  const removed = orderUpdatedChapters(existing, matches, true);
+  assert.deepEqual(removed.order, [{ incoming: 0 }, { incoming: 1 }]);
+  assert.deepEqual(removed.removed, [foreword, two]);
+});
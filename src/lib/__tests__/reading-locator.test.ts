@@ -0,0 +1,16 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readingLocatorSchema } from "@/lib/reading-locator";
+
+test("readingLocatorSchema accepts a locator and the chapter start", () => {
+  assert.ok(readingLocatorSchema.safeParse({ paragraph: 4, offset: 12, percent: 0.25 }).success);
+  assert.ok(readingLocatorSchema.safeParse({ paragraph: -1, offset: 0, percent: 0 }).success);
+});
+
+test("readingLocatorSchema refuses extra keys and out-of-range values", () => {
+  const extra = { paragraph: 4, offset: 12, percent: 0.25, padding: "x".repeat(1000) };
+  assert.ok(!readingLocatorSchema.safeParse(extra).success);
+  assert.ok(!readingLocatorSchema.safeParse({ paragraph: 1.5, offset: 0, percent: 0 }).success);
+  assert.ok(!readingLocatorSchema.safeParse({ paragraph: 0, offset: -1, percent: 0 }).success);
+  assert.ok(!readingLocatorSchema.safeParse({ paragraph: 0, offset: 0, percent: 2 }).success);
+});
@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { sanitizeChapterHtml } from "@/lib/sanitize";
+import { parseEpub } from "@/lib/epub";
+import { packEpub } from "./helpers";
+
+// Each chapter of the fixture book carries one family of payloads
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "malicious-epub");
+const TEXT_DIR = path.join(FIXTURE_DIR, "OEBPS", "text");
+
+function assertNoPayload(html: string, label: string) {
+  assert.doesNotMatch(html, /\son[a-z]+\s*=/i, `${label}: event handler attribute`);
+  assert.doesNotMatch(
+    html,
+    /<(?:script|style|link|iframe|object|embed|param|form|input|button|foreignobject)\b/i,
+    `${label}: forbidden element`
+  );
+  assert.doesNotMatch(html, /java\s*script\s*:/i, `${label}: javascript: URL`);
+  assert.doesNotMatch(html, /attacker\.example/i, `${label}: external reference`);
+  assert.doesNotMatch(html, /data:image\/svg\+xml/i, `${label}: <use> of a data: document`);
+  assert.doesNotMatch(html, /srcdoc|formaction/i, `${label}: document-loading attribute`);
+}
+
+test("sanitizeChapterHtml strips every payload in the corpus", async () => {
+  const files = (await readdir(TEXT_DIR)).filter((name) => name.endsWith(".xhtml"));
+  assert.ok(files.length >= 5);
+  for (const name of files) {
+    const html = await readFile(path.join(TEXT_DIR, name), "utf8");
+    assertNoPayload(sanitizeChapterHtml(html), name);
+  }
+});
+
+test("sanitizeChapterHtml keeps the harmless markup next to the payloads", async () => {
+  const read = (name: string) => readFile(path.join(TEXT_DIR, name), "utf8");
+
+  const handlers = sanitizeChapterHtml(await read("event-handlers.xhtml"));
+  assert.match(handlers, /<img src="\.\.\/images\/picture\.png" alt="A picture" \/>/);
+  assert.match(handlers, /<rect width="10" height="10">/);
+
+  const urls = sanitizeChapterHtml(await read("javascript-urls.xhtml"));
+  assert.match(urls, /<a href="#notes">/);
+
+  const css = sanitizeChapterHtml(
+    '<p style="background-image:url(asset:' + "a".repeat(64) + ');color:red">Kept</p>'
+  );
+  assert.match(css, /url\(asset:a{64}\)/);
+});
+
+test("sanitizeChapterHtml refuses CSS that could load a remote image", () => {
+  const styles = [
+    "background-image: \\75rl(https://attacker.example/escaped.png)",
+    "background-image: u\\72l(https://attacker.example/escaped-middle.png)",
+    'background-image: image-set("https://attacker.example/set.png" 1x)',
+    "background-image: -webkit-image-set(url(https://attacker.example/webkit.png) 1x)",
+    // The first candidate passes the url() check on its own
+    "background: image-set(url(data:image/png;base64,AAAA) 1x, 'https://attacker.example/mixed.png' 2x)",
+    "background-image: cross-fade(url(asset:" + "a".repeat(64) + "), 'https://attacker.example/fade.png')",
+  ];
+  for (const style of styles) {
+    const html = sanitizeChapterHtml(`<p style="${style.replace(/"/g, "&quot;")}">Styled</p>`);
+    assert.doesNotMatch(html, /attacker\.example/, style);
+    assert.match(html, /<p[^>]*>Styled<\/p>/, style);
+  }
+});
+
+test("sanitizeChapterHtml drops remote image sources", () => {
+  const html = sanitizeChapterHtml(
+    '<img src="https://attacker.example/pixel.gif" alt="Pixel" />' +
+      '<img src="http://attacker.example/plain.gif" alt="Plain" />' +
+      '<svg><image href="https://attacker.example/svg.png" width="1" height="1"></image></svg>' +
+      `<img src="asset:${"b".repeat(64)}" alt="Stored" />`
+  );
+  assert.doesNotMatch(html, /attacker\.example/);
+  assert.match(html, new RegExp(`<img src="asset:b{64}" alt="Stored" />`));
+});
+
+test("parseEpub strips every payload and keeps only assets the chapters use", async () => {
+  const parsed = await parseEpub(await packEpub(FIXTURE_DIR), "corpus.epub");
+
+  assert.deepEqual(
+    parsed.chapters.map((chapter) => chapter.title),
+    ["Event handlers", "Embedded content", "Foreign object", "Script URLs", "CSS URLs"]
+  );
+  for (const chapter of parsed.chapters) {
+    assertNoPayload(chapter.content, chapter.title);
+  }
+
+  const picture = await readFile(path.join(FIXTURE_DIR, "OEBPS", "images", "picture.png"));
+  const pictureHash = createHash("sha256").update(picture).digest("hex");
+  assert.match(parsed.chapters[0].content, new RegExp(`<img src="asset:${pictureHash}"`));
+  assert.match(parsed.chapters[4].content, new RegExp(`url\\(asset:${pictureHash}\\)`));
+
+  // The stylesheet's background image is dropped along with the stylesheet
+  assert.deepEqual(
+    parsed.assets.map((asset) => asset.hash),
+    [pictureHash]
+  );
+});
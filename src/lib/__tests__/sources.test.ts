@@ -0,0 +1,258 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { createRoyalRoadAdapter } from "@/lib/sources/royal-road";
+import { createScribbleHubAdapter } from "@/lib/sources/scribble-hub";
+import {
+  SOURCE_REQUEST_ERROR,
+  fetchSourceFile,
+  fetchSourceImage,
+  fetchSourcePage,
+} from "@/lib/sources/http";
+import { fetchEpubSource, fetchSourceNovel } from "@/lib/source-import";
+import { packEpub, standInFetch, startStandIn } from "./helpers";
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures");
+const fixture = (...parts: string[]) => readFile(path.join(FIXTURE_DIR, "sources", ...parts), "utf8");
+
+// The importer only checks the content type, so any bytes make an image
+const image = (name: string) => ({ headers: { "Content-Type": "image/png" }, body: Buffer.from(name) });
+
+describe("Royal Road adapter", () => {
+  let site: Awaited<ReturnType<typeof startStandIn>>;
+  let adapter: ReturnType<typeof createRoyalRoadAdapter>;
+
+  before(async () => {
+    site = await startStandIn({
+      "/fictions/search": { body: await fixture("royal-road", "search.html") },
+      "/fiction/21220": { body: await fixture("royal-road", "fiction.html") },
+      "/fiction/21220/the-lighthouse-ledger/chapter/1001/arrival": {
+        body: await fixture("royal-road", "chapter-1001.html"),
+      },
+      "/fiction/21220/the-lighthouse-ledger/chapter/1002/the-ledger": {
+        body: await fixture("royal-road", "chapter-1002.html"),
+      },
+      "/covers/lighthouse-ledger.png": image("cover"),
+      "/fiction/21220/the-lighthouse-ledger/images/map.png": image("map"),
+    });
+    adapter = createRoyalRoadAdapter({ baseUrl: site.origin, fetch: standInFetch });
+  });
+  after(() => site.close());
+
+  test("answers for the host it was pointed at", () => {
+    assert.deepEqual(adapter.hostnames, ["127.0.0.1"]);
+  });
+
+  test("search reads titles, links and covers", async () => {
+    const results = await adapter.search("ledger");
+    assert.equal(site.requests.at(-1)?.url, "/fictions/search?title=ledger");
+    assert.deepEqual(results, [
+      {
+        url: `${site.origin}/fiction/21220/the-lighthouse-ledger`,
+        title: "The Lighthouse Ledger",
+        coverUrl: `${site.origin}/covers/lighthouse-ledger.png`,
+      },
+      {
+        url: `${site.origin}/fiction/30001/ledger-of-tides`,
+        title: "Ledger of Tides",
+        coverUrl: `${site.origin}/covers/ledger-of-tides.png`,
+      },
+    ]);
+  });
+
+  test("fetchNovelInfo accepts a chapter URL and reads the fiction page", async () => {
+    const info = await adapter.fetchNovelInfo(
+      `${site.origin}/fiction/21220/the-lighthouse-ledger/chapter/1001/arrival`
+    );
+    assert.deepEqual(info, {
+      url: `${site.origin}/fiction/21220`,
+      identifier: "royalroad:21220",
+      title: "The Lighthouse Ledger",
+      author: "Mara Quill",
+      description: "A keeper inherits a lighthouse, and a ledger of every ship it ever saved.",
+      coverUrl: `${site.origin}/covers/lighthouse-ledger.png`,
+    });
+  });
+
+  test("listChapters returns the chapter table in order", async () => {
+    const chapters = await adapter.listChapters(`${site.origin}/fiction/21220`);
+    assert.deepEqual(chapters, [
+      {
+        url: `${site.origin}/fiction/21220/the-lighthouse-ledger/chapter/1001/arrival`,
+        title: "Chapter 1 - Arrival",
+      },
+      {
+        url: `${site.origin}/fiction/21220/the-lighthouse-ledger/chapter/1002/the-ledger`,
+        title: "Chapter 2 - The Ledger",
+      },
+    ]);
+  });
+
+  test("fetchChapter drops hidden watermarks and resolves relative URLs", async () => {
+    const chapter = await adapter.fetchChapter(
+      `${site.origin}/fiction/21220/the-lighthouse-ledger/chapter/1001/arrival`
+    );
+    assert.equal(chapter.title, "Chapter 1 - Arrival");
+    assert.match(chapter.content, /two trunks and a key/);
+    assert.doesNotMatch(chapter.content, /Unauthorized usage|hidden watermark/);
+    assert.match(
+      chapter.content,
+      new RegExp(`src="${site.origin}/fiction/21220/the-lighthouse-ledger/images/map\\.png"`)
+    );
+  });
+
+  test("a fiction that can't be found fails without naming the host", async () => {
+    await assert.rejects(adapter.fetchNovelInfo(`${site.origin}/fiction/404`), {
+      message: SOURCE_REQUEST_ERROR,
+    });
+  });
+
+  test("fetchSourceNovel imports every chapter and downloads the images", async () => {
+    const novel = await fetchSourceNovel(`${site.origin}/fiction/21220`, {
+      adapter,
+      fetch: standInFetch,
+    });
+
+    assert.equal(novel.title, "The Lighthouse Ledger");
+    assert.deepEqual(
+      novel.chapters.map((chapter) => chapter.title),
+      ["Chapter 1 - Arrival", "Chapter 2 - The Ledger"]
+    );
+    assert.equal(novel.assets.length, 2);
+    assert.match(novel.coverImage ?? "", /^asset:[a-f0-9]{64}$/);
+    assert.match(novel.chapters[0].content, /<img src="asset:[a-f0-9]{64}"/);
+    assert.deepEqual(novel.warnings, []);
+    assert.deepEqual(novel.source, {
+      url: `${site.origin}/fiction/21220`,
+      adapter: "royalroad",
+      lastKnownChapter: `${site.origin}/fiction/21220/the-lighthouse-ledger/chapter/1002/the-ledger`,
+    });
+  });
+});
+
+describe("Scribble Hub adapter", () => {
+  let site: Awaited<ReturnType<typeof startStandIn>>;
+  let adapter: ReturnType<typeof createScribbleHubAdapter>;
+
+  before(async () => {
+    site = await startStandIn({
+      "/": { body: await fixture("scribble-hub", "search.html") },
+      "/series/123456/": { body: await fixture("scribble-hub", "series.html") },
+      "/wp-admin/admin-ajax.php": { body: await fixture("scribble-hub", "toc.html") },
+      "/read/123456-salt-and-circuitry/chapter/900001/": {
+        body: await fixture("scribble-hub", "chapter.html"),
+      },
+    });
+    adapter = createScribbleHubAdapter({ baseUrl: site.origin, fetch: standInFetch });
+  });
+  after(() => site.close());
+
+  test("search reads titles, authors and covers", async () => {
+    const results = await adapter.search("salt");
+    assert.equal(site.requests.at(-1)?.url, "/?s=salt&post_type=fictionposts");
+    assert.deepEqual(results, [
+      {
+        url: `${site.origin}/series/123456/salt-and-circuitry/`,
+        title: "Salt and Circuitry",
+        author: "Ines Varga",
+        coverUrl: `${site.origin}/wp-content/uploads/covers/salt-and-circuitry.png`,
+      },
+    ]);
+  });
+
+  test("fetchNovelInfo reads the series page and its canonical URL", async () => {
+    const info = await adapter.fetchNovelInfo(`${site.origin}/series/123456/salt-and-circuitry/`);
+    assert.equal(site.requests.at(-1)?.url, "/series/123456/");
+    assert.deepEqual(info, {
+      url: `${site.origin}/series/123456/salt-and-circuitry/`,
+      identifier: "scribblehub:123456",
+      title: "Salt and Circuitry",
+      author: "Ines Varga",
+      description: "A repair drone washes up on a fishing island.",
+      coverUrl: `${site.origin}/wp-content/uploads/covers/salt-and-circuitry.png`,
+    });
+  });
+
+  test("listChapters asks for the whole TOC and returns it oldest first", async () => {
+    const chapters = await adapter.listChapters(`${site.origin}/series/123456/salt-and-circuitry/`);
+
+    const tocRequest = site.requests.at(-1);
+    assert.equal(tocRequest?.method, "POST");
+    assert.deepEqual(Object.fromEntries(new URLSearchParams(tocRequest?.body)), {
+      action: "wi_getreleases_pagination",
+      pagenum: "-1",
+      mypostid: "123456",
+    });
+    assert.deepEqual(
+      chapters.map((chapter) => chapter.title),
+      ["Washed Up", "Net Mending", "Low Tide"]
+    );
+    assert.equal(chapters[0].url, `${site.origin}/read/123456-salt-and-circuitry/chapter/900001/`);
+  });
+
+  test("fetchChapter drops author notes and resolves image URLs", async () => {
+    const chapter = await adapter.fetchChapter(
+      `${site.origin}/read/123456-salt-and-circuitry/chapter/900001/`
+    );
+    assert.equal(chapter.title, "Washed Up");
+    assert.match(chapter.content, /sand in every joint/);
+    assert.doesNotMatch(chapter.content, /Patreon/);
+    assert.match(
+      chapter.content,
+      new RegExp(`src="${site.origin}/wp-content/uploads/chapter-art/beach\\.png"`)
+    );
+  });
+});
+
+describe("EPUB URL source", () => {
+  let site: Awaited<ReturnType<typeof startStandIn>>;
+
+  before(async () => {
+    site = await startStandIn({
+      // Rolling exports usually sit behind a stable URL that redirects
+      "/latest.epub": { status: 302, headers: { Location: "/books/corpus%20v2.epub" } },
+      "/books/corpus%20v2.epub": {
+        headers: { "Content-Type": "application/epub+zip" },
+        body: await packEpub(path.join(FIXTURE_DIR, "malicious-epub")),
+      },
+      // Chunked, so nothing announces the size up front
+      "/huge.png": {
+        headers: { "Content-Type": "image/png", "Transfer-Encoding": "chunked" },
+        body: Buffer.alloc(11 * 1024 * 1024),
+      },
+    });
+  });
+  after(() => site.close());
+
+  test("fetchEpubSource follows redirects and parses the book", async () => {
+    const novel = await fetchEpubSource(`${site.origin}/latest.epub`, { fetch: standInFetch });
+    assert.equal(novel.title, "Malicious Markup Corpus");
+    assert.equal(novel.chapters.length, 5);
+    assert.deepEqual(novel.source, {
+      url: `${site.origin}/latest.epub`,
+      adapter: "epub",
+      lastKnownChapter: "CSS URLs",
+    });
+    assert.deepEqual(
+      site.requests.map((request) => request.url),
+      ["/latest.epub", "/books/corpus%20v2.epub"]
+    );
+  });
+
+  test("an image without a Content-Length is dropped once it passes the cap", async () => {
+    assert.equal(await fetchSourceImage(`${site.origin}/huge.png`, { fetch: standInFetch }), null);
+  });
+
+  test("the default transport refuses internal addresses before connecting", async () => {
+    const before = site.requests.length;
+    await assert.rejects(fetchSourceFile(`${site.origin}/latest.epub`), {
+      message: SOURCE_REQUEST_ERROR,
+    });
+    // A host name is checked as it is resolved for the connection itself
+    await assert.rejects(fetchSourcePage(site.origin.replace("127.0.0.1", "localhost")), {
+      message: SOURCE_REQUEST_ERROR,
+    });
+    assert.equal(site.requests.length, before);
+  });
+});
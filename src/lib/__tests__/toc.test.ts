@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { parseEpub } from "@/lib/epub";
+import {
+  buildChapterTree,
+  findGroupPath,
+  flattenChapterTree,
+  type ChapterTreeNode,
+  type TocEntry,
+} from "@/lib/toc";
+import { packEpub, type PackEpubOptions } from "./helpers";
+
+const SAMPLE_EPUB = path.join(__dirname, "fixtures", "sample-epub");
+
+async function parseSample(keepFrontMatter: boolean, pack: PackEpubOptions = {}) {
+  const parsed = await parseEpub(await packEpub(SAMPLE_EPUB, pack), "almanac.epub", {
+    keepFrontMatter,
+  });
+  return { toc: parsed.toc, tree: buildChapterTree(parsed.toc, parsed.chapters.length) };
+}
+
+// [title, chapterIndex] pairs, nested like the TOC
+type Outline = [string, number | undefined, ...Outline[]];
+const outline = (entries: TocEntry[]): Outline[] =>
+  entries.map((entry) => [entry.title, entry.chapterIndex, ...outline(entry.children)]);
+
+const chapter = (index: number): ChapterTreeNode => ({ type: "chapter", index });
+const group = (id: string, title: string, ...children: ChapterTreeNode[]): ChapterTreeNode => ({
+  type: "group",
+  id,
+  title,
+  children,
+});
+
+test("nav entries map onto chapters, fragment links included", async () => {
+  const { toc, tree } = await parseSample(true);
+
+  // Two fragments of one file point at the same chapter; a link into the
+  // nav document itself and a label without a link point at none
+  assert.deepEqual(outline(toc), [
+    ["Cover", 0],
+    ["Contents", 1],
+    ["Part One: The Wick", 2, ["First Light", 3], ["The Long Street", 4], ["The Second Lamp", 4]],
+    ["Part Two: The Oil", undefined, ["Dawn Round", 5]],
+    ["Notes on this edition", undefined],
+  ]);
+
+  // Groups are keyed by their place among their siblings
+  assert.deepEqual(tree, [
+    chapter(0),
+    chapter(1),
+    group("2", "Part One: The Wick", chapter(2), chapter(3), chapter(4)),
+    group("3", "Part Two: The Oil", chapter(5)),
+  ]);
+  assert.deepEqual(findGroupPath(tree, 4), ["2"]);
+  assert.deepEqual(findGroupPath(tree, 1), []);
+  assert.deepEqual(
+    flattenChapterTree(tree, new Set(["3"])).map((row) =>
+      row.kind === "chapter" ? row.index : row.title
+    ),
+    [0, 1, "Part One: The Wick", "Part Two: The Oil", 5]
+  );
+});
+
+test("entries for dropped front matter point at no chapter", async () => {
+  const { toc, tree } = await parseSample(false);
+
+  assert.deepEqual(outline(toc).slice(0, 3), [
+    ["Cover", undefined],
+    ["Contents", undefined],
+    ["Part One: The Wick", 0, ["First Light", 1], ["The Long Street", 2], ["The Second Lamp", 2]],
+  ]);
+  assert.deepEqual(tree, [
+    group("2", "Part One: The Wick", chapter(0), chapter(1), chapter(2)),
+    group("3", "Part Two: The Oil", chapter(3)),
+  ]);
+});
+
+test("the NCX is read when the book has no nav document", async () => {
+  const { toc, tree } = await parseSample(true, { omit: ["OEBPS/nav.xhtml"] });
+
+  // The NCX leaves out the contents page, which stays in its place
+  assert.deepEqual(outline(toc), [
+    ["Cover", 0],
+    ["Part One: The Wick", 2, ["First Light", 3], ["The Long Street", 4]],
+    ["Part Two: The Oil", 5, ["Dawn Round", 5]],
+  ]);
+  assert.deepEqual(tree, [
+    chapter(0),
+    chapter(1),
+    group("1", "Part One: The Wick", chapter(2), chapter(3), chapter(4)),
+    group("2", "Part Two: The Oil", chapter(5)),
+  ]);
+});
@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { detectTxtEncoding, parseTxt } from "@/lib/txt";
+import type { TxtHeadingPreset } from "@/lib/import-formats";
+
+const fixture = (name: string) => readFile(path.join(__dirname, "fixtures", "txt", name));
+
+test("UTF-16 with a byte order mark", async () => {
+  const file = await fixture("utf-16le-bom.txt");
+  assert.equal(detectTxtEncoding(file), "utf-16le");
+
+  const parsed = await parseTxt(file, "tides.txt");
+  assert.equal(parsed.encoding, "utf-16le");
+  assert.equal(parsed.title, "The Tide Tables");
+  assert.equal(parsed.author, "Wren Calloway");
+  assert.deepEqual(
+    parsed.chapters.map((chapter) => chapter.title),
+    ["Chapter 1", "Chapter 2"]
+  );
+  assert.deepEqual(parsed.warnings, []);
+
+  // The same text big-endian, BOM included
+  const swapped = Buffer.from(file).swap16();
+  assert.equal(detectTxtEncoding(swapped), "utf-16be");
+  assert.equal((await parseTxt(swapped, "tides.txt")).author, "Wren Calloway");
+});
+
+test("Shift_JIS and GBK are told apart", async () => {
+  const japanese = await fixture("shift-jis.txt");
+  assert.equal(detectTxtEncoding(japanese), "shift_jis");
+  const novel = await parseTxt(japanese, "lighthouse.txt");
+  assert.equal(novel.title, "灯台守の夜");
+  assert.equal(novel.author, "浜田しずく");
+  assert.deepEqual(
+    novel.chapters.map((chapter) => chapter.title),
+    ["第1章 はじまり", "第2章 かえり道"]
+  );
+  assert.deepEqual(novel.warnings, []);
+
+  const chinese = await fixture("gbk.txt");
+  assert.equal(detectTxtEncoding(chinese), "gbk");
+  const story = await parseTxt(chinese, "lighthouse.txt");
+  assert.equal(story.title, "灯塔夜话");
+  assert.equal(story.author, "林小雨");
+  assert.deepEqual(
+    story.chapters.map((chapter) => chapter.title),
+    ["第一章 起点", "第二章 归途"]
+  );
+  assert.deepEqual(story.warnings, []);
+
+  // Forcing the wrong one is reported rather than silently garbled
+  const forced = await parseTxt(chinese, "lighthouse.txt", { encoding: "shift_jis" });
+  assert.equal(forced.warnings[0]?.code, "invalid-characters");
+});
+
+const chapterTitles = async (text: string, headings: TxtHeadingPreset[]) =>
+  (await parseTxt(Buffer.from(text), "sample.txt", { headings })).chapters.map(
+    (chapter) => chapter.title
+  );
+
+test("each heading preset splits only on its own headings", async () => {
+  const text = [
+    "Prologue",
+    "It was late.",
+    "Chapter 1",
+    "The bell rang.",
+    "Episode 2",
+    "Nobody came.",
+    "第3章 夜",
+    "风停了。",
+    "***",
+    "The lamps went out.",
+  ].join("\n");
+
+  assert.deepEqual(await chapterTitles(text, ["chapter"]), ["Prologue", "Chapter 1"]);
+  // Everything before the first match is too long to be a blurb
+  assert.deepEqual(await chapterTitles(text, ["episode"]), ["Preface", "Episode 2"]);
+  assert.deepEqual(await chapterTitles(text, ["cjk"]), ["Preface", "第3章 夜"]);
+  // Separators start a chapter without giving it a title
+  assert.deepEqual(await chapterTitles(text, ["separator"]), ["Preface", "Chapter 2"]);
+  assert.deepEqual(await chapterTitles(text, ["chapter", "cjk", "episode", "separator"]), [
+    "Prologue",
+    "Chapter 1",
+    "Episode 2",
+    "第3章 夜",
+    "Chapter 5",
+  ]);
+});
+
+test("text without headings is cut into parts by length", async () => {
+  const paragraph = "The river kept moving. ".repeat(200).trim();
+  const text = Array.from({ length: 6 }, () => paragraph).join("\n");
+  const parsed = await parseTxt(Buffer.from(text), "river.txt");
+  assert.deepEqual(
+    parsed.chapters.map((chapter) => chapter.title),
+    ["Part 1", "Part 2", "Part 3"]
+  );
+  assert.equal(parsed.warnings[0]?.code, "no-chapter-headings");
+});
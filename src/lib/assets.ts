@@ -0,0 +1,45 @@
+// Parsers reference extracted images as `asset:<sha256>` until the novel row
+// exists; the importer swaps those for the authenticated asset route.
+export const ASSET_REF_PREFIX = "asset:";
+
+const assetRefPattern = /asset:([a-f0-9]{64})/g;
+
+export function assetRef(hash: string): string {
+  return `${ASSET_REF_PREFIX}${hash}`;
+}
+
+export function isAssetRef(value: string): boolean {
+  return value.startsWith(ASSET_REF_PREFIX);
+}
+
+export function assetUrl(novelId: string, assetId: string): string {
+  return `/api/novels/${novelId}/assets/${assetId}`;
+}
+
+export function assetStorageKey(novelId: string, hash: string): string {
+  return `assets/${novelId}/${hash}`;
+}
+
+export function rewriteAssetRefs(html: string, resolve: (hash: string) => string | undefined): string {
+  return html.replace(assetRefPattern, (match, hash: string) => resolve(hash) ?? match);
+}
+
+/** Adds the hash of every `asset:` reference in the HTML to `into`. */
+export function collectAssetHashes(html: string, into: Set<string>): Set<string> {
+  for (const match of html.matchAll(assetRefPattern)) into.add(match[1]);
+  return into;
+}
+
+/** Inverse of `rewriteAssetRefs` for chapter HTML already stored against a novel. */
+export function restoreAssetRefs(
+  html: string,
+  novelId: string,
+  resolveHash: (assetId: string) => string | undefined
+): string {
+  // Novel and asset ids are cuids, so they need no escaping
+  const pattern = new RegExp(`${assetUrl(novelId, "")}([a-z0-9]+)`, "g");
+  return html.replace(pattern, (match, assetId: string) => {
+    const hash = resolveHash(assetId);
+    return hash ? assetRef(hash) : match;
+  });
+}
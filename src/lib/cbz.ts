@@ -0,0 +1,197 @@
+import JSZip from "jszip";
+import path from "path";
+import { createHash } from "crypto";
+import { XMLParser } from "fast-xml-parser";
+import {
+  normalizeIdentifier,
+  type ParsedAsset,
+  type ParsedEpub,
+  type ParseEpubOptions,
+} from "@/lib/epub";
+import type { TocEntry } from "@/lib/toc";
+import { assetRef } from "@/lib/assets";
+import { sanitizeChapterHtml } from "@/lib/sanitize";
+import { titleFromFilename } from "@/lib/import-formats";
+
+// Archives without chapter folders are cut into chapters of this many pages
+const PAGES_PER_CHAPTER = 20;
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".avif": "image/avif",
+};
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+});
+
+// "page2" sorts before "page10", the way people number scans
+const naturalOrder = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+type ComicInfo = {
+  title?: string;
+  author?: string;
+  description?: string;
+  identifier?: string;
+  // Zero-based page index ComicInfo marks as the front cover
+  coverPage?: number;
+};
+
+const readText = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return String(value);
+  return undefined;
+};
+
+function readComicInfo(xml: string): ComicInfo {
+  const info = (xmlParser.parse(xml)?.ComicInfo ?? {}) as Record<string, unknown>;
+  const series = readText(info.Series);
+  const volume = readText(info.Volume);
+  const number = readText(info.Number);
+  const issueTitle = readText(info.Title);
+
+  // Series plus volume reads better on a shelf than the issue title alone
+  let title = issueTitle;
+  if (series) {
+    title = volume ? `${series} Vol. ${volume}` : number ? `${series} #${number}` : series;
+  }
+
+  const pages = (info.Pages as { Page?: unknown } | undefined)?.Page;
+  const pageList = (Array.isArray(pages) ? pages : pages ? [pages] : []) as Record<string, unknown>[];
+  const cover = pageList.find((page) => readText(page["@_Type"]) === "FrontCover");
+  const coverPage = cover ? Number(readText(cover["@_Image"])) : undefined;
+  const gtin = readText(info.GTIN);
+
+  return {
+    title,
+    author: readText(info.Writer) ?? readText(info.Penciller),
+    description: readText(info.Summary),
+    identifier: gtin ? normalizeIdentifier(gtin) : undefined,
+    coverPage: Number.isInteger(coverPage) ? coverPage : undefined,
+  };
+}
+
+const pagesHtml = (refs: string[], firstPage: number) =>
+  sanitizeChapterHtml(
+    refs.map((ref, index) => `<img src="${ref}" alt="Page ${firstPage + index}" />`).join("\n")
+  );
+
+/**
+ * Reads a comic book zip into the same shape as an EPUB. Every chapter is a
+ * run of page images: one chapter per folder when the archive has folders,
+ * otherwise fixed-size runs of pages. ComicInfo.xml supplies the metadata.
+ */
+export async function parseCbz(
+  buffer: Buffer,
+  fallbackTitle: string,
+  options: ParseEpubOptions = {}
+): Promise<ParsedEpub> {
+  const zip = await JSZip.loadAsync(buffer);
+  const files = Object.values(zip.files).filter((file) => !file.dir);
+
+  const pageFiles = files
+    .filter((file) => {
+      const name = file.name.replace(/\\/g, "/");
+      // macOS zips carry resource forks and hidden files alongside the pages
+      if (name.startsWith("__MACOSX/") || path.posix.basename(name).startsWith(".")) return false;
+      return path.posix.extname(name).toLowerCase() in IMAGE_TYPES;
+    })
+    .sort((a, b) => naturalOrder.compare(a.name, b.name));
+
+  if (!pageFiles.length) {
+    throw new Error("No page images found in the archive.");
+  }
+
+  const comicInfoFile = files.find((file) => path.posix.basename(file.name).toLowerCase() === "comicinfo.xml");
+  let info: ComicInfo = {};
+  if (comicInfoFile) {
+    try {
+      info = readComicInfo(await comicInfoFile.async("text"));
+    } catch (error) {
+      console.warn("Failed to read ComicInfo.xml:", error);
+    }
+  }
+
+  // Pages are grouped by their folder; a flat archive is one group
+  const groups: { folder: string; files: JSZip.JSZipObject[] }[] = [];
+  for (const file of pageFiles) {
+    const folder = path.posix.dirname(file.name.replace(/\\/g, "/"));
+    const last = groups[groups.length - 1];
+    if (last && last.folder === folder) last.files.push(file);
+    else groups.push({ folder, files: [file] });
+  }
+  // A single wrapping folder ("Volume 1/001.jpg") is not a chapter split
+  const byFolder = groups.length > 1;
+
+  const assets = new Map<string, ParsedAsset>();
+  const pageRefs: string[] = [];
+  for (const [index, file] of pageFiles.entries()) {
+    await options.onProgress?.(index, pageFiles.length);
+    const data = await file.async("nodebuffer");
+    const hash = createHash("sha256").update(data).digest("hex");
+    if (!assets.has(hash)) {
+      const mediaType = IMAGE_TYPES[path.posix.extname(file.name).toLowerCase()];
+      assets.set(hash, { hash, mediaType, data });
+    }
+    pageRefs.push(assetRef(hash));
+  }
+  await options.onProgress?.(pageFiles.length, pageFiles.length);
+
+  const title = info.title || titleFromFilename(fallbackTitle);
+  const chapters: ParsedEpub["chapters"] = [];
+  const toc: TocEntry[] = [];
+
+  if (byFolder) {
+    let pageIndex = 0;
+    for (const group of groups) {
+      const refs = pageRefs.slice(pageIndex, pageIndex + group.files.length);
+      const folderName = path.posix.basename(group.folder);
+      const chapterTitle = group.folder === "." ? title : folderName;
+      chapters.push({ title: chapterTitle, content: pagesHtml(refs, pageIndex + 1) });
+
+      // Nested folders ("Vol 1/Ch 3") become volumes in the TOC
+      const parentFolder = path.posix.dirname(group.folder);
+      const entry: TocEntry = { title: chapterTitle, chapterIndex: chapters.length - 1, children: [] };
+      if (parentFolder !== ".") {
+        const volumeTitle = path.posix.basename(parentFolder);
+        let volume = toc[toc.length - 1];
+        if (!volume || volume.chapterIndex !== undefined || volume.title !== volumeTitle) {
+          volume = { title: volumeTitle, children: [] };
+          toc.push(volume);
+        }
+        volume.children.push(entry);
+      } else {
+        toc.push(entry);
+      }
+      pageIndex += group.files.length;
+    }
+  } else {
+    for (let start = 0; start < pageRefs.length; start += PAGES_PER_CHAPTER) {
+      const refs = pageRefs.slice(start, start + PAGES_PER_CHAPTER);
+      const chapterTitle =
+        pageRefs.length <= PAGES_PER_CHAPTER ? title : `Pages ${start + 1}–${start + refs.length}`;
+      chapters.push({ title: chapterTitle, content: pagesHtml(refs, start + 1) });
+    }
+  }
+
+  return {
+    title,
+    author: info.author,
+    description: info.description,
+    identifier: info.identifier,
+    coverImage: pageRefs[info.coverPage ?? 0] ?? pageRefs[0],
+    layout: "pages",
+    chapters,
+    // A flat TOC adds nothing over the chapter list itself
+    toc: toc.some((entry) => entry.children.length) ? toc : [],
+    assets: Array.from(assets.values()),
+    warnings: [],
+  };
+}
@@ -0,0 +1,279 @@
+import JSZip from "jszip";
+import { load } from "cheerio";
+import { prisma } from "@/lib/prisma";
+import { getObject } from "@/lib/storage";
+import { ASSET_REF_PREFIX, restoreAssetRefs, rewriteAssetRefs } from "@/lib/assets";
+import { isTocEntryList, type TocEntry } from "@/lib/toc";
+
+export type ExportRange = {
+  // Zero-based chapter positions, both inclusive
+  from?: number;
+  to?: number;
+};
+
+type ExportChapter = {
+  title: string;
+  position: number;
+  href: string;
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "image/avif": "avif",
+  "image/bmp": "bmp",
+};
+
+const STYLESHEET = `body { margin: 0 5%; line-height: 1.5; }
+img { max-width: 100%; height: auto; }
+.page { margin: 0; padding: 0; text-align: center; }
+.page img { max-height: 100vh; }
+`;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const xhtmlDocument = (title: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+// Stored chapters are sanitized HTML; EPUB wants well-formed XHTML
+const toXhtml = (html: string) => load(html, null, false).xml();
+
+const imageId = (hash: string) => `img-${hash.slice(0, 16)}`;
+
+const chapterFileName = (position: number) => `chapter-${String(position + 1).padStart(4, "0")}.xhtml`;
+
+/** Keeps the TOC entries (and volume groups) that still have a chapter in the export. */
+function filterToc(entries: TocEntry[], chapters: Map<number, ExportChapter>): TocEntry[] {
+  return entries.flatMap((entry) => {
+    const children = filterToc(entry.children, chapters);
+    const inRange = typeof entry.chapterIndex === "number" && chapters.has(entry.chapterIndex);
+    if (!inRange && !children.length) return [];
+    return [{ ...entry, chapterIndex: inRange ? entry.chapterIndex : undefined, children }];
+  });
+}
+
+function navList(entries: TocEntry[], chapters: Map<number, ExportChapter>): string {
+  const items = entries.map((entry) => {
+    const target =
+      typeof entry.chapterIndex === "number" ? chapters.get(entry.chapterIndex)?.href : undefined;
+    // Volume labels without a chapter of their own point at their first child
+    const href = target ?? firstHref(entry.children, chapters);
+    const label = `<a href="${href}">${escapeXml(entry.title)}</a>`;
+    const children = entry.children.length ? `\n${navList(entry.children, chapters)}` : "";
+    return `<li>${label}${children}</li>`;
+  });
+  return `<ol>\n${items.join("\n")}\n</ol>`;
+}
+
+function firstHref(entries: TocEntry[], chapters: Map<number, ExportChapter>): string {
+  for (const entry of entries) {
+    if (typeof entry.chapterIndex === "number") {
+      const href = chapters.get(entry.chapterIndex)?.href;
+      if (href) return href;
+    }
+    const nested = firstHref(entry.children, chapters);
+    if (nested) return nested;
+  }
+  return "";
+}
+
+/**
+ * Rebuilds an EPUB 3 package from the stored novel: chapters become XHTML
+ * documents, images are copied out of storage and the edited title, author
+ * and cover go into the OPF. Returns null if the novel isn't the user's, and
+ * no data if the range holds no chapters.
+ */
+export async function buildNovelEpub(userId: string, novelId: string, range: ExportRange = {}) {
+  const novel = await prisma.novel.findFirst({
+    where: { id: novelId, userId },
+    select: {
+      id: true,
+      title: true,
+      author: true,
+      description: true,
+      coverImage: true,
+      sourceIdentifier: true,
+      layout: true,
+      toc: true,
+      chapters: {
+        where: { position: { gte: range.from ?? 0, lte: range.to } },
+        orderBy: { position: "asc" },
+        select: { title: true, position: true, content: true },
+      },
+      assets: {
+        select: { id: true, hash: true, mediaType: true, storageKey: true },
+      },
+    },
+  });
+
+  if (!novel) return null;
+  if (!novel.chapters.length) return { title: novel.title, data: null };
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and stay uncompressed
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`
+  );
+  zip.file("OEBPS/style.css", STYLESHEET);
+
+  const assetsById = new Map(novel.assets.map((asset) => [asset.id, asset]));
+  const assetsByHash = new Map(novel.assets.map((asset) => [asset.hash, asset]));
+  const usedAssets = new Set<string>();
+  const imageHref = (hash: string) => {
+    const asset = assetsByHash.get(hash);
+    if (!asset) return undefined;
+    usedAssets.add(hash);
+    return `images/${hash}.${IMAGE_EXTENSIONS[asset.mediaType] ?? "bin"}`;
+  };
+  // Chapter HTML points at the authenticated asset route; swap in package paths
+  const localizeImages = (html: string) =>
+    rewriteAssetRefs(
+      restoreAssetRefs(html, novel.id, (assetId) => assetsById.get(assetId)?.hash),
+      imageHref
+    );
+
+  const chapters = novel.chapters.map((chapter) => ({
+    title: chapter.title,
+    position: chapter.position,
+    href: chapterFileName(chapter.position),
+    body: toXhtml(localizeImages(chapter.content)),
+  }));
+
+  const coverRef = novel.coverImage
+    ? restoreAssetRefs(novel.coverImage, novel.id, (assetId) => assetsById.get(assetId)?.hash)
+    : "";
+  let coverHash = coverRef.startsWith(ASSET_REF_PREFIX)
+    ? coverRef.slice(ASSET_REF_PREFIX.length)
+    : undefined;
+  if (coverHash && !imageHref(coverHash)) coverHash = undefined;
+
+  const manifestImages: string[] = [];
+  const missingImages = new Set<string>();
+  for (const hash of usedAssets) {
+    const asset = assetsByHash.get(hash)!;
+    const data = await getObject(asset.storageKey);
+    if (!data) {
+      missingImages.add(hash);
+      if (hash === coverHash) coverHash = undefined;
+      continue;
+    }
+    const href = imageHref(hash)!;
+    zip.file(`OEBPS/${href}`, data);
+    manifestImages.push(
+      `<item id="${imageId(hash)}" href="${href}" media-type="${asset.mediaType}"${
+        hash === coverHash ? ' properties="cover-image"' : ""
+      }/>`
+    );
+  }
+
+  // Images that couldn't be resolved or loaded would point nowhere
+  const imageSource = /src="(?:images\/([a-f0-9]{64})[^"]*|asset:[^"]*|\/api\/novels\/[^"]*)"/g;
+  const isPageLayout = novel.layout === "pages";
+  for (const chapter of chapters) {
+    const body = chapter.body.replace(imageSource, (match, hash?: string) =>
+      hash && !missingImages.has(hash) ? match : 'src=""'
+    );
+    zip.file(
+      `OEBPS/${chapter.href}`,
+      xhtmlDocument(chapter.title, isPageLayout ? `<div class="page">${body}</div>` : body)
+    );
+  }
+
+  if (coverHash) {
+    zip.file(
+      "OEBPS/cover.xhtml",
+      xhtmlDocument(
+        novel.title,
+        `<div class="page"><img src="${imageHref(coverHash)}" alt="${escapeXml(novel.title)}"/></div>`
+      )
+    );
+  }
+
+  const chaptersByPosition = new Map(chapters.map((chapter) => [chapter.position, chapter]));
+  const storedToc = isTocEntryList(novel.toc) ? filterToc(novel.toc, chaptersByPosition) : [];
+  const toc: TocEntry[] = storedToc.length
+    ? storedToc
+    : chapters.map((chapter) => ({
+        title: chapter.title,
+        chapterIndex: chapter.position,
+        children: [],
+      }));
+
+  zip.file(
+    "OEBPS/nav.xhtml",
+    xhtmlDocument(
+      "Contents",
+      `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+${navList(toc, chaptersByPosition)}
+</nav>`
+    )
+  );
+
+  const identifier = novel.sourceIdentifier ?? `urn:obscra:${novel.id}`;
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>
+<dc:title>${escapeXml(novel.title)}</dc:title>
+${novel.author ? `<dc:creator>${escapeXml(novel.author)}</dc:creator>\n` : ""}${
+    novel.description ? `<dc:description>${escapeXml(novel.description)}</dc:description>\n` : ""
+  }<dc:language>und</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+${coverHash ? `<meta name="cover" content="${imageId(coverHash)}"/>\n` : ""}</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${coverHash ? '<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>\n' : ""}${chapters
+    .map(
+      (chapter) =>
+        `<item id="c${chapter.position + 1}" href="${chapter.href}" media-type="application/xhtml+xml"/>`
+    )
+    .join("\n")}
+${manifestImages.join("\n")}
+</manifest>
+<spine>
+${coverHash ? '<itemref idref="cover" linear="no"/>\n' : ""}${chapters
+    .map((chapter) => `<itemref idref="c${chapter.position + 1}"/>`)
+    .join("\n")}
+</spine>
+</package>
+`;
+  zip.file("OEBPS/content.opf", opf);
+
+  const data = await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+
+  return { title: novel.title, data };
+}
@@ -1,20 +1,50 @@
 import JSZip from "jszip";
 import { XMLParser } from "fast-xml-parser";
 import path from "path";
+import { createHash } from "crypto";
 import { load } from "cheerio";
-import sanitizeHtml from "sanitize-html";
+import type { TocEntry } from "@/lib/toc";
+import { ASSET_REF_PREFIX, assetRef, collectAssetHashes } from "@/lib/assets";
+import { sanitizeChapterHtml } from "@/lib/sanitize";
+import type { ImportWarning } from "@/lib/import-report";
+import type { NovelLayout } from "@/lib/import-formats";
+
+export type ParsedAsset = {
+  hash: string;
+  mediaType: string;
+  data: Buffer;
+};
 
 type ChapterPayload = {
   title: string;
   content: string;
+  // Looks like a cover, contents or copyright page; left out by default in the preview
+  isFrontMatter?: boolean;
 };
 
 export type ParsedEpub = {
   title: string;
   author?: string;
   description?: string;
+  // Normalized dc:identifier (ISBN, UUID, calibre id) used to spot duplicates
+  identifier?: string;
   coverImage?: string;
+  // Defaults to prose; comic archives are read page by page
+  layout?: NovelLayout;
   chapters: ChapterPayload[];
+  toc: TocEntry[];
+  // Images referenced from chapters and the cover as `asset:<hash>`
+  assets: ParsedAsset[];
+  warnings: ImportWarning[];
+};
+
+export type ParseProgress = (done: number, total: number) => void | Promise<void>;
+
+export type ParseEpubOptions = {
+  // Called before each spine item; throwing aborts the parse
+  onProgress?: ParseProgress;
+  // Keep short front matter for a preview, where it starts unticked
+  keepFrontMatter?: boolean;
 };
 
 const xmlParser = new XMLParser({
@@ -24,125 +54,6 @@ const xmlParser = new XMLParser({
   allowBooleanAttributes: true,
 });
 
-const extendedTags = [
-  "section",
-  "article",
-  "aside",
-  "header",
-  "footer",
-  "figure",
-  "figcaption",
-  "center",
-  "span",
-  "div",
-  "hr",
-  "table",
-  "thead",
-  "tbody",
-  "tfoot",
-  "tr",
-  "td",
-  "th",
-  "col",
-  "colgroup",
-  "pre",
-  "code",
-  "sup",
-  "sub",
-  "u",
-  "s",
-  "mark",
-  "ins",
-  "del",
-  "svg",
-  "path",
-  "circle",
-  "rect",
-  "line",
-  "polyline",
-  "polygon",
-  "ellipse",
-  "g",
-  "defs",
-  "use",
-  "image",
-  "text",
-  "tspan",
-];
-
-const sanitizeOptions: sanitizeHtml.IOptions = {
-  allowedTags: Array.from(new Set([...sanitizeHtml.defaults.allowedTags, ...extendedTags])),
-  allowedAttributes: {
-    ...sanitizeHtml.defaults.allowedAttributes,
-    "*": ["class", "style", "id", "title", "align", "valign"],
-    a: ["href", "name", "target", "title"],
-    img: ["src", "alt", "title", "width", "height", "class", "style", "id"],
-    svg: ["width", "height", "viewBox", "xmlns", "class", "style", "id"],
-    path: ["d", "fill", "stroke", "stroke-width", "class", "style", "id"],
-    g: ["fill", "stroke", "stroke-width", "transform", "class", "style", "id"],
-    circle: ["cx", "cy", "r", "fill", "stroke", "stroke-width", "class", "style", "id"],
-    rect: ["x", "y", "width", "height", "fill", "stroke", "stroke-width", "class", "style", "id"],
-    image: ["href", "xlink:href", "x", "y", "width", "height", "class", "style", "id"],
-    td: ["colspan", "rowspan", "align", "valign", "width", "height"],
-    th: ["colspan", "rowspan", "align", "valign", "width", "height"],
-    table: ["border", "cellpadding", "cellspacing", "width", "height"],
-  },
-  allowedStyles: {
-    "*": {
-      color: [/^.+$/],
-      "background-color": [/^.+$/],
-      "background-image": [/^.+$/],
-      "background-size": [/^.+$/],
-      "background-position": [/^.+$/],
-      "background-repeat": [/^.+$/],
-      "text-align": [/^left$|^right$|^center$|^justify$/],
-      "font-weight": [/^.+$/],
-      "font-style": [/^.+$/],
-      "font-size": [/^.+$/],
-      "font-family": [/^.+$/],
-      "text-decoration": [/^.+$/],
-      "text-transform": [/^.+$/],
-      "letter-spacing": [/^.+$/],
-      "line-height": [/^.+$/],
-      "margin": [/^.+$/],
-      "margin-top": [/^.+$/],
-      "margin-bottom": [/^.+$/],
-      "margin-left": [/^.+$/],
-      "margin-right": [/^.+$/],
-      "padding": [/^.+$/],
-      "padding-top": [/^.+$/],
-      "padding-bottom": [/^.+$/],
-      "padding-left": [/^.+$/],
-      "padding-right": [/^.+$/],
-      border: [/^.+$/],
-      "border-top": [/^.+$/],
-      "border-bottom": [/^.+$/],
-      "border-left": [/^.+$/],
-      "border-right": [/^.+$/],
-      "width": [/^.+$/],
-      "height": [/^.+$/],
-      "max-width": [/^.+$/],
-      "max-height": [/^.+$/],
-      "min-width": [/^.+$/],
-      "min-height": [/^.+$/],
-      "display": [/^.+$/],
-      "position": [/^.+$/],
-      "top": [/^.+$/],
-      "bottom": [/^.+$/],
-      "left": [/^.+$/],
-      "right": [/^.+$/],
-      "float": [/^.+$/],
-      "clear": [/^.+$/],
-      "vertical-align": [/^.+$/],
-      "opacity": [/^.+$/],
-      "visibility": [/^.+$/],
-    },
-  },
-  allowedSchemes: ["http", "https", "mailto", "tel", "data"],
-  // Don't enforce allowedSchemes for data URIs in img src
-  enforceHtmlBoundary: true,
-};
-
 type ManifestItem = {
   "@_id"?: string;
   "@_href"?: string;
@@ -155,6 +66,20 @@ type SpineItem = {
   "@_linear"?: string;
 };
 
+type NcxNavPoint = {
+  navLabel?: unknown;
+  content?: { "@_src"?: string };
+  navPoint?: NcxNavPoint | NcxNavPoint[];
+};
+
+// TOC entry as read from the nav document / NCX, before it is mapped onto the
+// chapters that survived parsing.
+type RawTocEntry = {
+  title: string;
+  path?: string;
+  children: RawTocEntry[];
+};
+
 type MetaTag = {
   "@_name"?: string;
   "@_content"?: string;
@@ -168,8 +93,9 @@ const normalizeArray = <T>(value: T | T[] | undefined | null): T[] => {
 };
 
 const readText = (value: unknown): string | undefined => {
-  if (!value) return undefined;
+  if (value === undefined || value === null || value === "") return undefined;
   if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
   if (Array.isArray(value)) {
     return readText(value[0]);
   }
@@ -180,11 +106,40 @@ const readText = (value: unknown): string | undefined => {
     if (typeof text === "string") {
       return text;
     }
+    if (typeof text === "number") {
+      return String(text);
+    }
   }
 
   return undefined;
 };
 
+export const normalizeIdentifier = (value: string): string | undefined => {
+  let identifier = value.trim().toLowerCase().replace(/^urn:/, "");
+  identifier = identifier.replace(/^(?:uuid|isbn|calibre)[:\s]+/, "");
+  // ISBNs are printed with and without hyphens
+  if (/^[\d\s-]{9,}x?$/.test(identifier)) {
+    identifier = identifier.replace(/[\s-]/g, "");
+  }
+  return identifier || undefined;
+};
+
+const readIdentifier = (opfPackage: Record<string, unknown> | undefined): string | undefined => {
+  const metadata = (opfPackage?.metadata ?? {}) as Record<string, unknown>;
+  const identifiers = normalizeArray(metadata.identifier ?? metadata["dc:identifier"]);
+  const uniqueId = opfPackage?.["@_unique-identifier"];
+  // The package's unique-identifier is the one that survives re-exports
+  const preferred =
+    identifiers.find(
+      (entry) =>
+        typeof entry === "object" &&
+        entry !== null &&
+        (entry as Record<string, unknown>)["@_id"] === uniqueId
+    ) ?? identifiers[0];
+  const text = readText(preferred);
+  return text ? normalizeIdentifier(text) : undefined;
+};
+
 const resolveZipPath = (baseDir: string, href: string): string => {
   const normalized = href.replace(/\\/g, "/");
   if (!baseDir || baseDir === ".") {
@@ -236,34 +191,295 @@ const detectMimeFromExt = (href: string): string => {
   }
 };
 
-export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<ParsedEpub> {
-  const zip = await JSZip.loadAsync(buffer);
-  const container = await zip.file("META-INF/container.xml")?.async("text");
+// Key used to match TOC hrefs against spine documents: no fragment, decoded
+const tocPathKey = (zipPath: string): string => {
+  const withoutFragment = zipPath.split("#")[0].split("?")[0];
+  try {
+    return decodeURIComponent(withoutFragment);
+  } catch {
+    return withoutFragment;
+  }
+};
+
+const hasEmbeddedImages = (html: string) =>
+  html.includes("data:image") || html.includes(ASSET_REF_PREFIX);
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, " ").trim();
+
+// EPUB3 nav document: <nav epub:type="toc"><ol><li><a href>..</a><ol>..</ol></li></ol></nav>
+const readNavToc = (navHtml: string, navDir: string): RawTocEntry[] => {
+  const $ = load(navHtml);
+  let nav = $("nav[epub\\:type~='toc']").first();
+  if (!nav.length) nav = $("nav#toc").first();
+  if (!nav.length) nav = $("nav").first();
+  if (!nav.length) return [];
+
+  const walk = (list: ReturnType<typeof $>): RawTocEntry[] => {
+    const entries: RawTocEntry[] = [];
+    list.children("li").each((_, element) => {
+      const item = $(element);
+      const anchor = item.children("a").first();
+      const label = anchor.length ? anchor : item.children("span").first();
+      const href = anchor.attr("href");
+      const title = collapseWhitespace(label.text());
+      const children = walk(item.children("ol").first());
+      if (!title && !children.length) return;
+      entries.push({
+        title,
+        path: href && !/^[a-z]+:/i.test(href) ? tocPathKey(resolveZipPath(navDir, href)) : undefined,
+        children,
+      });
+    });
+    return entries;
+  };
+
+  return walk(nav.children("ol").first());
+};
+
+// EPUB2 NCX: <navMap><navPoint><navLabel><text/></navLabel><content src/><navPoint/>..</navPoint></navMap>
+const readNcxToc = (ncxXml: string, ncxDir: string): RawTocEntry[] => {
+  const ncx = xmlParser.parse(ncxXml);
+
+  const walk = (points: NcxNavPoint[]): RawTocEntry[] =>
+    points.flatMap((point) => {
+      const label = normalizeArray(point?.navLabel)[0] as { text?: unknown } | undefined;
+      const title = collapseWhitespace(readText(label?.text) ?? "");
+      const src = point?.content?.["@_src"];
+      const children = walk(normalizeArray(point?.navPoint));
+      if (!title && !children.length) return [];
+      return [
+        {
+          title,
+          path: src ? tocPathKey(resolveZipPath(ncxDir, src)) : undefined,
+          children,
+        },
+      ];
+    });
 
-  if (!container) {
-    throw new Error("Invalid EPUB: missing container.");
+  return walk(normalizeArray<NcxNavPoint>(ncx?.ncx?.navMap?.navPoint));
+};
+
+// Chapter titles come from the TOC. When a volume and its first chapter point
+// at the same file, the innermost entry wins.
+const collectTocTitles = (entries: RawTocEntry[], titles = new Map<string, { title: string; leaf: boolean }>()) => {
+  for (const entry of entries) {
+    const leaf = entry.children.length === 0;
+    if (entry.path && entry.title) {
+      const existing = titles.get(entry.path);
+      if (!existing || (!existing.leaf && leaf)) {
+        titles.set(entry.path, { title: entry.title, leaf });
+      }
+    }
+    collectTocTitles(entry.children, titles);
   }
+  return titles;
+};
+
+const resolveTocEntries = (
+  entries: RawTocEntry[],
+  chapterIndexByPath: Map<string, number>
+): TocEntry[] =>
+  entries.map((entry) => {
+    const chapterIndex = entry.path ? chapterIndexByPath.get(entry.path) : undefined;
+    return {
+      title: entry.title,
+      ...(typeof chapterIndex === "number" ? { chapterIndex } : {}),
+      children: resolveTocEntries(entry.children, chapterIndexByPath),
+    };
+  });
+
+const HTML_FILE = /\.x?html?$/i;
+
+const byFileName = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+type ZipLookup = (zipPath: string, quiet?: boolean) => JSZip.JSZipObject | null;
+
+/**
+ * Finds a file by its exact or URL-decoded path, falling back to a
+ * case-insensitive match (scraped EPUBs often disagree with their own
+ * manifest about case). Each case repair is reported once.
+ */
+function createZipLookup(zip: JSZip, warnings: ImportWarning[]): ZipLookup {
+  const byLowerName = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((_relativePath, file) => {
+    if (!file.dir) byLowerName.set(file.name.toLowerCase(), file);
+  });
+  const reported = new Set<string>();
+
+  return (zipPath, quiet = false) => {
+    const decoded = tocPathKey(zipPath);
+    const exact = zip.file(zipPath) || zip.file(decoded);
+    if (exact && !exact.dir) return exact;
+
+    const loose = byLowerName.get(zipPath.toLowerCase()) ?? byLowerName.get(decoded.toLowerCase());
+    if (loose && !quiet && !reported.has(loose.name)) {
+      reported.add(loose.name);
+      warnings.push({
+        code: "epub-repaired",
+        message: `${zipPath} only exists as ${loose.name}; matched ignoring case.`,
+        href: zipPath,
+      });
+    }
+    return loose ?? null;
+  };
+}
+
+type LocatedPackage = {
+  path: string;
+  // Parsed OPF document, with a <package> root
+  opf: ReturnType<typeof xmlParser.parse>;
+};
+
+/**
+ * Reads the package document named by container.xml, preferring a reflowable
+ * rendition when there are several. Without a usable container the archive
+ * is scanned for .opf files and the one with the longest spine wins.
+ */
+async function locatePackage(
+  zip: JSZip,
+  findFile: ZipLookup,
+  warnings: ImportWarning[]
+): Promise<LocatedPackage | null> {
+  const readPackage = async (zipPath: string): Promise<LocatedPackage | null> => {
+    const file = findFile(zipPath);
+    if (!file) return null;
+    try {
+      const opf = xmlParser.parse(await file.async("text"));
+      return opf?.package ? { path: file.name, opf } : null;
+    } catch {
+      return null;
+    }
+  };
 
-  const containerDoc = xmlParser.parse(container);
-  const rootFilePath = containerDoc?.container?.rootfiles?.rootfile?.["@_full-path"];
+  const container = await findFile("META-INF/container.xml")?.async("text");
+  if (container) {
+    let rootfiles: Record<string, string | undefined>[] = [];
+    try {
+      rootfiles = normalizeArray(xmlParser.parse(container)?.container?.rootfiles?.rootfile);
+    } catch {
+      // Falls through to scanning the archive
+    }
+
+    // Fixed-layout renditions go last; the reader reflows text
+    const candidates = rootfiles
+      .filter(
+        (rootfile) =>
+          rootfile?.["@_full-path"] &&
+          (!rootfile["@_media-type"] || rootfile["@_media-type"] === "application/oebps-package+xml")
+      )
+      .sort(
+        (a, b) => Number(a["@_layout"] === "pre-paginated") - Number(b["@_layout"] === "pre-paginated")
+      );
 
-  if (!rootFilePath) {
-    throw new Error("Invalid EPUB: missing manifest path.");
+    for (const [index, rootfile] of candidates.entries()) {
+      const found = await readPackage(rootfile["@_full-path"]!);
+      if (!found) continue;
+      if (index > 0) {
+        warnings.push({
+          code: "epub-repaired",
+          message: `The package named first in container.xml is unreadable; used ${found.path}.`,
+          href: found.path,
+        });
+      } else if (candidates.length > 1) {
+        warnings.push({
+          code: "epub-repaired",
+          message: `The book has ${candidates.length} renditions; imported ${found.path}.`,
+          href: found.path,
+        });
+      }
+      return found;
+    }
   }
 
-  const opfContent = await zip.file(rootFilePath)?.async("text");
+  let best: LocatedPackage | null = null;
+  let bestSpineLength = -1;
+  const opfPaths = Object.keys(zip.files)
+    .filter((name) => !zip.files[name].dir && /\.opf$/i.test(name))
+    .sort(byFileName);
+  for (const opfPath of opfPaths) {
+    const found = await readPackage(opfPath);
+    const spineLength = found ? normalizeArray(found.opf.package.spine?.itemref).length : -1;
+    if (found && spineLength > bestSpineLength) {
+      best = found;
+      bestSpineLength = spineLength;
+    }
+  }
 
-  if (!opfContent) {
-    throw new Error("Invalid EPUB: missing package definition.");
+  if (best) {
+    warnings.push({
+      code: "epub-repaired",
+      message: container
+        ? `container.xml names no readable package; found ${best.path} in the archive.`
+        : `META-INF/container.xml is missing; found ${best.path} in the archive.`,
+      href: best.path,
+    });
   }
+  return best;
+}
 
-  const opf = xmlParser.parse(opfContent);
+export async function parseEpub(
+  buffer: Buffer,
+  fallbackTitle: string,
+  options: ParseEpubOptions = {}
+): Promise<ParsedEpub> {
+  const zip = await JSZip.loadAsync(buffer);
+  const warnings: ImportWarning[] = [];
+  const findFile = createZipLookup(zip, warnings);
+
+  const located = await locatePackage(zip, findFile, warnings);
+  if (!located) {
+    warnings.push({
+      code: "epub-repaired",
+      message: "No package definition (.opf) found; chapters are the HTML files in name order.",
+    });
+  }
+
+  const opf = located?.opf;
+  const rootFilePath = located?.path ?? "";
   const metadata = opf?.package?.metadata ?? {};
   const manifest = normalizeArray<ManifestItem>(opf?.package?.manifest?.item);
-  const spine = normalizeArray<SpineItem>(opf?.package?.spine?.itemref);
+  let spine = normalizeArray<SpineItem>(opf?.package?.spine?.itemref);
   const metadataMeta = normalizeArray<MetaTag>(metadata?.meta);
+  const baseDir = located ? path.posix.dirname(rootFilePath) : "";
+
+  // Without a spine that reaches any document, read the HTML files in name order
+  const spineReachesDocument = spine.some((itemRef) => {
+    const href = manifest.find((item) => item?.["@_id"] === itemRef?.["@_idref"])?.["@_href"];
+    return href ? Boolean(findFile(resolveZipPath(baseDir, href), true)) : false;
+  });
+  if (!spineReachesDocument) {
+    const navHref = manifest.find((item) => item["@_properties"]?.split(/\s+/).includes("nav"))?.["@_href"];
+    const navPath = navHref ? resolveZipPath(baseDir, navHref) : undefined;
+    const htmlFiles = Object.keys(zip.files)
+      .filter(
+        (name) =>
+          !zip.files[name].dir &&
+          HTML_FILE.test(name) &&
+          !/^META-INF\//i.test(name) &&
+          name !== navPath
+      )
+      .sort(byFileName);
+
+    if (located && htmlFiles.length) {
+      warnings.push({
+        code: "epub-repaired",
+        message: `The spine lists no readable documents; read ${htmlFiles.length} HTML files in name order.`,
+      });
+    }
+
+    spine = htmlFiles.map((name, index) => {
+      const id = `recovered-${index + 1}`;
+      manifest.push({
+        "@_id": id,
+        "@_href": baseDir && baseDir !== "." ? path.posix.relative(baseDir, name) : name,
+        "@_media-type": "application/xhtml+xml",
+      });
+      return { "@_idref": id };
+    });
+  }
+
   const manifestMap = new Map(manifest.map((item) => [item?.["@_id"], item]));
-  const baseDir = path.posix.dirname(rootFilePath);
   const manifestHrefMap = new Map<string, ManifestItem>();
 
   for (const item of manifest) {
@@ -273,9 +489,56 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
     }
   }
 
+  // Prefer the EPUB3 nav document, fall back to the EPUB2 NCX
+  let rawToc: RawTocEntry[] = [];
+  const navItem = manifest.find((item) =>
+    item["@_properties"]?.split(/\s+/).includes("nav")
+  );
+  if (navItem?.["@_href"]) {
+    const navPath = resolveZipPath(baseDir, navItem["@_href"]);
+    const navHtml = await findFile(navPath)?.async("text");
+    if (navHtml) {
+      rawToc = readNavToc(navHtml, path.posix.dirname(navPath));
+    }
+  }
+  if (!rawToc.length) {
+    const ncxId: string | undefined = opf?.package?.spine?.["@_toc"];
+    const ncxItem =
+      (ncxId && manifestMap.get(ncxId)) ||
+      manifest.find((item) => item["@_media-type"] === "application/x-dtbncx+xml");
+    if (ncxItem && ncxItem["@_href"]) {
+      const ncxPath = resolveZipPath(baseDir, ncxItem["@_href"]);
+      const ncxXml = await findFile(ncxPath)?.async("text");
+      if (ncxXml) {
+        rawToc = readNcxToc(ncxXml, path.posix.dirname(ncxPath));
+      }
+    }
+  }
+  const tocTitles = collectTocTitles(rawToc);
+  const chapterIndexByPath = new Map<string, number>();
+
   const chapters: ChapterPayload[] = [];
+  const assets = new Map<string, ParsedAsset>();
+  const assetRefsByPath = new Map<string, Promise<string>>();
+
+  // Images are content-addressed, so the same file used by several chapters
+  // (or copied under two names) is stored once
+  const storeAsset = (zipPath: string, mediaType: string, file: JSZip.JSZipObject) => {
+    let pending = assetRefsByPath.get(zipPath);
+    if (!pending) {
+      pending = file.async("nodebuffer").then((data) => {
+        const hash = createHash("sha256").update(data).digest("hex");
+        if (!assets.has(hash)) {
+          assets.set(hash, { hash, mediaType, data });
+        }
+        return assetRef(hash);
+      });
+      assetRefsByPath.set(zipPath, pending);
+    }
+    return pending;
+  };
 
-  const getResourceDataUri = async (resourcePath: string): Promise<string | null> => {
+  const getResourceRef = async (resourcePath: string): Promise<string | null> => {
     // Remove fragment and query string for file lookup
     let cleanPath = resourcePath.split("#")[0].split("?")[0];
     
@@ -329,72 +592,66 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
       }
     }
     
+    // Last resort: the same path in different case
+    if (!file) {
+      file = findFile(cleanPath);
+      foundPath = file?.name ?? null;
+    }
+
     if (!file) return null;
     
-    const base64 = await file.async("base64");
     const manifestEntry = foundPath ? manifestHrefMap.get(foundPath) : null;
     const mediaType =
       manifestEntry?.["@_media-type"] ?? detectMimeFromExt(foundPath || cleanPath);
-    return `data:${mediaType};base64,${base64}`;
-  };
-
-  const substituteCssUrls = async (
-    css: string,
-    cssDir: string
-  ): Promise<string> => {
-    let updated = css;
-    const urlMatches = Array.from(css.matchAll(/url\(([^)]+)\)/g));
-    for (const match of urlMatches) {
-      const rawRef = match[1]?.trim().replace(/^['"]|['"]$/g, "");
-      if (!rawRef || rawRef.startsWith("data:") || /^https?:\/\//i.test(rawRef)) {
-        continue;
-      }
-      const resourcePath = resolveZipPath(cssDir, rawRef);
-      const dataUri = await getResourceDataUri(resourcePath);
-      if (dataUri) {
-        updated = updated.replace(match[0], `url(${dataUri})`);
-      }
-    }
-
-    const importMatches = Array.from(
-      css.matchAll(/@import\s+(?:url\()?['"]?([^'")]+)['"]?\)?;/g)
-    );
-    for (const match of importMatches) {
-      const rawRef = match[1]?.trim();
-      if (!rawRef || rawRef.startsWith("data:") || /^https?:\/\//i.test(rawRef)) {
-        continue;
-      }
-      const resourcePath = resolveZipPath(cssDir, rawRef);
-      const file = zip.file(resourcePath) || zip.file(decodeURIComponent(resourcePath));
-      if (!file) continue;
-      const importedCss = await file.async("text");
-      const substituted = await substituteCssUrls(
-        importedCss,
-        path.posix.dirname(resourcePath)
-      );
-      updated = updated.replace(match[0], substituted);
-    }
-
-    return updated;
+    return storeAsset(foundPath || cleanPath, mediaType, file);
   };
 
   for (let index = 0; index < spine.length; index += 1) {
+    await options.onProgress?.(index, spine.length);
     const itemRef = spine[index];
     const idRef = itemRef?.["@_idref"];
     if (!idRef) continue;
 
+    const manifestItem = manifestMap.get(idRef);
+    const href: string | undefined = manifestItem?.["@_href"];
+
     if (typeof itemRef?.["@_linear"] === "string" && itemRef["@_linear"]?.toLowerCase() === "no") {
+      warnings.push({
+        code: "skipped-non-linear",
+        message: `Skipped non-linear spine item ${href ?? idRef}.`,
+        spineIndex: index,
+        href,
+      });
       continue;
     }
 
-    const manifestItem = manifestMap.get(idRef);
-    if (!manifestItem) continue;
+    if (!manifestItem || !href) {
+      warnings.push({
+        code: "missing-chapter-file",
+        message: `Spine item "${idRef}" has no manifest entry.`,
+        spineIndex: index,
+      });
+      continue;
+    }
 
     const mediaType: string | undefined = manifestItem?.["@_media-type"];
-    if (!mediaType || !mediaType.includes("html")) continue;
-
-    const href: string | undefined = manifestItem?.["@_href"];
-    if (!href) continue;
+    const looksLikeHtml = HTML_FILE.test(tocPathKey(href));
+    if ((!mediaType || !mediaType.includes("html")) && looksLikeHtml) {
+      warnings.push({
+        code: "epub-repaired",
+        message: `${href} is declared as ${mediaType ?? "no media type"}; read it as XHTML.`,
+        spineIndex: index,
+        href,
+      });
+    } else if (!mediaType || !mediaType.includes("html")) {
+      warnings.push({
+        code: "unsupported-spine-item",
+        message: `Skipped ${href} (${mediaType ?? "unknown media type"}).`,
+        spineIndex: index,
+        href,
+      });
+      continue;
+    }
 
     let resolvedPath = resolveZipPath(baseDir, href);
     
@@ -407,8 +664,16 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
       resolvedPath = resolvedPath.replace(/^[A-Za-z]:/, "").replace(/^\\/, "").replace(/^\//, "");
     }
 
-    const file = zip.file(resolvedPath) || zip.file(decodeURIComponent(resolvedPath));
-    if (!file) continue;
+    const file = findFile(resolvedPath);
+    if (!file) {
+      warnings.push({
+        code: "missing-chapter-file",
+        message: `${href} is listed in the spine but missing from the archive.`,
+        spineIndex: index,
+        href,
+      });
+      continue;
+    }
 
     const rawHtml = await file.async("text");
     const $ = load(rawHtml);
@@ -423,37 +688,17 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
       htmlDir = htmlDir.replace(/^[^/]*/, "").replace(/^\//, "");
     }
     const resourceTasks: Promise<void>[] = [];
-
-    $("link[rel='stylesheet']").each((_, element) => {
-      const link = $(element);
-      const href = link.attr("href");
-      if (!href || href.startsWith("data:") || /^https?:\/\//i.test(href)) {
-        return;
-      }
-      const resourcePath = resolveZipPath(htmlDir, href);
-      const task = (async () => {
-        const cssFile = zip.file(resourcePath) || zip.file(decodeURIComponent(resourcePath));
-        if (!cssFile) return;
-        const css = await cssFile.async("text");
-        const substituted = await substituteCssUrls(
-          css,
-          path.posix.dirname(resourcePath)
-        );
-        link.replaceWith(`<style>${substituted}</style>`);
-      })();
-      resourceTasks.push(task);
-    });
-
-    $("style").each((_, element) => {
-      const styleNode = $(element);
-      const css = styleNode.html();
-      if (!css) return;
-      const task = (async () => {
-        const substituted = await substituteCssUrls(css, htmlDir);
-        styleNode.text(substituted);
-      })();
-      resourceTasks.push(task);
-    });
+    const reportMissingResource = (ref: string) => {
+      warnings.push({
+        code: "missing-resource",
+        message: `${href} references ${ref}, which is not in the archive.`,
+        spineIndex: index,
+        href,
+      });
+    };
+
+    // The sanitizer drops stylesheets, so their url() resources aren't collected either
+    $("link[rel='stylesheet'], style").remove();
 
     $("img").each((_, element) => {
       const img = $(element);
@@ -461,9 +706,9 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
       if (src && !src.startsWith("data:") && !/^https?:\/\//i.test(src)) {
         const resourcePath = resolveZipPath(htmlDir, src);
         const task = (async () => {
-            const dataUri = await getResourceDataUri(resourcePath);
-          if (dataUri) {
-            img.attr("src", dataUri);
+            const resourceRef = await getResourceRef(resourcePath);
+          if (resourceRef) {
+            img.attr("src", resourceRef);
           } else {
             // Try to find the image in the manifest
             const foundInManifest = Array.from(manifestHrefMap.entries()).find(([, item]) => {
@@ -475,15 +720,14 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
               const manifestHref = manifestItem?.["@_href"];
               if (manifestHref) {
                 const correctPath = resolveZipPath(baseDir, manifestHref);
-                const dataUri2 = await getResourceDataUri(correctPath);
-                if (dataUri2) {
-                  img.attr("src", dataUri2);
-                  console.log(`[EPUB] Found image via manifest: ${src} -> ${correctPath}`);
+                const resourceRef2 = await getResourceRef(correctPath);
+                if (resourceRef2) {
+                  img.attr("src", resourceRef2);
                   return;
                 }
               }
             }
-            console.warn(`[EPUB] Failed to resolve image: ${src} (htmlDir: ${htmlDir}, resolved to: ${resourcePath})`);
+            reportMissingResource(src);
           }
         })();
         resourceTasks.push(task);
@@ -503,9 +747,9 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
                 continue;
               }
               const resourcePath = resolveZipPath(htmlDir, url);
-              const dataUri = await getResourceDataUri(resourcePath);
-              if (dataUri) {
-                transformed.push([dataUri, descriptor].filter(Boolean).join(" "));
+              const resourceRef = await getResourceRef(resourcePath);
+              if (resourceRef) {
+                transformed.push([resourceRef, descriptor].filter(Boolean).join(" "));
               }
             }
             if (transformed.length) {
@@ -524,17 +768,17 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
       if (href && !href.startsWith("data:") && !/^https?:\/\//i.test(href)) {
         const resourcePath = resolveZipPath(htmlDir, href);
         const task = (async () => {
-          const dataUri = await getResourceDataUri(resourcePath);
-          if (dataUri) {
+          const resourceRef = await getResourceRef(resourcePath);
+          if (resourceRef) {
             // Use href for SVG 2.0, xlink:href for SVG 1.1
             if (image.attr("href")) {
-              image.attr("href", dataUri);
+              image.attr("href", resourceRef);
             }
             if (image.attr("xlink:href")) {
-              image.attr("xlink:href", dataUri);
+              image.attr("xlink:href", resourceRef);
             }
           } else {
-            console.warn(`[EPUB] Failed to resolve SVG image: ${href} (resolved to: ${resourcePath})`);
+            reportMissingResource(href);
           }
         })();
         resourceTasks.push(task);
@@ -557,9 +801,9 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
             continue;
           }
           const resourcePath = resolveZipPath(htmlDir, rawRef);
-          const dataUri = await getResourceDataUri(resourcePath);
-          if (dataUri) {
-            updated = updated.replace(match[0], `url(${dataUri})`);
+          const resourceRef = await getResourceRef(resourcePath);
+          if (resourceRef) {
+            updated = updated.replace(match[0], `url(${resourceRef})`);
           }
         }
         styled.attr("style", updated);
@@ -571,29 +815,13 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
       await Promise.all(resourceTasks);
     }
 
-    // Debug: Check if images were processed
     const imgCount = $("img").length;
-    const imgWithDataUri = $("img[src^='data:']").length;
-    const svgCount = $("svg").length;
-    if (imgCount > 0) {
-      console.log(`[EPUB] Chapter ${index + 1}: Found ${imgCount} images, ${imgWithDataUri} with data URIs`);
-      if (imgCount > imgWithDataUri) {
-        $("img").each((_, el) => {
-          const src = $(el).attr("src");
-          if (src && !src.startsWith("data:") && !/^https?:\/\//i.test(src)) {
-            console.warn(`[EPUB] Image without data URI: ${src}`);
-          }
-        });
-      }
-    }
-    if (svgCount > 0) {
-      console.log(`[EPUB] Chapter ${index + 1}: Found ${svgCount} SVG elements`);
-    }
 
+    const fallbackChapterTitle = `Chapter ${index + 1}`;
     let title =
       $("title").first().text().trim() ||
       $("[class*=title]").first().text().trim() ||
-      `Chapter ${index + 1}`;
+      fallbackChapterTitle;
     
     // Get HTML with all attributes preserved - use body if available, otherwise root
     // After processing images, we need to get the updated HTML from cheerio
@@ -627,76 +855,42 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
       }
     }
     
-    // Final fallback - if still empty, log warning
+    // Final fallback - if still empty, try the whole document
     if (!bodyHtml || bodyHtml.trim().length === 0) {
-      console.error(`[EPUB] Chapter ${index + 1}: CRITICAL - bodyHtml is empty! Images found: ${imgCount}, SVG found: ${svgCount}`);
-      // Try one more time with a different approach
       const allContent = $.root().html();
       if (allContent) {
         bodyHtml = allContent;
-        console.log(`[EPUB] Chapter ${index + 1}: Using root content as fallback (${bodyHtml.length} chars)`);
       }
     }
-    
-    // Debug: Check HTML before sanitization
-    const hasDataUriInHtml = bodyHtml ? bodyHtml.includes("data:image") : false;
-    if (bodyHtml && imgCount > 0) {
-      console.log(`[EPUB] Chapter ${index + 1}: HTML contains data URIs: ${hasDataUriInHtml}, HTML length: ${bodyHtml.length}`);
-    }
-    
-    // For chapters with images/SVG, skip aggressive sanitization and use cheerio HTML directly
-    // We've already removed scripts and processed images, so we can trust the content
-    let content = "";
-    
-    // Check if chapter has visual content before sanitization
-    const hasVisualContentBeforeSanitize = imgCount > 0 || svgCount > 0 || $("[style*='background-image']").length > 0;
-    
-    if (hasVisualContentBeforeSanitize) {
-      // Use cheerio HTML directly for visual content - it's already been processed
-      if ($("body").length > 0) {
-        content = $("body").html() || "";
-      } else {
-        content = $.html() || "";
-        // Clean up HTML wrapper if present
-        const bodyMatch = content.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
-        if (bodyMatch) {
-          content = bodyMatch[1];
-        } else {
-          // Remove DOCTYPE and html/head tags
-          content = content.replace(/<!DOCTYPE[^>]*>/i, "")
-            .replace(/<\/?html[^>]*>/gi, "")
-            .replace(/<head[^>]*>[\s\S]*?<\/head>/gi, "")
-            .trim();
-        }
-      }
-      
-      // We've already removed scripts with $("script").remove(), so we can skip sanitization
-      // for chapters with visual content to preserve images and ornaments
-      // Just do a basic check to ensure no scripts slipped through
-      if (content.includes("<script") || content.includes("javascript:")) {
-        console.warn(`[EPUB] Chapter ${index + 1}: Found script tags, removing them`);
-        const cleaned = load(content);
-        cleaned("script").remove();
-        cleaned("[onclick]").removeAttr("onclick");
-        cleaned("[onerror]").removeAttr("onerror");
-        content = cleaned.html() || content;
-      }
-      
-      console.log(`[EPUB] Chapter ${index + 1}: Using unsanitized HTML for visual content. Length: ${content.length}, Images: ${(content.match(/<img/g) || []).length}, SVG: ${(content.match(/<svg/g) || []).length}, Data URIs: ${content.includes("data:image")}`);
-    } else {
-      // For text-only chapters, use normal sanitization
-      content = bodyHtml ? sanitizeHtml(bodyHtml, sanitizeOptions) : "";
-    }
+
+    // Illustrated chapters go through the same profile as text-only ones; it
+    // keeps images and SVG but strips anything that could run script
+    let content = bodyHtml ? sanitizeChapterHtml(bodyHtml) : "";
 
     if (!content || content.trim().length === 0) {
-      console.warn(`[EPUB] Chapter ${index + 1}: Content is empty after processing`);
+      warnings.push({
+        code: "empty-chapter-dropped",
+        message: `${href} had no content after cleanup and was dropped.`,
+        spineIndex: index,
+        href,
+      });
       continue;
     }
 
     const contentDoc = load(content);
+    const tocTitle = tocTitles.get(tocPathKey(resolvedPath))?.title;
     const headingTitle = contentDoc("h1, h2, h3").first().text().trim();
-    if (headingTitle) {
+    if (tocTitle) {
+      title = tocTitle;
+    } else if (headingTitle) {
       title = headingTitle;
+    } else if (title === fallbackChapterTitle) {
+      warnings.push({
+        code: "fallback-title",
+        message: `${href} has no title; named "${title}".`,
+        spineIndex: index,
+        href,
+      });
     }
 
     const plainText = contentDoc.text().replace(/\s+/g, " ").trim();
@@ -710,55 +904,48 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
       lowerTitle.includes("introduction");
 
     // Check if chapter has images, SVG, or other visual content
-    let hasImages = contentDoc("img").length > 0;
-    let hasSvg = contentDoc("svg").length > 0;
-    let hasVisualContent = hasImages || hasSvg || contentDoc("[style*='background-image']").length > 0;
-    
-    // Verify images are present with data URIs if we expected them
-    let finalHasImages = hasImages;
-    let finalContentDoc = contentDoc;
+    const hasImages = contentDoc("img").length > 0;
+    const hasSvg = contentDoc("svg").length > 0;
+    const hasVisualContent = hasImages || hasSvg || contentDoc("[style*='background-image']").length > 0;
+
+    // Verify images are present if we expected them
     if (imgCount > 0 && !hasImages) {
-      console.error(`[EPUB] Chapter ${index + 1}: WARNING - Expected ${imgCount} images but found ${hasImages ? contentDoc("img").length : 0} in final content!`);
       // Try to get content directly from cheerio one more time
       const directContent = $("body").length > 0 ? $("body").html() : $.html();
-      if (directContent && directContent.includes("data:image")) {
-        console.log(`[EPUB] Chapter ${index + 1}: Recovering content from cheerio directly`);
-        content = directContent;
-        // Reload contentDoc with recovered content
-        finalContentDoc = load(content);
-        finalHasImages = finalContentDoc("img").length > 0;
+      if (directContent && hasEmbeddedImages(directContent)) {
+        warnings.push({
+          code: "content-recovered",
+          message: `Images in ${href} were lost during cleanup and recovered from the source document.`,
+          spineIndex: index,
+          href,
+        });
+        content = sanitizeChapterHtml(directContent);
       }
     }
     
     // Don't filter out chapters with visual content, even if text is short
-    // Only filter front matter if it has no visual content AND is very short
-    if (plainText.length < 120 && isFrontMatter && !hasVisualContent) {
-      console.log(`[EPUB] Skipping front matter chapter: ${title} (${plainText.length} chars, no visual content)`);
+    // Only filter front matter if it has no visual content AND is very short,
+    // and nobody gets to untick it in a preview instead
+    if (plainText.length < 120 && isFrontMatter && !hasVisualContent && !options.keepFrontMatter) {
+      warnings.push({
+        code: "front-matter-dropped",
+        message: `Dropped front matter "${title}" (${plainText.length} characters).`,
+        spineIndex: index,
+        href,
+      });
       continue;
     }
 
-    // Update hasImages/hasSvg if we recovered content
-    if (finalContentDoc !== contentDoc) {
-      hasImages = finalHasImages;
-      hasSvg = finalContentDoc("svg").length > 0;
-    }
-    // Recalculate hasVisualContent based on current state
-    hasVisualContent = hasImages || hasSvg || finalContentDoc("[style*='background-image']").length > 0;
-    
-    // Debug: Log chapter info
-    if (hasVisualContent) {
-      const finalImgCount = finalContentDoc("img").length;
-      const finalSvgCount = finalContentDoc("svg").length;
-      const hasDataUris = content.includes("data:image");
-      console.log(`[EPUB] Chapter ${index + 1} "${title}": ${plainText.length} chars, ${finalImgCount} images, ${finalSvgCount} SVG, data URIs: ${hasDataUris}`);
-    }
-
+    chapterIndexByPath.set(tocPathKey(resolvedPath), chapters.length);
     chapters.push({
       title,
       content,
+      isFrontMatter: isFrontMatter || undefined,
     });
   }
 
+  await options.onProgress?.(spine.length, spine.length);
+
   let coverId =
     metadataMeta.find(
       (meta) => meta["@_name"]?.toLowerCase() === "cover" || meta["@_property"]?.toLowerCase() === "cover"
@@ -774,11 +961,10 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
 
   if (coverItem && coverItem["@_href"]) {
     const coverPath = resolveZipPath(baseDir, coverItem["@_href"]);
-    const coverFile = zip.file(coverPath) || zip.file(decodeURIComponent(coverPath));
+    const coverFile = findFile(coverPath);
     if (coverFile) {
-      const base64 = await coverFile.async("base64");
       const mediaType = coverItem["@_media-type"] || detectMimeFromExt(coverPath);
-      coverImage = `data:${mediaType};base64,${base64}`;
+      coverImage = await storeAsset(coverFile.name, mediaType, coverFile);
     }
   }
 
@@ -801,11 +987,20 @@ export async function parseEpub(buffer: Buffer, fallbackTitle: string): Promise<
     throw new Error("No readable chapters found.");
   }
 
+  // Resources only used by markup the sanitizer removed would never be shown
+  const referenced = new Set<string>();
+  for (const chapter of chapters) collectAssetHashes(chapter.content, referenced);
+  if (coverImage) collectAssetHashes(coverImage, referenced);
+
   return {
     title,
     author,
     description,
+    identifier: readIdentifier(opf?.package),
     coverImage,
     chapters,
+    toc: resolveTocEntries(rawToc, chapterIndexByPath),
+    assets: Array.from(assets.values()).filter((asset) => referenced.has(asset.hash)),
+    warnings,
   };
 }
@@ -0,0 +1,414 @@
+import JSZip from "jszip";
+import { createHash } from "crypto";
+import { load, type Cheerio, type CheerioAPI } from "cheerio";
+import {
+  normalizeIdentifier,
+  type ParsedAsset,
+  type ParsedEpub,
+  type ParseEpubOptions,
+} from "@/lib/epub";
+import type { TocEntry } from "@/lib/toc";
+import type { ImportWarning } from "@/lib/import-report";
+import { assetRef } from "@/lib/assets";
+import { sanitizeChapterHtml } from "@/lib/sanitize";
+import { titleFromFilename } from "@/lib/import-formats";
+
+type XmlNode = ReturnType<Cheerio<never>["contents"]>[number];
+type XmlSelection = ReturnType<CheerioAPI>;
+
+// Footnotes referenced from the chapter being rendered, in order of first use
+type ChapterNotes = {
+  order: string[];
+  numbers: Map<string, number>;
+};
+
+// FB2 elements that map one-to-one onto an HTML element
+const INLINE_TAGS: Record<string, string> = {
+  p: "p",
+  emphasis: "em",
+  strong: "strong",
+  strikethrough: "s",
+  sub: "sub",
+  sup: "sup",
+  code: "code",
+  subtitle: "h3",
+  v: "p",
+  cite: "blockquote",
+  table: "table",
+  tr: "tr",
+  td: "td",
+  th: "th",
+};
+
+const BLOCK_CLASSES: Record<string, [tag: string, className: string]> = {
+  poem: ["div", "poem"],
+  stanza: ["div", "stanza"],
+  epigraph: ["blockquote", "epigraph"],
+  "text-author": ["p", "text-author"],
+};
+
+// FB2 books that keep their footnotes in a separate <body name="...">
+const NOTE_BODIES = new Set(["notes", "comments", "footnotes"]);
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, " ").trim();
+
+// Links use whatever prefix the file bound the xlink namespace to
+const linkTarget = (node: XmlSelection): string | undefined => {
+  const attributes = (node.get(0) as { attribs?: Record<string, string> } | undefined)?.attribs ?? {};
+  const key = Object.keys(attributes).find((name) => name === "href" || name.endsWith(":href"));
+  return key ? attributes[key].trim() : undefined;
+};
+
+async function readFb2Xml(buffer: Buffer): Promise<string> {
+  let data: Buffer = buffer;
+
+  // .fb2.zip is a plain zip around a single .fb2 file
+  if (buffer.subarray(0, 2).toString("latin1") === "PK") {
+    const zip = await JSZip.loadAsync(buffer);
+    const entry = Object.values(zip.files).find(
+      (file) => !file.dir && file.name.toLowerCase().endsWith(".fb2")
+    );
+    if (!entry) {
+      throw new Error("No .fb2 file found in the archive.");
+    }
+    data = await entry.async("nodebuffer");
+  }
+
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(data.subarray(3));
+  }
+  if ((data[0] === 0xff && data[1] === 0xfe) || (data[0] === 0xfe && data[1] === 0xff)) {
+    return new TextDecoder(data[0] === 0xff ? "utf-16le" : "utf-16be").decode(data.subarray(2));
+  }
+
+  // Russian FB2 files are often windows-1251, declared in the XML prolog
+  const prolog = data.subarray(0, 200).toString("latin1");
+  const declared = /<\?xml[^>]*encoding=["']([\w.:-]+)["']/i.exec(prolog)?.[1];
+  try {
+    return new TextDecoder(declared ?? "utf-8").decode(data);
+  } catch {
+    return new TextDecoder("utf-8").decode(data);
+  }
+}
+
+const readAuthor = ($: CheerioAPI, titleInfo: XmlSelection): string | undefined => {
+  const names = titleInfo
+    .children("author")
+    .toArray()
+    .map((author) => {
+      const $author = $(author);
+      const fullName = ["first-name", "middle-name", "last-name"]
+        .map((part) => collapseWhitespace($author.children(part).text()))
+        .filter(Boolean)
+        .join(" ");
+      return fullName || collapseWhitespace($author.children("nickname").text());
+    })
+    .filter(Boolean);
+
+  return names.length ? names.join(", ") : undefined;
+};
+
+const readAnnotation = ($: CheerioAPI, titleInfo: XmlSelection): string | undefined => {
+  const annotation = titleInfo.children("annotation");
+  const paragraphs = annotation
+    .find("p")
+    .toArray()
+    .map((paragraph) => collapseWhitespace($(paragraph).text()))
+    .filter(Boolean);
+  const text = paragraphs.length ? paragraphs.join("\n\n") : collapseWhitespace(annotation.text());
+  return text || undefined;
+};
+
+const sectionTitle = ($: CheerioAPI, section: XmlSelection): string | undefined => {
+  const lines = section
+    .children("title")
+    .children()
+    .toArray()
+    .map((line) => collapseWhitespace($(line).text()))
+    .filter(Boolean);
+  return lines.length ? lines.join(" — ") : undefined;
+};
+
+// Everything but the title and nested sections, text nodes included
+const ownContent = (element: XmlSelection): XmlNode[] =>
+  element
+    .contents()
+    .toArray()
+    .filter((node) => !(node.type === "tag" && ["title", "section"].includes(node.name)));
+
+const hasReadableContent = (html: string) => {
+  const $ = load(html);
+  return $.root().text().trim().length > 0 || $("img").length > 0;
+};
+
+/**
+ * Reads a FictionBook 2 file (plain or zipped) into the same shape as an
+ * EPUB. Sections become chapters, sections holding only other sections
+ * become volumes in the TOC, <binary> images become assets and notes from a
+ * separate notes body are appended to the chapters that reference them.
+ */
+export async function parseFb2(
+  buffer: Buffer,
+  fallbackTitle: string,
+  options: ParseEpubOptions = {}
+): Promise<ParsedEpub> {
+  const xml = await readFb2Xml(buffer);
+  const $ = load(xml, { xml: true });
+  const root = $("FictionBook").first();
+
+  if (!root.length) {
+    throw new Error("Invalid FB2 file: missing FictionBook root element.");
+  }
+
+  const warnings: ImportWarning[] = [];
+  const assets = new Map<string, ParsedAsset>();
+  const assetRefsById = new Map<string, string | null>();
+
+  const binaries = new Map<string, XmlSelection>();
+  root.children("binary").each((_, binary) => {
+    const id = $(binary).attr("id");
+    if (id) binaries.set(id, $(binary));
+  });
+
+  const resolveImage = (href: string | undefined): string | null => {
+    if (!href) return null;
+    const id = href.replace(/^#/, "");
+    const cached = assetRefsById.get(id);
+    if (cached !== undefined) return cached;
+
+    const binary = binaries.get(id);
+    let ref: string | null = null;
+    if (binary) {
+      const data = Buffer.from(binary.text().replace(/\s+/g, ""), "base64");
+      if (data.length) {
+        const hash = createHash("sha256").update(data).digest("hex");
+        if (!assets.has(hash)) {
+          assets.set(hash, {
+            hash,
+            mediaType: binary.attr("content-type") || "application/octet-stream",
+            data,
+          });
+        }
+        ref = assetRef(hash);
+      }
+    }
+    if (!ref) {
+      warnings.push({
+        code: "missing-resource",
+        message: `The book references image ${id}, which is not in the file.`,
+        href: `#${id}`,
+      });
+    }
+    assetRefsById.set(id, ref);
+    return ref;
+  };
+
+  const description = root.children("description");
+  const titleInfo = description.children("title-info");
+  const title = collapseWhitespace(titleInfo.children("book-title").text()) || titleFromFilename(fallbackTitle);
+  const documentId = collapseWhitespace(description.children("document-info").children("id").text());
+  const isbn = collapseWhitespace(description.children("publish-info").children("isbn").text());
+  const identifier = documentId || isbn ? normalizeIdentifier(documentId || isbn) : undefined;
+
+  const bodies = root.children("body").toArray().map((body) => $(body));
+  const isNoteBody = (body: XmlSelection) => NOTE_BODIES.has((body.attr("name") ?? "").toLowerCase());
+  const mainBodies = bodies.filter((body) => !isNoteBody(body));
+
+  if (!mainBodies.length) {
+    throw new Error("Invalid FB2 file: no body found.");
+  }
+
+  const renderNodes = (nodes: XmlNode[], notes: ChapterNotes | null): string =>
+    nodes.map((node) => renderNode(node, notes)).join("");
+
+  const renderNode = (node: XmlNode, notes: ChapterNotes | null): string => {
+    if (node.type === "text") {
+      return escapeHtml($(node).text());
+    }
+    if (node.type !== "tag") {
+      return "";
+    }
+
+    const $node = $(node);
+    const name = $node.prop("tagName")?.toLowerCase().replace(/^\w+:/, "") ?? "";
+    const children = () => renderNodes($node.contents().toArray(), notes);
+
+    if (name === "empty-line") return "<br />";
+
+    if (name === "image") {
+      const ref = resolveImage(linkTarget($node));
+      if (!ref) return "";
+      const alt = $node.attr("alt") ?? $node.attr("title") ?? "";
+      return `<img src="${ref}" alt="${escapeHtml(alt)}" />`;
+    }
+
+    if (name === "title") {
+      // Titles of poems and epigraphs; chapter titles are rendered separately
+      return `<h4>${$node
+        .children()
+        .toArray()
+        .map((line) => renderNodes($(line).contents().toArray(), notes))
+        .join("<br />")}</h4>`;
+    }
+
+    if (name === "a") {
+      const href = linkTarget($node) ?? "";
+      const noteId = href.startsWith("#") ? href.slice(1) : "";
+      if (noteId && notes && noteHtml.has(noteId)) {
+        let number = notes.numbers.get(noteId);
+        if (number === undefined) {
+          number = notes.order.length + 1;
+          notes.order.push(noteId);
+          notes.numbers.set(noteId, number);
+          return `<sup><a id="fnref-${number}" href="#fn-${number}">${children()}</a></sup>`;
+        }
+        return `<sup><a href="#fn-${number}">${children()}</a></sup>`;
+      }
+      if (/^https?:\/\//i.test(href)) {
+        return `<a href="${escapeHtml(href)}">${children()}</a>`;
+      }
+      return children();
+    }
+
+    const mapped = INLINE_TAGS[name];
+    if (mapped) return `<${mapped}>${children()}</${mapped}>`;
+
+    const block = BLOCK_CLASSES[name];
+    if (block) return `<${block[0]} class="${block[1]}">${children()}</${block[0]}>`;
+
+    return children();
+  };
+
+  // Notes are rendered first so chapters know which links point at them
+  const noteHtml = new Map<string, string>();
+  for (const body of bodies.filter(isNoteBody)) {
+    body.find("section[id]").each((_, section) => {
+      const $section = $(section);
+      const id = $section.attr("id");
+      if (!id) return;
+      const content = renderNodes(ownContent($section), null).trim();
+      if (content) noteHtml.set(id, content);
+    });
+  }
+
+  const chapters: ParsedEpub["chapters"] = [];
+  const toc: TocEntry[] = [];
+  const totalSections = mainBodies.reduce((count, body) => count + body.find("section").length, 0);
+  let visitedSections = 0;
+
+  const addChapter = (
+    heading: string | undefined,
+    nodes: XmlNode[],
+    parent: TocEntry[],
+    location: string
+  ): TocEntry | null => {
+    const notes: ChapterNotes = { order: [], numbers: new Map() };
+    const body = renderNodes(nodes, notes).trim();
+
+    if (!hasReadableContent(body)) {
+      if (heading) {
+        warnings.push({
+          code: "empty-chapter-dropped",
+          message: `Section "${heading}" had no content and was dropped.`,
+        });
+      }
+      return null;
+    }
+
+    const chapterTitle = heading ?? `Chapter ${chapters.length + 1}`;
+    if (!heading) {
+      warnings.push({
+        code: "fallback-title",
+        message: `${location} has no title; named "${chapterTitle}".`,
+      });
+    }
+
+    const footnotes = notes.order.length
+      ? `<aside class="footnotes"><ol>${notes.order
+          .map(
+            (id, index) =>
+              `<li id="fn-${index + 1}">${noteHtml.get(id) ?? ""} <a href="#fnref-${index + 1}">↩</a></li>`
+          )
+          .join("")}</ol></aside>`
+      : "";
+
+    const entry: TocEntry = { title: chapterTitle, chapterIndex: chapters.length, children: [] };
+    parent.push(entry);
+    chapters.push({
+      title: chapterTitle,
+      content: sanitizeChapterHtml(`<h2>${escapeHtml(chapterTitle)}</h2>${body}${footnotes}`),
+    });
+    return entry;
+  };
+
+  const walkSection = async (section: XmlSelection, parent: TocEntry[]) => {
+    await options.onProgress?.(visitedSections, totalSections);
+    visitedSections += 1;
+
+    const heading = sectionTitle($, section);
+    const subsections = section.children("section").toArray();
+    const ownNodes = ownContent(section);
+    const ownHtml = renderNodes(ownNodes, null);
+
+    if (!subsections.length) {
+      addChapter(heading, ownNodes, parent, `Section ${visitedSections}`);
+      return;
+    }
+
+    // A section that only groups other sections is a volume, not a chapter
+    let children = parent;
+    if (hasReadableContent(ownHtml)) {
+      const entry = addChapter(heading, ownNodes, parent, `Section ${visitedSections}`);
+      if (entry) children = entry.children;
+    } else if (heading) {
+      const volume: TocEntry = { title: heading, children: [] };
+      parent.push(volume);
+      children = volume.children;
+    }
+
+    for (const subsection of subsections) {
+      await walkSection($(subsection), children);
+    }
+  };
+
+  for (const body of mainBodies) {
+    // Text placed directly in the body (usually an epigraph) opens the book
+    const leadNodes = ownContent(body);
+    if (hasReadableContent(renderNodes(leadNodes, null))) {
+      addChapter(sectionTitle($, body) ?? title, leadNodes, toc, "The book body");
+    }
+
+    for (const section of body.children("section").toArray()) {
+      await walkSection($(section), toc);
+    }
+  }
+
+  await options.onProgress?.(totalSections, totalSections);
+
+  if (!chapters.length) {
+    throw new Error("No readable text found.");
+  }
+
+  const coverImage =
+    resolveImage(linkTarget(titleInfo.children("coverpage").children("image").first())) ?? undefined;
+
+  return {
+    title,
+    author: readAuthor($, titleInfo),
+    description: readAnnotation($, titleInfo),
+    identifier,
+    coverImage,
+    chapters,
+    // A flat TOC adds nothing over the chapter list itself
+    toc: toc.some((entry) => entry.children.length) ? toc : [],
+    assets: Array.from(assets.values()),
+    warnings,
+  };
+}
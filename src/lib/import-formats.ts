@@ -0,0 +1,150 @@
+// Client-safe description of the file formats the importer understands. The
+// parsers themselves live in `@/lib/importers` and only run on the server.
+
+export type ImportFormat = "epub" | "txt" | "fb2" | "mobi" | "cbz";
+
+/** How the reader lays a novel out: flowing text, or one image per page. */
+export type NovelLayout = "prose" | "pages";
+
+const FORMAT_EXTENSIONS: Record<ImportFormat, { extensions: string[]; mimeType: string }> = {
+  epub: { extensions: [".epub"], mimeType: "application/epub+zip" },
+  txt: { extensions: [".txt"], mimeType: "text/plain" },
+  fb2: { extensions: [".fb2", ".fb2.zip"], mimeType: "application/x-fictionbook+xml" },
+  mobi: { extensions: [".mobi", ".azw3", ".azw", ".prc"], mimeType: "application/x-mobipocket-ebook" },
+  cbz: { extensions: [".cbz"], mimeType: "application/vnd.comicbook+zip" },
+};
+
+/** Value for the `accept` attribute of import file inputs. */
+export const IMPORT_FILE_ACCEPT = Object.values(FORMAT_EXTENSIONS)
+  .flatMap((format) => [...format.extensions, format.mimeType])
+  .join(",");
+
+const IMPORT_FORMATS = Object.keys(FORMAT_EXTENSIONS) as ImportFormat[];
+
+export function detectImportFormat(filename: string, mimeType?: string): ImportFormat | null {
+  const name = filename.toLowerCase();
+  return (
+    IMPORT_FORMATS.find((format) =>
+      FORMAT_EXTENSIONS[format].extensions.some((extension) => name.endsWith(extension))
+    ) ??
+    IMPORT_FORMATS.find((format) => mimeType === FORMAT_EXTENSIONS[format].mimeType) ??
+    null
+  );
+}
+
+// Types browsers report for the formats above besides their canonical ones
+const GENERIC_CONTENT_TYPES = [
+  "application/octet-stream",
+  "application/zip",
+  "application/x-zip-compressed",
+  "application/x-cbz",
+  "application/xml",
+  "text/xml",
+];
+
+/** Whether an upload of this MIME type can be an importable book. */
+export function isImportContentType(contentType: string): boolean {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  return (
+    GENERIC_CONTENT_TYPES.includes(type) ||
+    IMPORT_FORMATS.some((format) => FORMAT_EXTENSIONS[format].mimeType === type)
+  );
+}
+
+export function importContentType(filename: string): string {
+  const format = detectImportFormat(filename);
+  return format ? FORMAT_EXTENSIONS[format].mimeType : "application/octet-stream";
+}
+
+/** Book title to fall back on when the file carries none. */
+export function titleFromFilename(filename: string): string {
+  const format = detectImportFormat(filename);
+  const extension = format
+    ? FORMAT_EXTENSIONS[format].extensions.find((ext) => filename.toLowerCase().endsWith(ext))
+    : undefined;
+  return extension ? filename.slice(0, -extension.length) : filename;
+}
+
+export type TxtHeadingPreset = "chapter" | "cjk" | "episode" | "separator";
+
+// Matched against each trimmed line of a TXT file; a match starts a chapter
+export const TXT_HEADING_PRESETS: Record<TxtHeadingPreset, { label: string; pattern: RegExp }> = {
+  chapter: {
+    label: "Chapter 12 / Prologue",
+    pattern: /^(?:(?:chapter|chap\.?|ch\.?)\s*(?:\d+|[ivxlcdm]+)\b|(?:prologue|epilogue|interlude)\b)/i,
+  },
+  cjk: {
+    label: "第12章",
+    pattern: /^第\s*[0-9０-９零〇一二三四五六七八九十百千万两]+\s*[章回节節話话卷部]/,
+  },
+  episode: {
+    label: "Episode 12",
+    pattern: /^(?:episode|ep\.?)\s*\d+\b/i,
+  },
+  separator: {
+    label: "*** lines",
+    pattern: /^(?:(?:[*＊]\s*){3,}|[-=_~]{3,})$/,
+  },
+};
+
+// Separator lines are off by default: most books use them for scene breaks
+export const DEFAULT_TXT_HEADINGS: TxtHeadingPreset[] = ["chapter", "cjk", "episode"];
+
+export const TXT_ENCODINGS = ["utf-8", "utf-16le", "utf-16be", "gbk", "shift_jis"] as const;
+export type TxtEncoding = (typeof TXT_ENCODINGS)[number];
+
+/** User-adjustable parser settings, kept on the import job between previews. */
+export type ImportParseOptions = {
+  headings?: TxtHeadingPreset[];
+  // Extra heading text such as "Part #" or "第#话", where # is the chapter
+  // number; see compileHeadingPattern
+  customHeading?: string;
+  // Overrides encoding detection
+  encoding?: TxtEncoding;
+};
+
+/** What the parser found, shown to the user before anything is saved. */
+export type ImportPreview = {
+  format: ImportFormat;
+  title: string;
+  author?: string;
+  encoding?: TxtEncoding;
+  options: ImportParseOptions;
+  chapters: { title: string; length: number; excerpt: string; isFrontMatter?: boolean }[];
+};
+
+/** The user's edits to a preview, applied when the import is confirmed. */
+export type ImportSelection = {
+  title?: string;
+  author?: string;
+  // Indexes into the preview's chapter list
+  excludedChapters?: number[];
+};
+
+export const HEADING_PATTERN_ERROR =
+  "The custom heading must be text with at most one # where the chapter number goes.";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const HEADING_NUMBER = "(?:[0-9０-９]+|[ivxlcdm]+|[零〇一二三四五六七八九十百千万两]+)";
+
+/**
+ * Turns a custom heading like "Part #" or "第#话" into a matcher for lines
+ * that start with the text and a chapter number (after it when there's no
+ * #). Users only supply literal text, never a regular expression: the
+ * pattern runs on every line of the file, inside the web server's worker,
+ * so it must not be able to backtrack catastrophically.
+ */
+export function compileHeadingPattern(source: string): RegExp | null {
+  const parts = source.trim().split("#");
+  if (parts.length > 2) return null;
+  const before = parts[0].trimEnd();
+  const after = (parts[1] ?? "").trimStart();
+  if (!before && !after) return null;
+  const end = after ? `\\s*${escapeRegExp(after)}` : "(?![0-9a-z])";
+  return new RegExp(`^${escapeRegExp(before)}\\s*${HEADING_NUMBER}${end}`, "iu");
+}
+
+export function isValidHeadingPattern(source: string): boolean {
+  return compileHeadingPattern(source) !== null;
+}
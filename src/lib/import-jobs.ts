@@ -0,0 +1,462 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { applyImportSelection, buildImportPreview, parseImportFile } from "@/lib/importers";
+import type { ImportParseOptions, ImportSelection } from "@/lib/import-formats";
+import type { ImportWarning } from "@/lib/import-report";
+import { getObject } from "@/lib/storage";
+import { findDuplicateNovel, keepOriginalFile, saveParsedNovel } from "@/lib/novel-import";
+import { fetchNovelFromUrl } from "@/lib/source-import";
+import {
+  SOURCE_POLL_INTERVAL_MS,
+  checkNextDueSource,
+  followNovelSource,
+} from "@/lib/source-updates";
+import { UPLOAD_SWEEP_INTERVAL_MS, sweepAbandonedUploads } from "@/lib/uploads";
+import { assertRoomForChapters, measureUnsizedOriginals } from "@/lib/storage-usage";
+import { applyNovelUpdate, planNovelUpdate, type NovelUpdateSummary } from "@/lib/novel-update";
+
+export type ImportJobStatus =
+  | "queued"
+  | "running"
+  // Update jobs stop here until the user confirms the planned changes
+  | "review"
+  // The book is already in the library; waits for update / import anyway
+  | "duplicate"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+export type ImportJobStage = "queued" | "downloading" | "parsing" | "review" | "writing" | "done";
+
+// Share of the progress bar each stage covers
+const STAGE_RANGES: Record<ImportJobStage, [number, number]> = {
+  queued: [0, 0],
+  downloading: [0, 10],
+  parsing: [10, 80],
+  review: [80, 80],
+  writing: [80, 100],
+  done: [100, 100],
+};
+
+const POLL_INTERVAL_MS = 2000;
+// A running job that hasn't reported progress for this long lost its worker
+const STALE_JOB_MS = 10 * 60 * 1000;
+// How often the worker looks for jobs orphaned by another worker's crash
+const STALE_SWEEP_INTERVAL_MS = 60 * 1000;
+// Progress writes are throttled so a 2,000-chapter parse isn't 2,000 updates
+const PROGRESS_WRITE_INTERVAL_MS = 500;
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super("Import cancelled.");
+    this.name = "ImportCancelledError";
+  }
+}
+
+export const importJobSelect = {
+  id: true,
+  filename: true,
+  sourceUrl: true,
+  status: true,
+  stage: true,
+  stageCurrent: true,
+  stageTotal: true,
+  progress: true,
+  error: true,
+  warnings: true,
+  novelId: true,
+  targetNovelId: true,
+  updatePlan: true,
+  preview: true,
+  duplicateOfNovelId: true,
+  createdAt: true,
+  finishedAt: true,
+} as const;
+
+export async function enqueueImportJob(opts: {
+  userId: string;
+  filename: string;
+  // Exactly one of these says where the book comes from
+  storageKey?: string;
+  sourceUrl?: string;
+  // Size of the uploaded file, for the storage quota
+  size?: number;
+  // Update this novel in place instead of creating a new one
+  targetNovelId?: string;
+}) {
+  const job = await prisma.importJob.create({
+    data: opts,
+    select: importJobSelect,
+  });
+  wakeImportWorker();
+  return { ...job, duplicateOf: null };
+}
+
+/** Job as shown to its owner, with the title of a matching novel resolved. */
+export async function loadImportJob(userId: string, jobId: string) {
+  const job = await prisma.importJob.findFirst({
+    where: { id: jobId, userId },
+    select: importJobSelect,
+  });
+  if (!job) return null;
+
+  const duplicateOf = job.duplicateOfNovelId
+    ? await prisma.novel.findFirst({
+        where: { id: job.duplicateOfNovelId, userId },
+        select: { id: true, title: true },
+      })
+    : null;
+
+  return { ...job, duplicateOf };
+}
+
+const stagePercent = (stage: ImportJobStage, current: number, total: number) => {
+  const [start, end] = STAGE_RANGES[stage];
+  if (total <= 0) return start;
+  return Math.round(start + ((end - start) * Math.min(current, total)) / total);
+};
+
+function createProgressReporter(jobId: string) {
+  let lastWrite = 0;
+
+  return async (stage: ImportJobStage, current: number, total: number, force = false) => {
+    const now = Date.now();
+    if (!force && current < total && now - lastWrite < PROGRESS_WRITE_INTERVAL_MS) {
+      return;
+    }
+    lastWrite = now;
+
+    const job = await prisma.importJob.update({
+      where: { id: jobId },
+      data: {
+        stage,
+        stageCurrent: current,
+        stageTotal: total,
+        progress: stagePercent(stage, current, total),
+      },
+      select: { cancelRequested: true },
+    });
+
+    if (job.cancelRequested) {
+      throw new ImportCancelledError();
+    }
+  };
+}
+
+type ClaimedImportJob = {
+  id: string;
+  userId: string;
+  filename: string;
+  storageKey: string | null;
+  sourceUrl: string | null;
+  targetNovelId: string | null;
+  parseOptions: unknown;
+  selection: unknown;
+  reviewConfirmed: boolean;
+  removeMissing: boolean;
+  allowDuplicate: boolean;
+};
+
+// Stops the job until the user answers from the library
+async function pauseImportJob(
+  jobId: string,
+  status: "review" | "duplicate",
+  warnings: ImportWarning[],
+  data: Prisma.ImportJobUpdateInput
+) {
+  await prisma.importJob.update({
+    where: { id: jobId },
+    data: {
+      ...data,
+      status,
+      stage: "review",
+      progress: STAGE_RANGES.review[1],
+      warnings: warnings.length ? warnings : undefined,
+    },
+  });
+}
+
+async function resolveUpdateTarget(job: ClaimedImportJob) {
+  if (!job.targetNovelId) return null;
+  const novel = await prisma.novel.findFirst({
+    where: { id: job.targetNovelId, userId: job.userId },
+    select: { id: true },
+  });
+  if (!novel) {
+    throw new Error("The novel to update no longer exists.");
+  }
+  return novel.id;
+}
+
+type ProgressReporter = ReturnType<typeof createProgressReporter>;
+
+// Books imported by URL are fetched as part of the parsing stage
+async function loadImportSource(
+  job: ClaimedImportJob,
+  parseOptions: ImportParseOptions,
+  report: ProgressReporter
+) {
+  const onProgress = (done: number, total: number) => report("parsing", done, total);
+
+  if (job.sourceUrl) {
+    const parsed = await fetchNovelFromUrl(job.sourceUrl, { onProgress });
+    return { format: null, parsed, source: parsed.source };
+  }
+
+  await report("downloading", 0, 1, true);
+  const buffer = job.storageKey ? await getObject(job.storageKey) : null;
+  if (!buffer) {
+    throw new Error("Uploaded file is no longer available. Please upload it again.");
+  }
+  await report("downloading", 1, 1, true);
+
+  // Only new books are previewed, so only they keep short front matter
+  return parseImportFile(buffer, job.filename, {
+    ...parseOptions,
+    onProgress,
+    keepFrontMatter: !job.targetNovelId,
+  });
+}
+
+export async function runImportJob(job: ClaimedImportJob) {
+  const report = createProgressReporter(job.id);
+
+  try {
+    const parseOptions = (job.parseOptions ?? {}) as ImportParseOptions;
+    const result = await loadImportSource(job, parseOptions, report);
+    let { parsed } = result;
+
+    const targetNovelId = await resolveUpdateTarget(job);
+
+    if (targetNovelId && !job.reviewConfirmed) {
+      const plan = await planNovelUpdate(targetNovelId, parsed);
+      await pauseImportJob(job.id, "review", parsed.warnings, { updatePlan: plan });
+      return;
+    }
+
+    const duplicate =
+      !targetNovelId && !job.allowDuplicate
+        ? await findDuplicateNovel(job.userId, parsed)
+        : null;
+
+    if (duplicate) {
+      await pauseImportJob(job.id, "duplicate", parsed.warnings, {
+        duplicateOfNovelId: duplicate.id,
+      });
+      return;
+    }
+
+    // New files are previewed so the user can edit the metadata and chapter list
+    if (!targetNovelId && result.format && !job.reviewConfirmed) {
+      await pauseImportJob(job.id, "review", parsed.warnings, {
+        preview: buildImportPreview(result, parseOptions),
+      });
+      return;
+    }
+
+    if (job.selection) {
+      parsed = applyImportSelection(parsed, job.selection as ImportSelection);
+    }
+
+    // Uploads were checked by size when queued; a small file can hold far more
+    await assertRoomForChapters(
+      job.userId,
+      parsed,
+      targetNovelId ? { novelId: targetNovelId, replacesChapters: true } : null
+    );
+
+    await report("writing", 0, parsed.chapters.length, true);
+    let written = 0;
+    const onProgress = (current: number, total: number) => {
+      written = current;
+      return report("writing", current, total);
+    };
+    // Image uploads only keep the job fresh, so a slow one isn't taken for a dead worker
+    const onAssetProgress = () => report("writing", written, parsed.chapters.length);
+    let novelId: string;
+    let updatePlan: NovelUpdateSummary | undefined;
+
+    if (targetNovelId) {
+      updatePlan = await applyNovelUpdate(targetNovelId, parsed, {
+        removeMissing: job.removeMissing,
+        onProgress,
+        onAssetProgress,
+      });
+      novelId = targetNovelId;
+    } else {
+      novelId = (await saveParsedNovel(job.userId, parsed, { onProgress, onAssetProgress })).id;
+    }
+
+    // Novels imported by URL keep checking that URL for new chapters
+    if ("source" in result && result.source) {
+      await followNovelSource(novelId, result.source);
+    } else if (job.storageKey) {
+      await keepOriginalFile(novelId, job.storageKey, job.filename);
+    }
+
+    await prisma.importJob.update({
+      where: { id: job.id },
+      data: {
+        status: "succeeded",
+        stage: "done",
+        progress: 100,
+        novelId,
+        updatePlan,
+        warnings: parsed.warnings.length ? parsed.warnings : undefined,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const cancelled = error instanceof ImportCancelledError;
+    if (!cancelled) {
+      console.error(`Import job ${job.id} failed:`, error);
+    }
+    await prisma.importJob.update({
+      where: { id: job.id },
+      data: {
+        status: cancelled ? "cancelled" : "failed",
+        error: cancelled
+          ? null
+          : error instanceof Error
+            ? error.message
+            : "Import failed. Please try again.",
+        finishedAt: new Date(),
+      },
+    });
+  }
+}
+
+/** Atomically moves the oldest queued job to running; safe with several workers. */
+export async function claimNextImportJob() {
+  for (;;) {
+    const candidate = await prisma.importJob.findFirst({
+      where: { status: "queued" },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        userId: true,
+        filename: true,
+        storageKey: true,
+        sourceUrl: true,
+        targetNovelId: true,
+        parseOptions: true,
+        selection: true,
+        reviewConfirmed: true,
+        removeMissing: true,
+        allowDuplicate: true,
+      },
+    });
+    if (!candidate) return null;
+
+    const claimed = await prisma.importJob.updateMany({
+      where: { id: candidate.id, status: "queued" },
+      data: {
+        status: "running",
+        stage: "downloading",
+        startedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+    if (claimed.count === 1) return candidate;
+  }
+}
+
+export async function failStaleImportJobs() {
+  await prisma.importJob.updateMany({
+    where: {
+      status: "running",
+      updatedAt: { lt: new Date(Date.now() - STALE_JOB_MS) },
+    },
+    data: {
+      status: "failed",
+      error: "The import worker stopped before finishing. Retry to start again.",
+      finishedAt: new Date(),
+    },
+  });
+}
+
+type WorkerState = {
+  running: boolean;
+  wake?: () => void;
+};
+
+const globalForWorker = globalThis as unknown as {
+  importWorker?: WorkerState;
+};
+
+/**
+ * Processes queued jobs, and update checks for followed novels and the
+ * upload sweep in between, until `shouldStop` returns true. Used both by the
+ * in-process worker and by the standalone `npm run worker` entrypoint.
+ */
+export async function runImportWorkerLoop(shouldStop: () => boolean = () => false) {
+  const state = (globalForWorker.importWorker ??= { running: true });
+  state.running = true;
+
+  let nextStaleSweep = 0;
+  let nextSourcePoll = 0;
+  let nextUploadSweep = 0;
+  // New originals are sized when kept, so older ones only need measuring once
+  let originalsMeasured = false;
+
+  while (!shouldStop()) {
+    // Checked between jobs too: a job orphaned just before a restart only
+    // becomes stale some minutes after this worker started
+    if (Date.now() >= nextStaleSweep) {
+      nextStaleSweep = Date.now() + STALE_SWEEP_INTERVAL_MS;
+      await failStaleImportJobs().catch((error) =>
+        console.error("Failed to recover stale import jobs:", error)
+      );
+    }
+
+    try {
+      const job = await claimNextImportJob();
+      if (job) {
+        await runImportJob(job);
+        continue;
+      }
+
+      // Followed novels are checked one at a time whenever the queue is empty
+      if (Date.now() >= nextSourcePoll) {
+        if (await checkNextDueSource()) continue;
+        nextSourcePoll = Date.now() + SOURCE_POLL_INTERVAL_MS;
+      }
+
+      if (!originalsMeasured) {
+        if (await measureUnsizedOriginals()) continue;
+        originalsMeasured = true;
+      }
+
+      if (Date.now() >= nextUploadSweep) {
+        nextUploadSweep = Date.now() + UPLOAD_SWEEP_INTERVAL_MS;
+        await sweepAbandonedUploads();
+      }
+    } catch (error) {
+      console.error("Import worker error:", error);
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+      state.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    state.wake = undefined;
+  }
+
+  state.running = false;
+}
+
+/** Nudges the worker after a job is queued, starting it in-process if needed. */
+export function wakeImportWorker() {
+  const state = globalForWorker.importWorker;
+  if (state?.running) {
+    state.wake?.();
+    return;
+  }
+
+  // IMPORT_WORKER=external leaves jobs to `npm run worker`
+  if (process.env.IMPORT_WORKER === "external") return;
+
+  void runImportWorkerLoop();
+}
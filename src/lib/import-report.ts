@@ -0,0 +1,51 @@
+export type ImportWarningCode =
+  | "missing-resource"
+  | "missing-chapter-file"
+  | "unsupported-spine-item"
+  | "skipped-non-linear"
+  | "empty-chapter-dropped"
+  | "front-matter-dropped"
+  | "fallback-title"
+  | "content-recovered"
+  | "no-chapter-headings"
+  | "invalid-characters"
+  | "epub-repaired";
+
+export type ImportWarning = {
+  code: ImportWarningCode;
+  message: string;
+  // Zero-based spine position of the document the warning is about
+  spineIndex?: number;
+  href?: string;
+};
+
+export const IMPORT_WARNING_LABELS: Record<ImportWarningCode, string> = {
+  "missing-resource": "Missing image",
+  "missing-chapter-file": "Missing chapter file",
+  "unsupported-spine-item": "Unsupported spine item",
+  "skipped-non-linear": "Skipped non-linear item",
+  "empty-chapter-dropped": "Empty chapter dropped",
+  "front-matter-dropped": "Front matter dropped",
+  "fallback-title": "Fallback title used",
+  "content-recovered": "Content recovered",
+  "no-chapter-headings": "No chapter headings",
+  "invalid-characters": "Unreadable characters",
+  "epub-repaired": "EPUB repaired",
+};
+
+export function isImportWarningList(value: unknown): value is ImportWarning[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (warning) =>
+        typeof warning === "object" &&
+        warning !== null &&
+        typeof (warning as ImportWarning).code === "string" &&
+        typeof (warning as ImportWarning).message === "string"
+    )
+  );
+}
+
+export function formatWarningCount(count: number): string {
+  return `${count} warning${count === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,134 @@
+import { load } from "cheerio";
+import { parseEpub, type ParsedEpub, type ParseEpubOptions } from "@/lib/epub";
+import { parseTxt } from "@/lib/txt";
+import { parseFb2 } from "@/lib/fb2";
+import { parseMobi } from "@/lib/mobi";
+import { parseCbz } from "@/lib/cbz";
+import { ASSET_REF_PREFIX } from "@/lib/assets";
+import type { TocEntry } from "@/lib/toc";
+import {
+  DEFAULT_TXT_HEADINGS,
+  detectImportFormat,
+  type ImportFormat,
+  type ImportParseOptions,
+  type ImportPreview,
+  type ImportSelection,
+  type TxtEncoding,
+} from "@/lib/import-formats";
+
+const EXCERPT_LENGTH = 160;
+
+export type ParsedImport = {
+  format: ImportFormat;
+  parsed: ParsedEpub;
+  encoding?: TxtEncoding;
+};
+
+/** Parses an uploaded file with the importer matching its name. */
+export async function parseImportFile(
+  buffer: Buffer,
+  filename: string,
+  options: ImportParseOptions & ParseEpubOptions = {}
+): Promise<ParsedImport> {
+  // Trust the magic bytes if the name says nothing: EPUBs are zip files, FB2
+  // is XML with a FictionBook root and MOBI is a Palm database of type BOOKMOBI
+  const head = buffer.subarray(0, 512).toString("latin1");
+  const format =
+    detectImportFormat(filename) ??
+    (head.startsWith("PK")
+      ? "epub"
+      : head.includes("<FictionBook")
+        ? "fb2"
+        : head.slice(60, 68) === "BOOKMOBI"
+          ? "mobi"
+          : null);
+
+  switch (format) {
+    case "epub":
+      return { format, parsed: await parseEpub(buffer, filename, options) };
+    case "txt": {
+      const { encoding, ...parsed } = await parseTxt(buffer, filename, options);
+      return { format, parsed, encoding };
+    }
+    case "fb2":
+      return { format, parsed: await parseFb2(buffer, filename, options) };
+    case "mobi":
+      return { format, parsed: await parseMobi(buffer, filename, options) };
+    case "cbz":
+      return { format, parsed: await parseCbz(buffer, filename, options) };
+    default:
+      throw new Error("Unsupported file type. Upload an EPUB, MOBI, AZW3, FB2, CBZ or TXT file.");
+  }
+}
+
+function previewChapter(chapter: ParsedEpub["chapters"][number]) {
+  const $ = load(chapter.content);
+  const length = $.root().text().length;
+  // The heading repeats the chapter title
+  $("h1, h2, h3").first().remove();
+  const text = $.root().text().replace(/\s+/g, " ").trim();
+
+  return {
+    title: chapter.title,
+    length,
+    excerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text,
+    isFrontMatter: chapter.isFrontMatter,
+  };
+}
+
+export function buildImportPreview(
+  result: ParsedImport,
+  options: ImportParseOptions
+): ImportPreview {
+  return {
+    format: result.format,
+    title: result.parsed.title,
+    author: result.parsed.author,
+    encoding: result.encoding,
+    options: { ...options, headings: options.headings ?? DEFAULT_TXT_HEADINGS },
+    chapters: result.parsed.chapters.map(previewChapter),
+  };
+}
+
+/** Points TOC entries at the kept chapters; entries left with nothing to open are dropped. */
+function remapToc(entries: TocEntry[], positions: Map<number, number>): TocEntry[] {
+  return entries.flatMap((entry) => {
+    const children = remapToc(entry.children, positions);
+    const chapterIndex =
+      typeof entry.chapterIndex === "number" ? positions.get(entry.chapterIndex) : undefined;
+    if (chapterIndex === undefined && !children.length) return [];
+    return [{ ...entry, chapterIndex, children }];
+  });
+}
+
+/**
+ * Applies the edits made in the preview: drops unticked chapters (and the
+ * images only they used) and overrides the title and author.
+ */
+export function applyImportSelection(parsed: ParsedEpub, selection: ImportSelection): ParsedEpub {
+  const excluded = new Set(selection.excludedChapters ?? []);
+  const positions = new Map<number, number>();
+  const chapters = parsed.chapters.filter((_chapter, index) => {
+    if (excluded.has(index)) return false;
+    positions.set(index, positions.size);
+    return true;
+  });
+
+  if (!chapters.length) {
+    throw new Error("No chapters were selected for import.");
+  }
+
+  const referenced = [parsed.coverImage ?? "", ...chapters.map((chapter) => chapter.content)].join("\n");
+  const assets = parsed.assets.filter((asset) =>
+    referenced.includes(`${ASSET_REF_PREFIX}${asset.hash}`)
+  );
+
+  return {
+    ...parsed,
+    title: selection.title?.trim() || parsed.title,
+    author: selection.author === undefined ? parsed.author : selection.author.trim() || undefined,
+    chapters,
+    toc: remapToc(parsed.toc, positions),
+    assets,
+  };
+}
@@ -0,0 +1,740 @@
+import { createHash } from "crypto";
+import { load, type CheerioAPI } from "cheerio";
+import {
+  normalizeIdentifier,
+  type ParsedAsset,
+  type ParsedEpub,
+  type ParseEpubOptions,
+} from "@/lib/epub";
+import type { TocEntry } from "@/lib/toc";
+import type { ImportWarning } from "@/lib/import-report";
+import { assetRef } from "@/lib/assets";
+import { sanitizeChapterHtml } from "@/lib/sanitize";
+import { titleFromFilename } from "@/lib/import-formats";
+
+// Record indexes and offsets in MOBI headers use all ones for "none"
+const NULL_INDEX = 0xffffffff;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PALMDOC = 2;
+const COMPRESSION_HUFFCDIC = 17480;
+
+const EXTH_AUTHOR = 100;
+const EXTH_DESCRIPTION = 103;
+const EXTH_ISBN = 104;
+const EXTH_ASIN = 113;
+const EXTH_KF8_BOUNDARY = 121;
+const EXTH_COVER_OFFSET = 201;
+const EXTH_UPDATED_TITLE = 503;
+
+type PdbRecords = {
+  count: number;
+  get: (index: number) => Buffer;
+};
+
+type MobiHeader = {
+  // Record index of the header; every other index in it is relative to this
+  start: number;
+  compression: number;
+  textLength: number;
+  textRecordCount: number;
+  encryption: number;
+  version: number;
+  encoding: string;
+  fullName?: string;
+  firstResource: number;
+  huffRecord: number;
+  huffCount: number;
+  extraDataFlags: number;
+  fdstIndex: number;
+  ncxIndex: number;
+  skeletonIndex: number;
+  fragmentIndex: number;
+  exth: Map<number, Buffer[]>;
+};
+
+type IndexEntry = {
+  text: Buffer;
+  tags: Map<number, number[]>;
+};
+
+// A chapter-sized slice of the text: a KF8 skeleton with its fragments
+// inserted, or the text between two MOBI pagebreaks
+type TextPart = {
+  start: number;
+  end: number;
+  html: Buffer;
+};
+
+type NcxEntry = {
+  title: string;
+  position: number;
+  depth: number;
+};
+
+function readPdb(buffer: Buffer): PdbRecords & { type: string } {
+  if (buffer.length < 78) {
+    throw new Error("Invalid MOBI file: the file is too short.");
+  }
+
+  const count = buffer.readUInt16BE(76);
+  const offsets: number[] = [];
+  for (let index = 0; index < count; index += 1) {
+    offsets.push(buffer.readUInt32BE(78 + index * 8));
+  }
+
+  return {
+    type: buffer.toString("latin1", 60, 68),
+    count,
+    get: (index) => {
+      if (index < 0 || index >= count) {
+        throw new Error(`Invalid MOBI file: record ${index} does not exist.`);
+      }
+      return buffer.subarray(offsets[index], index + 1 < count ? offsets[index + 1] : buffer.length);
+    },
+  };
+}
+
+function readExth(data: Buffer, offset: number): Map<number, Buffer[]> {
+  const records = new Map<number, Buffer[]>();
+  if (data.toString("latin1", offset, offset + 4) !== "EXTH") return records;
+
+  const count = data.readUInt32BE(offset + 8);
+  let position = offset + 12;
+  for (let index = 0; index < count && position + 8 <= data.length; index += 1) {
+    const type = data.readUInt32BE(position);
+    const length = data.readUInt32BE(position + 4);
+    if (length < 8) break;
+    const values = records.get(type) ?? [];
+    values.push(data.subarray(position + 8, position + length));
+    records.set(type, values);
+    position += length;
+  }
+  return records;
+}
+
+function readMobiHeader(records: PdbRecords, start: number): MobiHeader {
+  const data = records.get(start);
+  if (data.toString("latin1", 16, 20) !== "MOBI") {
+    throw new Error("Invalid MOBI file: missing MOBI header.");
+  }
+
+  const headerLength = data.readUInt32BE(20);
+  const headerEnd = Math.min(16 + headerLength, data.length);
+  // Older writers emit shorter headers; fields past the end are absent
+  const field = (offset: number) => (offset + 4 <= headerEnd ? data.readUInt32BE(offset) : NULL_INDEX);
+
+  const version = field(0x24);
+  const isKf8 = version >= 8 && version !== NULL_INDEX;
+  const nameOffset = field(0x54);
+  const nameLength = field(0x58);
+  const encoding = field(0x1c) === 65001 ? "utf-8" : "windows-1252";
+
+  return {
+    start,
+    compression: data.readUInt16BE(0),
+    textLength: data.readUInt32BE(4),
+    textRecordCount: data.readUInt16BE(8),
+    encryption: data.readUInt16BE(12),
+    version,
+    encoding,
+    fullName:
+      nameOffset !== NULL_INDEX && nameOffset + nameLength <= data.length
+        ? new TextDecoder(encoding).decode(data.subarray(nameOffset, nameOffset + nameLength))
+        : undefined,
+    firstResource: field(0x6c),
+    huffRecord: field(0x70),
+    huffCount: field(0x74),
+    extraDataFlags: headerLength >= 0xe4 && version >= 5 ? data.readUInt16BE(0xf2) : 0,
+    fdstIndex: isKf8 ? field(0xc0) : NULL_INDEX,
+    ncxIndex: field(0xf4),
+    fragmentIndex: isKf8 ? field(0xf8) : NULL_INDEX,
+    skeletonIndex: isKf8 ? field(0xfc) : NULL_INDEX,
+    exth: field(0x80) & 0x40 ? readExth(data, 16 + headerLength) : new Map(),
+  };
+}
+
+function decompressPalmDoc(data: Buffer): Buffer {
+  // Each input byte expands to at most a few output bytes
+  const output = Buffer.alloc(data.length * 8);
+  let written = 0;
+  let index = 0;
+
+  while (index < data.length) {
+    const byte = data[index++];
+    if (byte >= 1 && byte <= 8) {
+      data.copy(output, written, index, index + byte);
+      written += Math.min(byte, data.length - index);
+      index += byte;
+    } else if (byte < 0x80) {
+      output[written++] = byte;
+    } else if (byte >= 0xc0) {
+      output[written++] = 0x20;
+      output[written++] = byte ^ 0x80;
+    } else {
+      const pair = (byte << 8) | data[index++];
+      const distance = (pair >> 3) & 0x7ff;
+      const length = (pair & 7) + 3;
+      if (distance < 1 || distance > written) {
+        throw new Error("Invalid MOBI file: corrupt compressed text.");
+      }
+      for (let copied = 0; copied < length; copied += 1) {
+        output[written] = output[written - distance];
+        written += 1;
+      }
+    }
+  }
+
+  return output.subarray(0, written);
+}
+
+function createHuffCdicDecoder(huff: Buffer, cdics: Buffer[]) {
+  if (huff.toString("latin1", 0, 4) !== "HUFF") {
+    throw new Error("Invalid MOBI file: missing HUFF record.");
+  }
+
+  const codeTableOffset = huff.readUInt32BE(8);
+  const limitTableOffset = huff.readUInt32BE(12);
+
+  const codeTable = Array.from({ length: 256 }, (_, index) => {
+    const value = huff.readUInt32BE(codeTableOffset + index * 4);
+    const codeLength = value & 0x1f;
+    return {
+      codeLength,
+      terminal: (value & 0x80) !== 0,
+      maxCode: ((value >>> 8) + 1) * 2 ** (32 - codeLength) - 1,
+    };
+  });
+
+  const minCodes = [0];
+  const maxCodes = [2 ** 32 - 1];
+  for (let codeLength = 1; codeLength <= 32; codeLength += 1) {
+    const offset = limitTableOffset + (codeLength - 1) * 8;
+    minCodes.push(huff.readUInt32BE(offset) * 2 ** (32 - codeLength));
+    maxCodes.push((huff.readUInt32BE(offset + 4) + 1) * 2 ** (32 - codeLength) - 1);
+  }
+
+  const dictionary: { data: Buffer; expanded: boolean; expanding?: boolean }[] = [];
+  for (const cdic of cdics) {
+    if (cdic.toString("latin1", 0, 4) !== "CDIC") {
+      throw new Error("Invalid MOBI file: missing CDIC record.");
+    }
+    const phrases = cdic.readUInt32BE(8);
+    const bits = cdic.readUInt32BE(12);
+    const count = Math.min(2 ** bits, phrases - dictionary.length);
+    for (let index = 0; index < count; index += 1) {
+      const offset = 16 + cdic.readUInt16BE(16 + index * 2);
+      const length = cdic.readUInt16BE(offset);
+      dictionary.push({
+        data: cdic.subarray(offset + 2, offset + 2 + (length & 0x7fff)),
+        expanded: (length & 0x8000) !== 0,
+      });
+    }
+  }
+
+  const unpack = (input: Buffer): Buffer => {
+    const data = Buffer.concat([input, Buffer.alloc(8)]);
+    const output: Buffer[] = [];
+    let bitsLeft = input.length * 8;
+    let position = 0;
+    let shift = 32;
+
+    for (;;) {
+      if (shift <= 0) {
+        position += 4;
+        shift += 32;
+      }
+      // The next 32 bits of the stream, `shift` bits into the 64-bit window
+      const high = data.readUInt32BE(position);
+      const low = data.readUInt32BE(position + 4);
+      const code = shift === 32 ? high : ((high << (32 - shift)) | (low >>> shift)) >>> 0;
+
+      let { codeLength, maxCode } = codeTable[code >>> 24];
+      if (!codeTable[code >>> 24].terminal) {
+        while (code < minCodes[codeLength]) codeLength += 1;
+        maxCode = maxCodes[codeLength];
+      }
+
+      shift -= codeLength;
+      bitsLeft -= codeLength;
+      if (bitsLeft < 0) break;
+
+      const entry = dictionary[Math.floor((maxCode - code) / 2 ** (32 - codeLength))];
+      if (!entry || entry.expanding) {
+        throw new Error("Invalid MOBI file: corrupt compressed text.");
+      }
+      if (!entry.expanded) {
+        entry.expanding = true;
+        entry.data = unpack(entry.data);
+        entry.expanded = true;
+        entry.expanding = false;
+      }
+      output.push(entry.data);
+    }
+
+    return Buffer.concat(output);
+  };
+
+  return unpack;
+}
+
+// Text records can end with extra data (multibyte overlap, indexing hints)
+// that is not part of the text; the header flags say which kinds are present
+function trimTrailingEntries(data: Buffer, flags: number): Buffer {
+  let end = data.length;
+
+  for (let bit = 1; bit < 16; bit += 1) {
+    if (!(flags & (1 << bit))) continue;
+    let size = 0;
+    for (let index = Math.max(0, end - 4); index < end; index += 1) {
+      if (data[index] & 0x80) size = 0;
+      size = (size << 7) | (data[index] & 0x7f);
+    }
+    end -= size;
+  }
+  if (flags & 1 && end > 0) {
+    end -= (data[end - 1] & 3) + 1;
+  }
+
+  return data.subarray(0, Math.max(0, end));
+}
+
+function readText(records: PdbRecords, header: MobiHeader): Buffer {
+  let decompress: (data: Buffer) => Buffer;
+
+  switch (header.compression) {
+    case COMPRESSION_NONE:
+      decompress = (data) => data;
+      break;
+    case COMPRESSION_PALMDOC:
+      decompress = decompressPalmDoc;
+      break;
+    case COMPRESSION_HUFFCDIC: {
+      const huffStart = header.start + header.huffRecord;
+      const cdics = Array.from({ length: header.huffCount - 1 }, (_, index) =>
+        records.get(huffStart + 1 + index)
+      );
+      decompress = createHuffCdicDecoder(records.get(huffStart), cdics);
+      break;
+    }
+    default:
+      throw new Error(`Unsupported MOBI compression type ${header.compression}.`);
+  }
+
+  const chunks: Buffer[] = [];
+  for (let index = 1; index <= header.textRecordCount; index += 1) {
+    const record = records.get(header.start + index);
+    chunks.push(decompress(trimTrailingEntries(record, header.extraDataFlags)));
+  }
+
+  return Buffer.concat(chunks).subarray(0, header.textLength);
+}
+
+function readVariableWidth(data: Buffer, offset: number): [consumed: number, value: number] {
+  let value = 0;
+  let consumed = 0;
+  for (;;) {
+    const byte = data[offset + consumed];
+    consumed += 1;
+    value = value * 128 + (byte & 0x7f);
+    if (byte & 0x80 || offset + consumed >= data.length) break;
+  }
+  return [consumed, value];
+}
+
+const countSetBits = (value: number) => {
+  let count = 0;
+  for (let bits = value; bits; bits >>= 1) count += bits & 1;
+  return count;
+};
+
+function readIndexTags(
+  data: Buffer,
+  start: number,
+  end: number,
+  controlByteCount: number,
+  tagTable: [tag: number, valuesPerEntry: number, mask: number, endFlag: number][]
+): Map<number, number[]> {
+  const found: { tag: number; valueCount?: number; valueBytes?: number; valuesPerEntry: number }[] = [];
+  let controlByteIndex = 0;
+  let position = start + controlByteCount;
+
+  for (const [tag, valuesPerEntry, mask, endFlag] of tagTable) {
+    if (endFlag === 1) {
+      controlByteIndex += 1;
+      continue;
+    }
+    let value = data[start + controlByteIndex] & mask;
+    if (value === 0) continue;
+
+    if (value === mask && countSetBits(mask) > 1) {
+      // All mask bits set: a byte count for the values follows the control bytes
+      const [consumed, valueBytes] = readVariableWidth(data, position);
+      position += consumed;
+      found.push({ tag, valueBytes, valuesPerEntry });
+    } else {
+      let shiftedMask = mask;
+      while (!(shiftedMask & 1)) {
+        shiftedMask >>= 1;
+        value >>= 1;
+      }
+      found.push({ tag, valueCount: value, valuesPerEntry });
+    }
+  }
+
+  const tags = new Map<number, number[]>();
+  for (const { tag, valueCount, valueBytes, valuesPerEntry } of found) {
+    const values: number[] = [];
+    if (valueCount !== undefined) {
+      for (let index = 0; index < valueCount * valuesPerEntry && position < end; index += 1) {
+        const [consumed, value] = readVariableWidth(data, position);
+        position += consumed;
+        values.push(value);
+      }
+    } else {
+      let consumedTotal = 0;
+      while (consumedTotal < (valueBytes ?? 0) && position < end) {
+        const [consumed, value] = readVariableWidth(data, position);
+        position += consumed;
+        consumedTotal += consumed;
+        values.push(value);
+      }
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+}
+
+/**
+ * Reads an INDX table: a header record describing the tag layout, followed
+ * by entry records and CNCX records holding the strings entries point to.
+ */
+function readIndex(
+  records: PdbRecords,
+  index: number
+): { entries: IndexEntry[]; strings: Map<number, Buffer> } {
+  const header = records.get(index);
+  if (header.toString("latin1", 0, 4) !== "INDX") {
+    throw new Error("Invalid MOBI file: missing index record.");
+  }
+
+  const headerLength = header.readUInt32BE(4);
+  const entryRecordCount = header.readUInt32BE(24);
+  const stringRecordCount = header.readUInt32BE(52);
+
+  const strings = new Map<number, Buffer>();
+  for (let recordIndex = 0; recordIndex < stringRecordCount; recordIndex += 1) {
+    const data = records.get(index + entryRecordCount + 1 + recordIndex);
+    let offset = 0;
+    while (offset < data.length && data[offset] !== 0) {
+      const [consumed, length] = readVariableWidth(data, offset);
+      strings.set(recordIndex * 0x10000 + offset, data.subarray(offset + consumed, offset + consumed + length));
+      offset += consumed + length;
+    }
+  }
+
+  let controlByteCount = 0;
+  const tagTable: [number, number, number, number][] = [];
+  if (header.toString("latin1", headerLength, headerLength + 4) === "TAGX") {
+    const firstEntryOffset = header.readUInt32BE(headerLength + 4);
+    controlByteCount = header.readUInt32BE(headerLength + 8);
+    for (let offset = 12; offset < firstEntryOffset; offset += 4) {
+      const position = headerLength + offset;
+      tagTable.push([header[position], header[position + 1], header[position + 2], header[position + 3]]);
+    }
+  }
+
+  const entries: IndexEntry[] = [];
+  for (let recordIndex = 1; recordIndex <= entryRecordCount; recordIndex += 1) {
+    const data = records.get(index + recordIndex);
+    const idxtOffset = data.readUInt32BE(20);
+    const entryCount = data.readUInt32BE(24);
+    const positions = Array.from({ length: entryCount }, (_, entry) =>
+      data.readUInt16BE(idxtOffset + 4 + entry * 2)
+    );
+    positions.push(idxtOffset);
+
+    for (let entry = 0; entry < entryCount; entry += 1) {
+      const start = positions[entry];
+      const textLength = data[start];
+      entries.push({
+        text: data.subarray(start + 1, start + 1 + textLength),
+        tags: readIndexTags(data, start + 1 + textLength, positions[entry + 1], controlByteCount, tagTable),
+      });
+    }
+  }
+
+  return { entries, strings };
+}
+
+/** Rebuilds the KF8 XHTML files by inserting each fragment into its skeleton. */
+function readKf8Parts(records: PdbRecords, header: MobiHeader, text: Buffer): TextPart[] {
+  let flow = text;
+  if (header.fdstIndex !== NULL_INDEX) {
+    const fdst = records.get(header.start + header.fdstIndex);
+    // Flow 0 is the book's markup; later flows hold CSS and SVG
+    if (fdst.toString("latin1", 0, 4) === "FDST" && fdst.readUInt32BE(8) > 0) {
+      flow = text.subarray(fdst.readUInt32BE(12), fdst.readUInt32BE(16));
+    }
+  }
+
+  const skeletons = readIndex(records, header.start + header.skeletonIndex).entries;
+  const fragments = readIndex(records, header.start + header.fragmentIndex).entries;
+
+  const parts: TextPart[] = [];
+  let fragmentIndex = 0;
+  for (const skeleton of skeletons) {
+    const fragmentCount = skeleton.tags.get(1)?.[0] ?? 0;
+    const [start, length] = skeleton.tags.get(6) ?? [0, 0];
+    let html = flow.subarray(start, start + length);
+    let position = start + length;
+
+    for (let count = 0; count < fragmentCount && fragmentIndex < fragments.length; count += 1) {
+      const fragment = fragments[fragmentIndex++];
+      const insertAt = Number.parseInt(fragment.text.toString("latin1"), 10) - start;
+      const fragmentLength = fragment.tags.get(6)?.[1] ?? 0;
+      const slice = flow.subarray(position, position + fragmentLength);
+      html = Buffer.concat([html.subarray(0, insertAt), slice, html.subarray(insertAt)]);
+      position += fragmentLength;
+    }
+
+    parts.push({ start, end: position, html });
+  }
+  return parts;
+}
+
+function readMobi7Parts(text: Buffer): TextPart[] {
+  // Offsets into the latin1 view are byte offsets into the text
+  const view = text.toString("latin1");
+  const breaks = Array.from(view.matchAll(/<mbp:pagebreak[^>]*>/gi));
+  const parts: TextPart[] = [];
+  let start = 0;
+
+  for (const pageBreak of breaks) {
+    parts.push({ start, end: pageBreak.index ?? 0, html: text.subarray(start, pageBreak.index) });
+    start = (pageBreak.index ?? 0) + pageBreak[0].length;
+  }
+  parts.push({ start, end: text.length, html: text.subarray(start) });
+  return parts;
+}
+
+function readNcx(records: PdbRecords, header: MobiHeader): NcxEntry[] {
+  if (header.ncxIndex === NULL_INDEX) return [];
+
+  const decoder = new TextDecoder(header.encoding);
+  const { entries, strings } = readIndex(records, header.start + header.ncxIndex);
+  return entries.flatMap((entry) => {
+    const position = entry.tags.get(1)?.[0];
+    const label = strings.get(entry.tags.get(3)?.[0] ?? -1);
+    if (position === undefined || !label) return [];
+    return [
+      {
+        title: decoder.decode(label).replace(/\s+/g, " ").trim(),
+        position,
+        depth: entry.tags.get(4)?.[0] ?? 0,
+      },
+    ];
+  });
+}
+
+const detectImageType = (data: Buffer): string | null => {
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  if (data.toString("latin1", 1, 4) === "PNG") return "image/png";
+  if (data.toString("latin1", 0, 3) === "GIF") return "image/gif";
+  if (data.toString("latin1", 0, 2) === "BM") return "image/bmp";
+  return null;
+};
+
+const hasReadableContent = ($: CheerioAPI) =>
+  $("body").text().trim().length > 0 || $("body img").length > 0;
+
+/**
+ * Reads a Kindle MOBI or AZW3 (KF8) file into the same shape as an EPUB.
+ * KF8 books are split into their original XHTML files, older MOBI books at
+ * page breaks; NCX index entries name the chapters and build the TOC.
+ */
+export async function parseMobi(
+  buffer: Buffer,
+  fallbackTitle: string,
+  options: ParseEpubOptions = {}
+): Promise<ParsedEpub> {
+  if (buffer.toString("latin1", 0, 3) === "TPZ") {
+    throw new Error("Topaz books are not supported. Import a MOBI, AZW3 or EPUB copy instead.");
+  }
+
+  const records = readPdb(buffer);
+  if (records.type !== "BOOKMOBI") {
+    throw new Error("Invalid MOBI file: not a Mobipocket book.");
+  }
+
+  const primary = readMobiHeader(records, 0);
+  if (primary.encryption !== 0) {
+    throw new Error("This book is DRM-protected and cannot be imported.");
+  }
+
+  // Combined files carry an old-style MOBI book followed by a KF8 one
+  let header = primary;
+  const boundary = primary.exth.get(EXTH_KF8_BOUNDARY)?.[0];
+  if (primary.version < 8 && boundary && boundary.length >= 4) {
+    const kf8Start = boundary.readUInt32BE(0);
+    if (kf8Start !== NULL_INDEX && kf8Start < records.count) {
+      header = readMobiHeader(records, kf8Start);
+    }
+  }
+  if (header.encryption !== 0) {
+    throw new Error("This book is DRM-protected and cannot be imported.");
+  }
+  const isKf8 = header.skeletonIndex !== NULL_INDEX && header.fragmentIndex !== NULL_INDEX;
+
+  const text = readText(records, header);
+  const parts = isKf8 ? readKf8Parts(records, header, text) : readMobi7Parts(text);
+  const decoder = new TextDecoder(header.encoding);
+
+  const warnings: ImportWarning[] = [];
+  let ncx: NcxEntry[] = [];
+  try {
+    ncx = readNcx(records, header);
+  } catch (error) {
+    console.warn("Failed to read MOBI table of contents:", error);
+  }
+
+  // Images are numbered from the first resource record of the whole file
+  const assets = new Map<string, ParsedAsset>();
+  const resourceRefs = new Map<number, string | null>();
+  const resolveResource = (resourceIndex: number): string | null => {
+    const cached = resourceRefs.get(resourceIndex);
+    if (cached !== undefined) return cached;
+
+    let ref: string | null = null;
+    const recordIndex = primary.firstResource + resourceIndex;
+    if (primary.firstResource !== NULL_INDEX && resourceIndex >= 0 && recordIndex < records.count) {
+      const data = records.get(recordIndex);
+      const mediaType = detectImageType(data);
+      if (mediaType) {
+        const hash = createHash("sha256").update(data).digest("hex");
+        if (!assets.has(hash)) {
+          assets.set(hash, { hash, mediaType, data: Buffer.from(data) });
+        }
+        ref = assetRef(hash);
+      }
+    }
+    resourceRefs.set(resourceIndex, ref);
+    return ref;
+  };
+
+  const partIndexAt = (position: number) => {
+    let found = -1;
+    parts.forEach((part, index) => {
+      if (part.start <= position) found = index;
+    });
+    return found;
+  };
+
+  // The deepest NCX entry at the start of a part names its chapter
+  const ncxTitles = new Map<number, { title: string; position: number }>();
+  for (const entry of ncx) {
+    const partIndex = partIndexAt(entry.position);
+    const current = ncxTitles.get(partIndex);
+    if (!current || current.position === entry.position) {
+      ncxTitles.set(partIndex, { title: entry.title, position: entry.position });
+    }
+  }
+
+  const chapters: ParsedEpub["chapters"] = [];
+  const chapterIndexByPart = new Map<number, number>();
+
+  for (const [partIndex, part] of parts.entries()) {
+    await options.onProgress?.(partIndex, parts.length);
+
+    const $ = load(decoder.decode(part.html));
+    const location = `Part ${partIndex + 1}`;
+
+    const imageSources = isKf8 ? $("img[src^='kindle:embed:']") : $("img[recindex]");
+    imageSources.each((_, element) => {
+      const image = $(element);
+      const source = isKf8 ? image.attr("src") ?? "" : image.attr("recindex") ?? "";
+      // KF8 numbers resources in base 32, old MOBI in decimal; both from 1
+      const resourceIndex = isKf8
+        ? Number.parseInt(source.slice("kindle:embed:".length, "kindle:embed:".length + 4), 32) - 1
+        : Number.parseInt(source, 10) - 1;
+      const ref = resolveResource(resourceIndex);
+      if (ref) {
+        image.attr("src", ref).removeAttr("recindex");
+      } else {
+        warnings.push({
+          code: "missing-resource",
+          message: `${location} references image ${source}, which is not in the file.`,
+        });
+        image.remove();
+      }
+    });
+
+    // Positions in the original file mean nothing once it is split up
+    $("a[filepos]").removeAttr("filepos");
+    $("a[href^='kindle:']").removeAttr("href");
+
+    if (!hasReadableContent($)) continue;
+
+    const heading = $("h1, h2, h3").first().text().replace(/\s+/g, " ").trim();
+    let title = ncxTitles.get(partIndex)?.title || heading;
+    if (!title) {
+      title = `Chapter ${chapters.length + 1}`;
+      warnings.push({
+        code: "fallback-title",
+        message: `${location} has no title; named "${title}".`,
+      });
+    }
+
+    chapterIndexByPart.set(partIndex, chapters.length);
+    chapters.push({ title, content: sanitizeChapterHtml($("body").html() ?? "") });
+  }
+
+  await options.onProgress?.(parts.length, parts.length);
+
+  if (!chapters.length) {
+    throw new Error("No readable text found.");
+  }
+
+  // NCX entries are listed depth-first with their heading level
+  const toc: TocEntry[] = [];
+  const stack: { depth: number; entry: TocEntry }[] = [];
+  for (const item of ncx) {
+    const entry: TocEntry = {
+      title: item.title,
+      chapterIndex: chapterIndexByPart.get(partIndexAt(item.position)),
+      children: [],
+    };
+    while (stack.length && stack[stack.length - 1].depth >= item.depth) stack.pop();
+    if (stack.length) stack[stack.length - 1].entry.children.push(entry);
+    else toc.push(entry);
+    stack.push({ depth: item.depth, entry });
+  }
+
+  const exthText = (type: number) => {
+    const values = header.exth.get(type) ?? primary.exth.get(type) ?? [];
+    return values.map((value) => decoder.decode(value).trim()).filter(Boolean);
+  };
+
+  const rawDescription = exthText(EXTH_DESCRIPTION)[0];
+  const description = rawDescription
+    ? load(rawDescription).root().text().replace(/\s+/g, " ").trim() || undefined
+    : undefined;
+  const rawIdentifier = exthText(EXTH_ISBN)[0] ?? exthText(EXTH_ASIN)[0];
+  const coverOffset = (header.exth.get(EXTH_COVER_OFFSET) ?? primary.exth.get(EXTH_COVER_OFFSET))?.[0];
+
+  return {
+    title: exthText(EXTH_UPDATED_TITLE)[0] || header.fullName?.trim() || titleFromFilename(fallbackTitle),
+    author: exthText(EXTH_AUTHOR).join(", ") || undefined,
+    description,
+    identifier: rawIdentifier ? normalizeIdentifier(rawIdentifier) : undefined,
+    coverImage:
+      coverOffset && coverOffset.length >= 4
+        ? resolveResource(coverOffset.readUInt32BE(0)) ?? undefined
+        : undefined,
+    chapters,
+    // A flat TOC adds nothing over the chapter list itself
+    toc: toc.some((entry) => entry.children.length) ? toc : [],
+    assets: Array.from(assets.values()),
+    warnings,
+  };
+}
@@ -0,0 +1,200 @@
+import { createHash } from "crypto";
+import type { ParsedEpub } from "@/lib/epub";
+import { prisma } from "@/lib/prisma";
+import { assetStorageKey, assetUrl, rewriteAssetRefs } from "@/lib/assets";
+import { deleteObject, putObject, statObject } from "@/lib/storage";
+
+const ASSET_UPLOAD_CONCURRENCY = 8;
+const CHAPTER_BATCH_SIZE = 100;
+// Only the opening chapters are fingerprinted, so a later export of an
+// ongoing series still matches the copy already in the library
+const FINGERPRINT_CHAPTERS = 20;
+
+export type SaveNovelOptions = {
+  // Called after each batch of chapters is written; throwing rolls back
+  onProgress?: (written: number, total: number) => void | Promise<void>;
+  // Called after each batch of images is stored; throwing removes the novel again
+  onAssetProgress?: AssetProgress;
+};
+
+export type AssetProgress = (uploaded: number, total: number) => void | Promise<void>;
+
+/** Hash of a parsed chapter body; insensitive to whitespace-only re-exports. */
+export function chapterContentHash(content: string): string {
+  return createHash("sha256").update(content.replace(/\s+/g, " ").trim()).digest("hex");
+}
+
+// CJK text has no spaces, so each of its characters counts as a word
+const WORD_PATTERN =
+  /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g;
+
+/** Words in a chapter's HTML, ignoring tags and entities. */
+export function chapterWordCount(content: string): number {
+  return content.replace(/<[^>]*>|&[a-zA-Z0-9#]+;/g, " ").match(WORD_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Identifies a book by its opening chapters. Front matter is left out: the
+ * preview unticks it and updates drop it, so it isn't stored consistently.
+ */
+export function chapterListFingerprint(chapters: ParsedEpub["chapters"]): string {
+  const hash = createHash("sha256");
+  const body = chapters.filter((chapter) => !chapter.isFrontMatter);
+  for (const chapter of body.slice(0, FINGERPRINT_CHAPTERS)) {
+    hash.update(chapterContentHash(chapter.content));
+  }
+  return hash.digest("hex");
+}
+
+/** Finds a novel in the user's library that `parsed` is another copy of. */
+export async function findDuplicateNovel(userId: string, parsed: ParsedEpub) {
+  const fingerprint = chapterListFingerprint(parsed.chapters);
+  return prisma.novel.findFirst({
+    where: {
+      userId,
+      OR: [
+        ...(parsed.identifier ? [{ sourceIdentifier: parsed.identifier }] : []),
+        { chapterFingerprint: fingerprint },
+      ],
+    },
+    orderBy: { updatedAt: "desc" },
+    select: { id: true, title: true },
+  });
+}
+
+export async function uploadAssets(
+  novelId: string,
+  assets: ParsedEpub["assets"],
+  onProgress?: AssetProgress
+) {
+  for (let start = 0; start < assets.length; start += ASSET_UPLOAD_CONCURRENCY) {
+    await Promise.all(
+      assets.slice(start, start + ASSET_UPLOAD_CONCURRENCY).map((asset) =>
+        putObject({
+          key: assetStorageKey(novelId, asset.hash),
+          body: asset.data,
+          contentType: asset.mediaType,
+        })
+      )
+    );
+    await onProgress?.(Math.min(start + ASSET_UPLOAD_CONCURRENCY, assets.length), assets.length);
+  }
+}
+
+/**
+ * Creates the novel, its chapters and asset records, then writes the asset
+ * binaries to storage. If storage fails the novel is removed again.
+ */
+export async function saveParsedNovel(
+  userId: string,
+  parsed: ParsedEpub,
+  options: SaveNovelOptions = {}
+) {
+  const novel = await prisma.$transaction(
+    async (tx) => {
+      const novelRecord = await tx.novel.create({
+        data: {
+          title: parsed.title,
+          author: parsed.author,
+          description: parsed.description,
+          sourceIdentifier: parsed.identifier,
+          chapterFingerprint: chapterListFingerprint(parsed.chapters),
+          layout: parsed.layout,
+          toc: parsed.toc.length ? parsed.toc : undefined,
+          importWarnings: parsed.warnings.length ? parsed.warnings : undefined,
+          userId,
+        },
+      });
+
+      const assetRecords = parsed.assets.length
+        ? await tx.asset.createManyAndReturn({
+            data: parsed.assets.map((asset) => ({
+              novelId: novelRecord.id,
+              hash: asset.hash,
+              mediaType: asset.mediaType,
+              size: asset.data.length,
+              storageKey: assetStorageKey(novelRecord.id, asset.hash),
+            })),
+            select: { id: true, hash: true },
+          })
+        : [];
+      const assetIds = new Map(assetRecords.map((asset) => [asset.hash, asset.id]));
+      const resolveAsset = (hash: string) => {
+        const assetId = assetIds.get(hash);
+        return assetId ? assetUrl(novelRecord.id, assetId) : undefined;
+      };
+
+      for (let start = 0; start < parsed.chapters.length; start += CHAPTER_BATCH_SIZE) {
+        await tx.chapter.createMany({
+          data: parsed.chapters.slice(start, start + CHAPTER_BATCH_SIZE).map((chapter, offset) => {
+            const content = rewriteAssetRefs(chapter.content, resolveAsset);
+            return {
+              novelId: novelRecord.id,
+              title: chapter.title,
+              content,
+              size: Buffer.byteLength(content),
+              wordCount: chapterWordCount(content),
+              contentHash: chapterContentHash(chapter.content),
+              position: start + offset,
+            };
+          }),
+        });
+        await options.onProgress?.(
+          Math.min(start + CHAPTER_BATCH_SIZE, parsed.chapters.length),
+          parsed.chapters.length
+        );
+      }
+
+      if (parsed.coverImage) {
+        await tx.novel.update({
+          where: { id: novelRecord.id },
+          data: { coverImage: rewriteAssetRefs(parsed.coverImage, resolveAsset) },
+        });
+      }
+
+      return novelRecord;
+    },
+    {
+      // Large webnovels need longer than the default; this runs in the
+      // import worker, not inside an HTTP request
+      timeout: Math.max(120000, parsed.chapters.length * 250),
+      maxWait: 10000,
+    }
+  );
+
+  try {
+    await uploadAssets(novel.id, parsed.assets, options.onAssetProgress);
+  } catch (error) {
+    await prisma.novel.delete({ where: { id: novel.id } }).catch(() => undefined);
+    await Promise.allSettled(
+      parsed.assets.map((asset) => deleteObject(assetStorageKey(novel.id, asset.hash)))
+    );
+    throw error;
+  }
+
+  return novel;
+}
+
+/** Points the novel at the upload it was built from; a replaced original is deleted. */
+export async function keepOriginalFile(novelId: string, storageKey: string, filename: string) {
+  const previous = await prisma.novel.findUnique({
+    where: { id: novelId },
+    select: { originalStorageKey: true },
+  });
+
+  const stored = await statObject(storageKey);
+  await prisma.novel.update({
+    where: { id: novelId },
+    data: {
+      originalStorageKey: storageKey,
+      originalFilename: filename,
+      originalSize: stored?.size ?? null,
+    },
+  });
+
+  if (previous?.originalStorageKey && previous.originalStorageKey !== storageKey) {
+    await deleteObject(previous.originalStorageKey).catch((error) =>
+      console.warn(`[storage] Failed to remove replaced original for novel ${novelId}:`, error)
+    );
+  }
+}
@@ -0,0 +1,564 @@
+import type { ParsedEpub } from "@/lib/epub";
+import { prisma } from "@/lib/prisma";
+import {
+  assetStorageKey,
+  assetUrl,
+  collectAssetHashes,
+  restoreAssetRefs,
+  rewriteAssetRefs,
+} from "@/lib/assets";
+import { deleteObject } from "@/lib/storage";
+import {
+  chapterContentHash,
+  chapterListFingerprint,
+  chapterWordCount,
+  uploadAssets,
+  type AssetProgress,
+} from "@/lib/novel-import";
+import type { TocEntry } from "@/lib/toc";
+
+export type ChapterChangeKind = "added" | "changed" | "unchanged";
+
+export type ChapterMatch = {
+  kind: ChapterChangeKind;
+  // Existing chapter the incoming one replaces; absent for added chapters
+  chapterId?: string;
+};
+
+export type NovelUpdateSummary = {
+  // Positions are zero-based: incoming chapters use their place in the new
+  // file, removed chapters their current place in the novel
+  added: { position: number; title: string }[];
+  changed: { chapterId: string; position: number; title: string; previousTitle: string }[];
+  removed: { chapterId: string; position: number; title: string }[];
+  unchanged: number;
+};
+
+export type ApplyNovelUpdateOptions = {
+  // Delete chapters that are missing from the new file instead of keeping them
+  removeMissing?: boolean;
+  onProgress?: (written: number, total: number) => void | Promise<void>;
+  onAssetProgress?: AssetProgress;
+};
+
+export type ExistingChapter = {
+  id: string;
+  position: number;
+  title: string;
+  contentHash: string;
+  // The stored row had no hash yet (imported before hashes were recorded)
+  backfilled: boolean;
+};
+
+export type IncomingChapter = {
+  title: string;
+  contentHash: string;
+};
+
+const CHAPTER_BATCH_SIZE = 100;
+
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+/**
+ * Pairs each incoming chapter with at most one existing chapter. An identical
+ * body wins first, then the same TOC position with the same title, then a
+ * title that is unique on both sides, and finally a chapter that sits in the
+ * same slot between the same neighbours (a retitled and edited chapter).
+ * Anything left over is added or removed.
+ */
+export function matchChapters(
+  existing: ExistingChapter[],
+  incoming: IncomingChapter[]
+): ChapterMatch[] {
+  const matches: (ChapterMatch | undefined)[] = new Array(incoming.length);
+  const claimed = new Set<string>();
+
+  const claim = (index: number, chapter: ExistingChapter, sameContent: boolean) => {
+    claimed.add(chapter.id);
+    matches[index] = {
+      chapterId: chapter.id,
+      kind: sameContent && chapter.title === incoming[index].title ? "unchanged" : "changed",
+    };
+  };
+
+  const byHash = new Map<string, ExistingChapter[]>();
+  for (const chapter of existing) {
+    const bucket = byHash.get(chapter.contentHash);
+    if (bucket) bucket.push(chapter);
+    else byHash.set(chapter.contentHash, [chapter]);
+  }
+
+  incoming.forEach((chapter, index) => {
+    const candidate = byHash.get(chapter.contentHash)?.find((entry) => !claimed.has(entry.id));
+    if (candidate) claim(index, candidate, true);
+  });
+
+  incoming.forEach((chapter, index) => {
+    const candidate = existing[index];
+    if (matches[index] || !candidate || claimed.has(candidate.id)) return;
+    if (normalizeTitle(candidate.title) === normalizeTitle(chapter.title)) {
+      claim(index, candidate, false);
+    }
+  });
+
+  const existingByTitle = new Map<string, ExistingChapter[]>();
+  for (const chapter of existing) {
+    if (claimed.has(chapter.id)) continue;
+    const key = normalizeTitle(chapter.title);
+    existingByTitle.set(key, [...(existingByTitle.get(key) ?? []), chapter]);
+  }
+  const incomingTitleCounts = new Map<string, number>();
+  incoming.forEach((chapter, index) => {
+    if (matches[index]) return;
+    const key = normalizeTitle(chapter.title);
+    incomingTitleCounts.set(key, (incomingTitleCounts.get(key) ?? 0) + 1);
+  });
+
+  incoming.forEach((chapter, index) => {
+    if (matches[index]) return;
+    const key = normalizeTitle(chapter.title);
+    const candidates = existingByTitle.get(key);
+    if (key && candidates?.length === 1 && incomingTitleCounts.get(key) === 1) {
+      claim(index, candidates[0], false);
+    }
+  });
+
+  const sameNeighbour = (index: number) =>
+    index < 0 ||
+    (index >= incoming.length && index >= existing.length) ||
+    (matches[index]?.chapterId !== undefined && matches[index]?.chapterId === existing[index]?.id);
+
+  incoming.forEach((_chapter, index) => {
+    const candidate = existing[index];
+    if (matches[index] || !candidate || claimed.has(candidate.id)) return;
+    if (sameNeighbour(index - 1) && sameNeighbour(index + 1)) {
+      claim(index, candidate, false);
+    }
+  });
+
+  return Array.from(matches, (match) => match ?? { kind: "added" as const });
+}
+
+async function loadExistingChapters(novelId: string): Promise<ExistingChapter[]> {
+  const chapters = await prisma.chapter.findMany({
+    where: { novelId },
+    orderBy: { position: "asc" },
+    select: { id: true, position: true, title: true, contentHash: true },
+  });
+
+  const unhashed = chapters.filter((chapter) => !chapter.contentHash).map((chapter) => chapter.id);
+  const backfilled = new Map<string, string>();
+
+  if (unhashed.length) {
+    const assets = await prisma.asset.findMany({
+      where: { novelId },
+      select: { id: true, hash: true },
+    });
+    const hashById = new Map(assets.map((asset) => [asset.id, asset.hash]));
+
+    // Stored HTML points at the asset route; undo that so the hash lines up
+    // with what the parser produces for the same chapter
+    for (let start = 0; start < unhashed.length; start += CHAPTER_BATCH_SIZE) {
+      const rows = await prisma.chapter.findMany({
+        where: { id: { in: unhashed.slice(start, start + CHAPTER_BATCH_SIZE) } },
+        select: { id: true, content: true },
+      });
+      for (const row of rows) {
+        const content = restoreAssetRefs(row.content, novelId, (assetId) => hashById.get(assetId));
+        backfilled.set(row.id, chapterContentHash(content));
+      }
+    }
+  }
+
+  return chapters.map((chapter) => ({
+    id: chapter.id,
+    position: chapter.position,
+    title: chapter.title,
+    contentHash: chapter.contentHash ?? backfilled.get(chapter.id) ?? "",
+    backfilled: !chapter.contentHash,
+  }));
+}
+
+function summarizeUpdate(
+  existing: ExistingChapter[],
+  parsed: ParsedEpub,
+  matches: ChapterMatch[]
+): NovelUpdateSummary {
+  const existingById = new Map(existing.map((chapter) => [chapter.id, chapter]));
+  const matched = new Set(matches.map((match) => match.chapterId));
+  const summary: NovelUpdateSummary = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  matches.forEach((match, index) => {
+    const title = parsed.chapters[index].title;
+    if (match.kind === "added") {
+      summary.added.push({ position: index, title });
+    } else if (match.kind === "changed" && match.chapterId) {
+      summary.changed.push({
+        chapterId: match.chapterId,
+        position: index,
+        title,
+        previousTitle: existingById.get(match.chapterId)?.title ?? title,
+      });
+    } else {
+      summary.unchanged += 1;
+    }
+  });
+
+  for (const chapter of existing) {
+    if (!matched.has(chapter.id)) {
+      summary.removed.push({ chapterId: chapter.id, position: chapter.position, title: chapter.title });
+    }
+  }
+
+  return summary;
+}
+
+async function planChapters(novelId: string, parsed: ParsedEpub) {
+  const existing = await loadExistingChapters(novelId);
+  const matches = matchChapters(
+    existing,
+    parsed.chapters.map((chapter) => ({
+      title: chapter.title,
+      contentHash: chapterContentHash(chapter.content),
+    }))
+  );
+  return { existing, matches };
+}
+
+/** Works out what updating the novel from `parsed` would do, without writing. */
+export async function planNovelUpdate(novelId: string, parsed: ParsedEpub) {
+  const { existing, matches } = await planChapters(novelId, parsed);
+  return summarizeUpdate(existing, parsed, matches);
+}
+
+export type ChapterSlot = { incoming: number } | { kept: ExistingChapter };
+
+/**
+ * Lays out the updated novel: incoming chapters in file order. Chapters
+ * missing from the new file either go, or stay right after the chapter that
+ * preceded them before the update.
+ */
+export function orderUpdatedChapters(
+  existing: ExistingChapter[],
+  matches: ChapterMatch[],
+  removeMissing = false
+): { order: ChapterSlot[]; removed: ExistingChapter[] } {
+  const matched = new Set(matches.map((match) => match.chapterId));
+  const followers = new Map<string | null, ExistingChapter[]>();
+  const removed: ExistingChapter[] = [];
+  let previous: string | null = null;
+  for (const chapter of existing) {
+    if (matched.has(chapter.id)) {
+      previous = chapter.id;
+      continue;
+    }
+    removed.push(chapter);
+    if (!removeMissing) {
+      followers.set(previous, [...(followers.get(previous) ?? []), chapter]);
+    }
+  }
+
+  const order: ChapterSlot[] = (followers.get(null) ?? []).map((kept) => ({ kept }));
+  matches.forEach((match, index) => {
+    order.push({ incoming: index });
+    for (const kept of (match.chapterId && followers.get(match.chapterId)) || []) {
+      order.push({ kept });
+    }
+  });
+  return { order, removed };
+}
+
+/**
+ * Deletes the images nothing in the novel points at any more. Incoming
+ * chapters use the parsed assets; chapters kept from before the update and
+ * the cover are read back to find theirs.
+ */
+async function deleteUnusedAssets(novelId: string, parsed: ParsedEpub, kept: ExistingChapter[]) {
+  const assets = await prisma.asset.findMany({
+    where: { novelId },
+    select: { id: true, hash: true, storageKey: true },
+  });
+  const hashById = new Map(assets.map((asset) => [asset.id, asset.hash]));
+  const resolveHash = (assetId: string) => hashById.get(assetId);
+
+  const used = new Set(parsed.assets.map((asset) => asset.hash));
+  const novel = await prisma.novel.findUnique({
+    where: { id: novelId },
+    select: { coverImage: true },
+  });
+  if (novel?.coverImage) {
+    collectAssetHashes(restoreAssetRefs(novel.coverImage, novelId, resolveHash), used);
+  }
+  for (let start = 0; start < kept.length; start += CHAPTER_BATCH_SIZE) {
+    const rows = await prisma.chapter.findMany({
+      where: { id: { in: kept.slice(start, start + CHAPTER_BATCH_SIZE).map((chapter) => chapter.id) } },
+      select: { content: true },
+    });
+    for (const row of rows) {
+      collectAssetHashes(restoreAssetRefs(row.content, novelId, resolveHash), used);
+    }
+  }
+
+  const unused = assets.filter((asset) => !used.has(asset.hash));
+  if (!unused.length) return;
+  await prisma.asset.deleteMany({ where: { id: { in: unused.map((asset) => asset.id) } } });
+  for (const asset of unused) {
+    await deleteObject(asset.storageKey).catch((error) =>
+      console.warn(`[storage] Failed to remove unused asset ${asset.storageKey}:`, error)
+    );
+  }
+}
+
+/**
+ * Updates a novel in place from a newer export of the same book. Matched
+ * chapters keep their ids (so reading progress and anything else keyed on a
+ * chapter survives), changed ones are rewritten, new ones are inserted in
+ * file order. The plan is recomputed here rather than trusted from the
+ * review step, since the novel may have changed in between.
+ */
+export async function applyNovelUpdate(
+  novelId: string,
+  parsed: ParsedEpub,
+  options: ApplyNovelUpdateOptions = {}
+) {
+  const { existing, matches } = await planChapters(novelId, parsed);
+  const summary = summarizeUpdate(existing, parsed, matches);
+  const existingById = new Map(existing.map((chapter) => [chapter.id, chapter]));
+  const { order, removed } = orderUpdatedChapters(existing, matches, options.removeMissing);
+
+  const incomingPositions: number[] = [];
+  order.forEach((slot, position) => {
+    if ("incoming" in slot) incomingPositions[slot.incoming] = position;
+  });
+
+  // New images go up before any chapter points at them
+  const knownAssets = await prisma.asset.findMany({
+    where: { novelId },
+    select: { id: true, hash: true },
+  });
+  const knownHashes = new Set(knownAssets.map((asset) => asset.hash));
+  const newAssets = parsed.assets.filter((asset) => !knownHashes.has(asset.hash));
+  await uploadAssets(novelId, newAssets, options.onAssetProgress);
+
+  const remapToc = (entries: TocEntry[]): TocEntry[] =>
+    entries.map((entry) => ({
+      title: entry.title,
+      chapterIndex:
+        typeof entry.chapterIndex === "number" ? incomingPositions[entry.chapterIndex] : undefined,
+      children: remapToc(entry.children),
+    }));
+
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        const createdAssets = newAssets.length
+          ? await tx.asset.createManyAndReturn({
+              data: newAssets.map((asset) => ({
+                novelId,
+                hash: asset.hash,
+                mediaType: asset.mediaType,
+                size: asset.data.length,
+                storageKey: assetStorageKey(novelId, asset.hash),
+              })),
+              select: { id: true, hash: true },
+            })
+          : [];
+        const assetIds = new Map(
+          [...knownAssets, ...createdAssets].map((asset) => [asset.hash, asset.id])
+        );
+        const resolveAsset = (hash: string) => {
+          const assetId = assetIds.get(hash);
+          return assetId ? assetUrl(novelId, assetId) : undefined;
+        };
+
+        const added: {
+          title: string;
+          content: string;
+          size: number;
+          wordCount: number;
+          contentHash: string;
+          position: number;
+        }[] = [];
+
+        for (const [position, slot] of order.entries()) {
+          if ("kept" in slot) {
+            if (slot.kept.position !== position) {
+              await tx.chapter.update({ where: { id: slot.kept.id }, data: { position } });
+            }
+          } else {
+            const chapter = parsed.chapters[slot.incoming];
+            const match = matches[slot.incoming];
+            const contentHash = chapterContentHash(chapter.content);
+            const current = match.chapterId ? existingById.get(match.chapterId) : undefined;
+
+            if (!current) {
+              const content = rewriteAssetRefs(chapter.content, resolveAsset);
+              added.push({
+                title: chapter.title,
+                content,
+                size: Buffer.byteLength(content),
+                wordCount: chapterWordCount(content),
+                contentHash,
+                position,
+              });
+            } else if (match.kind === "changed") {
+              const content = rewriteAssetRefs(chapter.content, resolveAsset);
+              await tx.chapter.update({
+                where: { id: current.id },
+                data: {
+                  title: chapter.title,
+                  content,
+                  size: Buffer.byteLength(content),
+                  wordCount: chapterWordCount(content),
+                  contentHash,
+                  position,
+                },
+              });
+            } else if (current.position !== position || current.backfilled) {
+              await tx.chapter.update({
+                where: { id: current.id },
+                data: { position, contentHash },
+              });
+            }
+          }
+
+          if ((position + 1) % CHAPTER_BATCH_SIZE === 0) {
+            await options.onProgress?.(position + 1, order.length);
+          }
+        }
+
+        for (let start = 0; start < added.length; start += CHAPTER_BATCH_SIZE) {
+          await tx.chapter.createMany({
+            data: added
+              .slice(start, start + CHAPTER_BATCH_SIZE)
+              .map((chapter) => ({ ...chapter, novelId })),
+          });
+        }
+
+        if (options.removeMissing && removed.length) {
+          // lastReadChapterId falls back to null for a deleted chapter
+          await tx.chapter.deleteMany({
+            where: { novelId, id: { in: removed.map((chapter) => chapter.id) } },
+          });
+        }
+
+        await tx.novel.update({
+          where: { id: novelId },
+          data: {
+            toc: parsed.toc.length ? remapToc(parsed.toc) : undefined,
+            sourceIdentifier: parsed.identifier,
+            chapterFingerprint: chapterListFingerprint(parsed.chapters),
+            importWarnings: parsed.warnings,
+            coverImage: parsed.coverImage
+              ? rewriteAssetRefs(parsed.coverImage, resolveAsset)
+              : undefined,
+          },
+        });
+
+        await options.onProgress?.(order.length, order.length);
+      },
+      {
+        timeout: Math.max(120000, order.length * 250),
+        maxWait: 10000,
+      }
+    );
+  } catch (error) {
+    await Promise.allSettled(
+      newAssets.map((asset) => deleteObject(assetStorageKey(novelId, asset.hash)))
+    );
+    throw error;
+  }
+
+  const kept = order.flatMap((slot) => ("kept" in slot ? [slot.kept] : []));
+  await deleteUnusedAssets(novelId, parsed, kept).catch((error) =>
+    console.warn(`[storage] Failed to clean up images of novel ${novelId}:`, error)
+  );
+
+  return summary;
+}
+
+/**
+ * Adds chapters after the novel's last one without touching anything already
+ * stored. Used when a followed serial publishes new chapters.
+ */
+export async function appendNovelChapters(
+  novelId: string,
+  incoming: Pick<ParsedEpub, "chapters" | "assets">
+) {
+  if (!incoming.chapters.length) return 0;
+
+  const knownAssets = await prisma.asset.findMany({
+    where: { novelId },
+    select: { id: true, hash: true },
+  });
+  const knownHashes = new Set(knownAssets.map((asset) => asset.hash));
+  const newAssets = incoming.assets.filter((asset) => !knownHashes.has(asset.hash));
+  await uploadAssets(novelId, newAssets);
+
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        const createdAssets = newAssets.length
+          ? await tx.asset.createManyAndReturn({
+              data: newAssets.map((asset) => ({
+                novelId,
+                hash: asset.hash,
+                mediaType: asset.mediaType,
+                size: asset.data.length,
+                storageKey: assetStorageKey(novelId, asset.hash),
+              })),
+              select: { id: true, hash: true },
+            })
+          : [];
+        const assetIds = new Map(
+          [...knownAssets, ...createdAssets].map((asset) => [asset.hash, asset.id])
+        );
+        const resolveAsset = (hash: string) => {
+          const assetId = assetIds.get(hash);
+          return assetId ? assetUrl(novelId, assetId) : undefined;
+        };
+
+        const last = await tx.chapter.findFirst({
+          where: { novelId },
+          orderBy: { position: "desc" },
+          select: { position: true },
+        });
+        const firstPosition = (last?.position ?? -1) + 1;
+
+        for (let start = 0; start < incoming.chapters.length; start += CHAPTER_BATCH_SIZE) {
+          await tx.chapter.createMany({
+            data: incoming.chapters
+              .slice(start, start + CHAPTER_BATCH_SIZE)
+              .map((chapter, offset) => {
+                const content = rewriteAssetRefs(chapter.content, resolveAsset);
+                return {
+                  novelId,
+                  title: chapter.title,
+                  content,
+                  size: Buffer.byteLength(content),
+                  wordCount: chapterWordCount(content),
+                  contentHash: chapterContentHash(chapter.content),
+                  position: firstPosition + start + offset,
+                };
+              }),
+          });
+        }
+
+        // Moves the novel up the library, which is ordered by updatedAt
+        await tx.novel.update({ where: { id: novelId }, data: { updatedAt: new Date() } });
+      },
+      {
+        timeout: Math.max(120000, incoming.chapters.length * 250),
+        maxWait: 10000,
+      }
+    );
+  } catch (error) {
+    await Promise.allSettled(
+      newAssets.map((asset) => deleteObject(assetStorageKey(novelId, asset.hash)))
+    );
+    throw error;
+  }
+
+  return incoming.chapters.length;
+}
@@ -0,0 +1,172 @@
+import { z } from "zod";
+
+/**
+ * A place inside a chapter that doesn't depend on layout: the paragraph (the
+ * n-th block element of the chapter HTML) and how many characters into it.
+ * `percent` is the share of the chapter's text before that point, used when
+ * the paragraph is gone, e.g. after the chapter was updated.
+ */
+export type ReadingLocator = {
+  paragraph: number;
+  offset: number;
+  percent: number;
+};
+
+export type TextPosition = { node: Text; offset: number };
+
+// Text outside these (bare text in a <div>) is only placed by percentage
+const PARAGRAPH_SELECTOR = "p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, dt, dd, td, th, figcaption";
+
+/**
+ * Accepts exactly the locator fields, so a request body can't store anything
+ * else alongside them. Paragraph -1 is the start of the chapter.
+ */
+export const readingLocatorSchema = z
+  .object({
+    paragraph: z.number().int().min(-1),
+    offset: z.number().int().min(0),
+    percent: z.number().min(0).max(1),
+  })
+  .strict();
+
+export function isReadingLocator(value: unknown): value is ReadingLocator {
+  if (typeof value !== "object" || value === null) return false;
+  const { paragraph, offset, percent } = value as ReadingLocator;
+  return (
+    Number.isInteger(paragraph) &&
+    paragraph >= -1 &&
+    Number.isInteger(offset) &&
+    offset >= 0 &&
+    typeof percent === "number" &&
+    percent >= 0 &&
+    percent <= 1
+  );
+}
+
+const textNodesOf = (root: Node) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.textContent?.trim() ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT,
+  });
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+};
+
+const rangeRects = (node: Text, start: number, end: number) => {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  return range.getClientRects();
+};
+
+/** The box of the character at a position, or null when it isn't laid out. */
+export function positionRect(position: TextPosition): DOMRect | null {
+  const { node } = position;
+  const offset = Math.min(position.offset, Math.max(node.length - 1, 0));
+  return rangeRects(node, offset, Math.min(offset + 1, node.length))[0] ?? null;
+}
+
+/**
+ * Finds the first character whose box satisfies `reached`, which must flip
+ * from false to true once along the text (e.g. "is below the top of the
+ * window", "is on page 4"). Text runs in reading order, so both the node and
+ * the character are found by binary search.
+ */
+export function firstTextPosition(
+  root: HTMLElement,
+  reached: (rect: DOMRect) => boolean
+): TextPosition | null {
+  const nodes = textNodesOf(root);
+  const nodeEndReached = (node: Text) => {
+    const rects = rangeRects(node, 0, node.length);
+    const rect = rects[rects.length - 1];
+    return rect ? reached(rect) : false;
+  };
+
+  let low = 0;
+  let high = nodes.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (nodeEndReached(nodes[mid])) high = mid;
+    else low = mid + 1;
+  }
+  const node = nodes[low];
+  if (!node) return null;
+
+  let start = 0;
+  let end = node.length - 1;
+  while (start < end) {
+    const mid = (start + end) >> 1;
+    const rect = rangeRects(node, mid, mid + 1)[0];
+    if (rect && reached(rect)) end = mid;
+    else start = mid + 1;
+  }
+  return { node, offset: start };
+}
+
+// Characters from the start of `root` up to the position
+const textOffsetWithin = (root: Node, position: TextPosition) => {
+  let count = 0;
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    if (walker.currentNode === position.node) return count + position.offset;
+    count += (walker.currentNode as Text).length;
+  }
+  return count;
+};
+
+// The text node and offset `offset` characters into `root`
+const positionAtTextOffset = (root: Node, offset: number): TextPosition | null => {
+  let remaining = offset;
+  let last: Text | null = null;
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (remaining < node.length && node.textContent?.trim()) {
+      return { node, offset: remaining };
+    }
+    remaining -= Math.min(remaining, node.length);
+    if (node.textContent?.trim()) last = node;
+  }
+  return last ? { node: last, offset: Math.max(last.length - 1, 0) } : null;
+};
+
+export function locatorFromPosition(root: HTMLElement, position: TextPosition): ReadingLocator {
+  const total = root.textContent?.length ?? 0;
+  const percent = total ? Math.min(textOffsetWithin(root, position) / total, 1) : 0;
+  const paragraph = position.node.parentElement?.closest(PARAGRAPH_SELECTOR);
+  if (!paragraph || !root.contains(paragraph)) {
+    return { paragraph: -1, offset: 0, percent };
+  }
+  return {
+    paragraph: Array.from(root.querySelectorAll(PARAGRAPH_SELECTOR)).indexOf(paragraph),
+    offset: textOffsetWithin(paragraph, position),
+    percent,
+  };
+}
+
+export function resolveLocator(root: HTMLElement, locator: ReadingLocator): TextPosition | null {
+  const paragraph =
+    locator.paragraph >= 0 ? root.querySelectorAll(PARAGRAPH_SELECTOR)[locator.paragraph] : null;
+  if (paragraph && (paragraph.textContent?.length ?? 0) > locator.offset) {
+    const position = positionAtTextOffset(paragraph, locator.offset);
+    if (position) return position;
+  }
+  const total = root.textContent?.length ?? 0;
+  return positionAtTextOffset(root, Math.floor(locator.percent * total));
+}
+
+/** A short run of the text starting at the locator, e.g. to label a bookmark. */
+export function locatorExcerpt(root: HTMLElement, locator: ReadingLocator, length = 80): string {
+  const position = resolveLocator(root, locator);
+  if (!position) return "";
+  let text = position.node.data.slice(position.offset);
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  walker.currentNode = position.node;
+  while (text.length < length * 2 && walker.nextNode()) {
+    text += walker.currentNode.textContent ?? "";
+  }
+  text = text.replace(/\s+/g, " ").trim();
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
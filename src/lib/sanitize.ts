@@ -0,0 +1,178 @@
+import sanitizeHtml from "sanitize-html";
+
+// Single profile for every imported chapter, illustrated or not. It keeps
+// images, inline SVG and embedded (data:/asset:) image URLs, and drops every
+// way of running script: <script>, event handler attributes, javascript: URLs,
+// <iframe>/<object>/<embed>, forms, <foreignObject>, <style> blocks and
+// <use>/<image> pointing at other documents. Remote images are dropped too:
+// importers download the ones they keep and point at the stored copy.
+
+const extendedTags = [
+  "img",
+  "section",
+  "article",
+  "aside",
+  "header",
+  "footer",
+  "figure",
+  "figcaption",
+  "center",
+  "span",
+  "div",
+  "hr",
+  "table",
+  "thead",
+  "tbody",
+  "tfoot",
+  "tr",
+  "td",
+  "th",
+  "col",
+  "colgroup",
+  "pre",
+  "code",
+  "sup",
+  "sub",
+  "u",
+  "s",
+  "mark",
+  "ins",
+  "del",
+  "ruby",
+  "rt",
+  "rp",
+  "svg",
+  "path",
+  "circle",
+  "rect",
+  "line",
+  "polyline",
+  "polygon",
+  "ellipse",
+  "g",
+  "defs",
+  "use",
+  "image",
+  "text",
+  "tspan",
+  "lineargradient",
+  "radialgradient",
+  "stop",
+  "clippath",
+];
+
+// The HTML parser lowercases names, so SVG attributes are listed lowercased;
+// browsers restore the camelCase when parsing inline SVG
+const svgPresentation = ["fill", "stroke", "stroke-width", "opacity", "transform"];
+
+const embeddedImageSchemes = ["data", "asset"];
+
+// Only inline images and our own asset route may appear in CSS url(). CSS
+// escapes (\75rl) and the other functions that load images could carry any
+// URL past that check, so values using them are refused outright.
+const safeCssValue =
+  /^(?![\s\S]*(?:\\|(?:image-set|image|cross-fade|element|src)\())(?:[^u]|u(?!rl\()|url\(\s*['"]?(?:data:image\/|asset:[a-f0-9]|\/api\/novels\/))*$/i;
+
+const anyValue = [safeCssValue];
+
+export const chapterSanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: Array.from(new Set([...sanitizeHtml.defaults.allowedTags, ...extendedTags])),
+  allowedAttributes: {
+    "*": ["class", "style", "id", "title", "align", "valign", "lang", "dir"],
+    a: ["href", "name", "title"],
+    img: ["src", "srcset", "alt", "title", "width", "height"],
+    svg: ["width", "height", "viewbox", "preserveaspectratio", "xmlns", "xmlns:xlink", "version", ...svgPresentation],
+    path: ["d", ...svgPresentation],
+    g: svgPresentation,
+    circle: ["cx", "cy", "r", ...svgPresentation],
+    ellipse: ["cx", "cy", "rx", "ry", ...svgPresentation],
+    rect: ["x", "y", "width", "height", "rx", "ry", ...svgPresentation],
+    line: ["x1", "y1", "x2", "y2", ...svgPresentation],
+    polyline: ["points", ...svgPresentation],
+    polygon: ["points", ...svgPresentation],
+    text: ["x", "y", "dx", "dy", "text-anchor", "font-size", "font-family", ...svgPresentation],
+    tspan: ["x", "y", "dx", "dy", "text-anchor", "font-size", "font-family", ...svgPresentation],
+    image: ["href", "xlink:href", "x", "y", "width", "height", "preserveaspectratio", "transform"],
+    use: ["href", "xlink:href", "x", "y", "width", "height", "transform"],
+    lineargradient: ["x1", "y1", "x2", "y2", "gradientunits", "gradienttransform"],
+    radialgradient: ["cx", "cy", "r", "fx", "fy", "gradientunits", "gradienttransform"],
+    stop: ["offset", "stop-color", "stop-opacity"],
+    clippath: ["clippathunits"],
+    td: ["colspan", "rowspan", "align", "valign", "width", "height"],
+    th: ["colspan", "rowspan", "align", "valign", "width", "height"],
+    table: ["border", "cellpadding", "cellspacing", "width", "height"],
+    ol: ["start", "type", "reversed"],
+  },
+  allowedStyles: {
+    "*": {
+      color: anyValue,
+      "background-color": anyValue,
+      "background-image": anyValue,
+      background: anyValue,
+      "background-size": anyValue,
+      "background-position": anyValue,
+      "background-repeat": anyValue,
+      "text-align": [/^left$|^right$|^center$|^justify$/],
+      "text-indent": anyValue,
+      "font-weight": anyValue,
+      "font-style": anyValue,
+      "font-size": anyValue,
+      "font-family": anyValue,
+      "font-variant": anyValue,
+      "text-decoration": anyValue,
+      "text-transform": anyValue,
+      "letter-spacing": anyValue,
+      "line-height": anyValue,
+      "white-space": anyValue,
+      "writing-mode": anyValue,
+      margin: anyValue,
+      "margin-top": anyValue,
+      "margin-bottom": anyValue,
+      "margin-left": anyValue,
+      "margin-right": anyValue,
+      padding: anyValue,
+      "padding-top": anyValue,
+      "padding-bottom": anyValue,
+      "padding-left": anyValue,
+      "padding-right": anyValue,
+      border: anyValue,
+      "border-top": anyValue,
+      "border-bottom": anyValue,
+      "border-left": anyValue,
+      "border-right": anyValue,
+      width: anyValue,
+      height: anyValue,
+      "max-width": anyValue,
+      "max-height": anyValue,
+      "min-width": anyValue,
+      "min-height": anyValue,
+      display: anyValue,
+      // fixed/sticky content could be laid over the reader's own controls
+      position: [/^(static|relative)$/i],
+      top: anyValue,
+      bottom: anyValue,
+      left: anyValue,
+      right: anyValue,
+      float: anyValue,
+      clear: anyValue,
+      "vertical-align": anyValue,
+      opacity: anyValue,
+      visibility: anyValue,
+      "object-fit": anyValue,
+    },
+  },
+  allowedSchemes: ["http", "https", "mailto", "tel"],
+  allowedSchemesByTag: {
+    img: embeddedImageSchemes,
+    image: embeddedImageSchemes,
+    // <use> may only reference fragments inside the chapter
+    use: [],
+  },
+  allowedSchemesAppliedToAttributes: ["href", "src", "cite", "xlink:href"],
+  allowProtocolRelative: false,
+  enforceHtmlBoundary: true,
+};
+
+export function sanitizeChapterHtml(html: string): string {
+  return sanitizeHtml(html, chapterSanitizeOptions);
+}
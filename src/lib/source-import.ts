@@ -0,0 +1,294 @@
+import { createHash } from "crypto";
+import { load } from "cheerio";
+import { parseEpub, type ParsedAsset, type ParsedEpub, type ParseEpubOptions } from "@/lib/epub";
+import type { ImportWarning } from "@/lib/import-report";
+import { assetRef } from "@/lib/assets";
+import { sanitizeChapterHtml } from "@/lib/sanitize";
+import { detectImportFormat } from "@/lib/import-formats";
+import {
+  findSourceAdapter,
+  type SourceAdapter,
+  type SourceChapterLink,
+} from "@/lib/sources";
+import { fetchSourceFile, fetchSourceImage } from "@/lib/sources/http";
+
+// Adapter id stored for books published as a file at a fixed URL
+export const EPUB_SOURCE = "epub";
+
+export type NovelSourceInfo = {
+  url: string;
+  // A source adapter id, or EPUB_SOURCE
+  adapter: string;
+  // URL of the newest fetched chapter (title of the last chapter for EPUBs)
+  lastKnownChapter?: string;
+};
+
+export type ParsedSourceNovel = ParsedEpub & {
+  source: NovelSourceInfo;
+};
+
+// Pause between chapter requests so a long serial doesn't hammer the site
+const REQUEST_DELAY_MS = 500;
+const MAX_ATTEMPTS = 3;
+
+// A malformed percent-escape leaves the text as it was instead of throwing
+const decodeUrlText = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+/** The file name at the end of a URL's path, e.g. for naming the import job. */
+export function filenameFromUrl(url: string): string {
+  return decodeUrlText(new URL(url).pathname.split("/").pop() || "") || url;
+}
+
+/** Adapter id that can follow `url`, or null if it can't be imported by URL. */
+export function findSourceKind(url: string): string | null {
+  const adapter = findSourceAdapter(url);
+  if (adapter) return adapter.id;
+
+  try {
+    const { pathname, protocol } = new URL(url);
+    const isEpub = detectImportFormat(decodeUrlText(pathname)) === "epub";
+    return (protocol === "http:" || protocol === "https:") && isEpub ? EPUB_SOURCE : null;
+  } catch {
+    return null;
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function withRetries<T>(task: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      await sleep(REQUEST_DELAY_MS * 2 ** attempt);
+    }
+  }
+}
+
+/**
+ * Downloads images into the parsed assets and points them at `asset:<hash>`
+ * like the file importers do. Chapter images that fail to load keep their
+ * remote URL, which the sanitizer then removes.
+ */
+function createImageCollector(
+  assets: ParsedAsset[],
+  warnings: ImportWarning[],
+  fetchImpl?: typeof fetch
+) {
+  const refsByUrl = new Map<string, string | null>();
+  const knownHashes = new Set<string>();
+
+  const collect = async (url: string): Promise<string | null> => {
+    const cached = refsByUrl.get(url);
+    if (cached !== undefined) return cached;
+
+    let ref: string | null = null;
+    try {
+      const image = await fetchSourceImage(url, { fetch: fetchImpl });
+      if (image) {
+        const hash = createHash("sha256").update(image.data).digest("hex");
+        if (!knownHashes.has(hash)) {
+          knownHashes.add(hash);
+          assets.push({ hash, mediaType: image.mediaType, data: image.data });
+        }
+        ref = assetRef(hash);
+      }
+    } catch {
+      // Reported below
+    }
+
+    if (!ref) {
+      warnings.push({
+        code: "missing-resource",
+        message: `Could not download the image at ${url}.`,
+        href: url,
+      });
+    }
+    refsByUrl.set(url, ref);
+    return ref;
+  };
+
+  return {
+    collect,
+    async embed(html: string): Promise<string> {
+      const $ = load(html, null, false);
+      for (const image of $("img[src]").toArray()) {
+        const src = $(image).attr("src") ?? "";
+        if (!/^https?:/i.test(src)) continue;
+        const ref = await collect(src);
+        if (ref) $(image).attr("src", ref).removeAttr("srcset");
+      }
+      return $.html();
+    },
+  };
+}
+
+type FetchChaptersOptions = ParseEpubOptions & {
+  images: ReturnType<typeof createImageCollector>;
+  warnings: ImportWarning[];
+  // End at the first chapter that fails, so an update check retries it later
+  stopAtFailure?: boolean;
+};
+
+async function fetchChapters(
+  adapter: SourceAdapter,
+  links: SourceChapterLink[],
+  options: FetchChaptersOptions
+): Promise<ParsedEpub["chapters"]> {
+  const chapters: ParsedEpub["chapters"] = [];
+
+  for (const [index, link] of links.entries()) {
+    await options.onProgress?.(index, links.length);
+    if (index > 0) await sleep(REQUEST_DELAY_MS);
+
+    let chapter;
+    try {
+      chapter = await withRetries(() => adapter.fetchChapter(link.url));
+    } catch (error) {
+      console.error(`Failed to fetch chapter ${link.url}:`, error);
+      if (options.stopAtFailure) break;
+      options.warnings.push({
+        code: "missing-chapter-file",
+        message: `“${link.title || link.url}” could not be downloaded and was skipped.`,
+        spineIndex: index,
+        href: link.url,
+      });
+      continue;
+    }
+
+    let title = chapter.title || link.title;
+    if (!title) {
+      title = `Chapter ${chapters.length + 1}`;
+      options.warnings.push({
+        code: "fallback-title",
+        message: `No title found for ${link.url}; using “${title}”.`,
+        spineIndex: index,
+        href: link.url,
+      });
+    }
+
+    // Images are swapped for stored copies first; the sanitizer drops remote ones
+    const content = await options.images.embed(`<h2>${escapeHtml(title)}</h2>${chapter.content}`);
+    chapters.push({ title, content: sanitizeChapterHtml(content) });
+  }
+  await options.onProgress?.(links.length, links.length);
+
+  return chapters;
+}
+
+/**
+ * Pulls a serial from a supported site into the same shape `parseEpub`
+ * returns, so it is saved, deduplicated and updated like an uploaded book.
+ */
+export async function fetchSourceNovel(
+  url: string,
+  options: ParseEpubOptions & { adapter?: SourceAdapter; fetch?: typeof fetch } = {}
+): Promise<ParsedSourceNovel> {
+  const adapter = options.adapter ?? findSourceAdapter(url);
+  if (!adapter) {
+    throw new Error("No source adapter supports this site.");
+  }
+
+  const info = await withRetries(() => adapter.fetchNovelInfo(url));
+  const links = await withRetries(() => adapter.listChapters(info.url));
+  if (!links.length) {
+    throw new Error(`${adapter.name} lists no chapters for this novel.`);
+  }
+
+  const warnings: ImportWarning[] = [];
+  const assets: ParsedAsset[] = [];
+  const images = createImageCollector(assets, warnings, options.fetch);
+  const chapters = await fetchChapters(adapter, links, { ...options, images, warnings });
+
+  if (!chapters.length) {
+    throw new Error(`None of the chapters could be downloaded from ${adapter.name}.`);
+  }
+
+  const cover = info.coverUrl ? await images.collect(info.coverUrl) : null;
+
+  return {
+    title: info.title,
+    author: info.author,
+    description: info.description,
+    identifier: info.identifier,
+    coverImage: cover ?? undefined,
+    chapters,
+    // Serials have no structure beyond their chapter list
+    toc: [],
+    assets,
+    warnings,
+    source: { url: info.url, adapter: adapter.id, lastKnownChapter: links[links.length - 1].url },
+  };
+}
+
+/** Downloads an EPUB published at a fixed URL, such as an author's rolling export. */
+export async function fetchEpubSource(
+  url: string,
+  options: ParseEpubOptions & { fetch?: typeof fetch } = {}
+): Promise<ParsedSourceNovel> {
+  const buffer = await withRetries(() => fetchSourceFile(url, { fetch: options.fetch }));
+  const parsed = await parseEpub(buffer, filenameFromUrl(url), options);
+
+  return {
+    ...parsed,
+    source: {
+      url,
+      adapter: EPUB_SOURCE,
+      lastKnownChapter: parsed.chapters[parsed.chapters.length - 1]?.title,
+    },
+  };
+}
+
+/** Imports whatever `url` points at: a serial on a supported site or an EPUB file. */
+export function fetchNovelFromUrl(url: string, options: ParseEpubOptions = {}) {
+  return findSourceKind(url) === EPUB_SOURCE
+    ? fetchEpubSource(url, options)
+    : fetchSourceNovel(url, options);
+}
+
+/** Fetches the chapters a followed serial has published since `lastKnownChapter`. */
+export async function fetchNewSourceChapters(
+  adapter: SourceAdapter,
+  novelUrl: string,
+  known: { lastKnownChapter: string | null; chapterCount: number },
+  options: ParseEpubOptions = {}
+) {
+  const links = await withRetries(() => adapter.listChapters(novelUrl));
+  const lastIndex = known.lastKnownChapter
+    ? links.findIndex((link) => link.url === known.lastKnownChapter)
+    : -1;
+  // Without a recognisable last chapter, assume the site lists what we have first
+  const start = lastIndex >= 0 ? lastIndex + 1 : known.chapterCount;
+  const newLinks = links.slice(start);
+
+  const warnings: ImportWarning[] = [];
+  const assets: ParsedAsset[] = [];
+  const images = createImageCollector(assets, warnings);
+  const chapters = await fetchChapters(adapter, newLinks, {
+    ...options,
+    images,
+    warnings,
+    stopAtFailure: true,
+  });
+
+  return {
+    chapters,
+    assets,
+    warnings,
+    lastKnownChapter: chapters.length ? newLinks[chapters.length - 1].url : known.lastKnownChapter,
+  };
+}
@@ -0,0 +1,155 @@
+import type { NovelSource } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSourceAdapter } from "@/lib/sources";
+import {
+  EPUB_SOURCE,
+  fetchEpubSource,
+  fetchNewSourceChapters,
+  type NovelSourceInfo,
+} from "@/lib/source-import";
+import { appendNovelChapters, applyNovelUpdate, planNovelUpdate } from "@/lib/novel-update";
+import { assertRoomForChapters } from "@/lib/storage-usage";
+
+const DEFAULT_CHECK_INTERVAL_HOURS = 6;
+// How often an idle worker looks for followed novels that are due a check
+export const SOURCE_POLL_INTERVAL_MS = 60 * 1000;
+
+// SOURCE_CHECK_INTERVAL_HOURS sets how long a novel rests between checks
+const checkIntervalMs = () =>
+  (Number(process.env.SOURCE_CHECK_INTERVAL_HOURS) || DEFAULT_CHECK_INTERVAL_HOURS) * 60 * 60 * 1000;
+
+type ClaimedSource = Pick<
+  NovelSource,
+  "id" | "novelId" | "url" | "adapter" | "lastKnownChapter" | "newChapterCount" | "newChaptersAt"
+>;
+
+/** Records where a novel came from so the scheduler checks it for new chapters. */
+export async function followNovelSource(novelId: string, source: NovelSourceInfo) {
+  const data = {
+    url: source.url,
+    adapter: source.adapter,
+    lastKnownChapter: source.lastKnownChapter,
+    lastCheckedAt: new Date(),
+    lastError: null,
+  };
+
+  await prisma.novelSource.upsert({
+    where: { novelId },
+    create: { novelId, ...data },
+    update: data,
+  });
+}
+
+/** Moves the novel that waited longest past its check interval to now. */
+async function claimNextDueSource(): Promise<ClaimedSource | null> {
+  const dueBefore = new Date(Date.now() - checkIntervalMs());
+
+  for (;;) {
+    const candidate = await prisma.novelSource.findFirst({
+      where: { OR: [{ lastCheckedAt: null }, { lastCheckedAt: { lt: dueBefore } }] },
+      orderBy: { lastCheckedAt: { sort: "asc", nulls: "first" } },
+      select: {
+        id: true,
+        novelId: true,
+        url: true,
+        adapter: true,
+        lastCheckedAt: true,
+        lastKnownChapter: true,
+        newChapterCount: true,
+        newChaptersAt: true,
+      },
+    });
+    if (!candidate) return null;
+
+    // Stamping the check time first keeps other workers off the same novel
+    const claimed = await prisma.novelSource.updateMany({
+      where: { id: candidate.id, lastCheckedAt: candidate.lastCheckedAt },
+      data: { lastCheckedAt: new Date() },
+    });
+    if (claimed.count === 1) return candidate;
+  }
+}
+
+async function pullNewChapters(source: ClaimedSource) {
+  const { userId } = await prisma.novel.findUniqueOrThrow({
+    where: { id: source.novelId },
+    select: { userId: true },
+  });
+
+  if (source.adapter === EPUB_SOURCE) {
+    const parsed = await fetchEpubSource(source.url);
+    const plan = await planNovelUpdate(source.novelId, parsed);
+    // An unchanged file shouldn't rewrite the novel every interval
+    if (plan.added.length || plan.changed.length) {
+      await assertRoomForChapters(userId, parsed, { novelId: source.novelId, replacesChapters: true });
+      await applyNovelUpdate(source.novelId, parsed);
+    }
+    return {
+      added: plan.added.length,
+      lastKnownChapter: parsed.source.lastKnownChapter ?? source.lastKnownChapter,
+    };
+  }
+
+  const adapter = getSourceAdapter(source.adapter);
+  if (!adapter) {
+    throw new Error(`No source adapter named "${source.adapter}".`);
+  }
+
+  const chapterCount = await prisma.chapter.count({ where: { novelId: source.novelId } });
+  const update = await fetchNewSourceChapters(adapter, source.url, {
+    lastKnownChapter: source.lastKnownChapter,
+    chapterCount,
+  });
+  await assertRoomForChapters(userId, update, { novelId: source.novelId, replacesChapters: false });
+  return {
+    added: await appendNovelChapters(source.novelId, update),
+    lastKnownChapter: update.lastKnownChapter,
+  };
+}
+
+/** Appends whatever the source published since the last check; returns how many chapters. */
+export async function checkNovelSource(source: ClaimedSource) {
+  try {
+    const { added, lastKnownChapter } = await pullNewChapters(source);
+
+    let newChapters = {};
+    if (added) {
+      const novel = await prisma.novel.findUnique({
+        where: { id: source.novelId },
+        select: { lastReadAt: true },
+      });
+      // The count starts over once the novel was opened after the last batch
+      const caughtUp =
+        !source.newChaptersAt || (novel?.lastReadAt && novel.lastReadAt > source.newChaptersAt);
+      newChapters = {
+        newChapterCount: caughtUp ? added : source.newChapterCount + added,
+        newChaptersAt: new Date(),
+      };
+    }
+
+    await prisma.novelSource.update({
+      where: { id: source.id },
+      data: { lastKnownChapter, lastError: null, ...newChapters },
+    });
+    return added;
+  } catch (error) {
+    console.error(`Update check for novel ${source.novelId} failed:`, error);
+    // The novel may have been deleted mid-check, taking its source with it
+    await prisma.novelSource
+      .update({
+        where: { id: source.id },
+        data: { lastError: error instanceof Error ? error.message : "Update check failed." },
+      })
+      .catch(() => undefined);
+    return 0;
+  }
+}
+
+/** Checks one followed novel that is due, if any. Returns whether one was checked. */
+export async function checkNextDueSource() {
+  const source = await claimNextDueSource();
+  if (!source) return false;
+
+  await checkNovelSource(source);
+  return true;
+}
@@ -0,0 +1,252 @@
+import { lookup } from "node:dns";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { load, type CheerioAPI } from "cheerio";
+import { Agent } from "undici";
+
+const USER_AGENT = "Mozilla/5.0 (compatible; obscra/0.1)";
+const REQUEST_TIMEOUT_MS = 20_000;
+const MAX_REDIRECTS = 5;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_FILE_BYTES = 100 * 1024 * 1024;
+
+// Shown to the user whatever went wrong, so a failed fetch tells them
+// nothing about the network the server sits in
+export const SOURCE_REQUEST_ERROR = "The page at this URL could not be downloaded.";
+
+type RequestOptions = {
+  // Replaces the network (and the address checks below), e.g. in tests
+  fetch?: typeof fetch;
+  method?: "GET" | "POST";
+  form?: Record<string, string>;
+};
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const internalAddresses = new BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  internalAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  // Unspecified, loopback and the old IPv4-compatible form; IPv4-mapped
+  // addresses are checked against the IPv4 ranges
+  ["::", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  internalAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+export function isInternalAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return true;
+  return internalAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Resolves host names for outgoing connections and refuses any that point
+ * at an internal address. The connection uses the address checked here, so
+ * a host can't pass the check and then resolve somewhere else.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (!addresses.length || addresses.some(({ address }) => isInternalAddress(address))) {
+      return callback(
+        new Error(`Refused to fetch ${hostname}: it resolves to an internal address.`),
+        ""
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Only public http(s) hosts may be fetched: the URLs come from users and
+ * scraped pages, and must not reach the server's own network. Host names are
+ * checked as they are resolved; addresses written into the URL are checked
+ * here, since nothing resolves them.
+ */
+function assertPublicUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Refused to fetch ${url.protocol} URL.`);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && isInternalAddress(hostname)) {
+    throw new Error(`Refused to fetch ${url.hostname}: it is an internal address.`);
+  }
+}
+
+async function request(url: string, options: RequestOptions, accept: string) {
+  const fetchImpl = options.fetch ?? fetch;
+  let current = new URL(url);
+  let method = options.method ?? "GET";
+  let form = options.form;
+
+  try {
+    // Redirects are followed by hand so every hop's host is checked
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+      if (!options.fetch) assertPublicUrl(current);
+
+      const response = await fetchImpl(current.toString(), {
+        ...(!options.fetch && { dispatcher: publicAgent }),
+        method,
+        headers: {
+          "User-Agent": USER_AGENT,
+          Accept: accept,
+          ...(form && { "Content-Type": "application/x-www-form-urlencoded" }),
+        },
+        body: form ? new URLSearchParams(form).toString() : undefined,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        current = new URL(location, current);
+        if (response.status !== 307 && response.status !== 308) {
+          method = "GET";
+          form = undefined;
+        }
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(`${current.hostname} answered ${response.status} for ${current}.`);
+      }
+      return { response, url: current.toString() };
+    }
+    throw new Error(`Too many redirects from ${url}.`);
+  } catch (error) {
+    console.error("Source request failed:", error);
+    throw new Error(SOURCE_REQUEST_ERROR);
+  }
+}
+
+/**
+ * Reads the body, giving up as soon as it passes `maxBytes`: a missing or
+ * false Content-Length must not let a site fill the server's memory.
+ * Returns null when the body is too large.
+ */
+async function readBody(response: Response, maxBytes: number): Promise<Buffer | null> {
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Fetches a page and loads it with relative links resolved against its URL. */
+export async function fetchSourcePage(url: string, options: RequestOptions = {}): Promise<CheerioAPI> {
+  const { response, url: finalUrl } = await request(url, options, "text/html,application/xhtml+xml");
+  const html = await readBody(response, MAX_PAGE_BYTES);
+  if (!html) {
+    console.error(`Source page ${finalUrl} is larger than ${MAX_PAGE_BYTES} bytes.`);
+    throw new Error(SOURCE_REQUEST_ERROR);
+  }
+  return load(html.toString("utf8"), { baseURI: finalUrl });
+}
+
+export async function fetchSourceImage(
+  url: string,
+  options: RequestOptions = {}
+): Promise<{ data: Buffer; mediaType: string } | null> {
+  const { response } = await request(url, options, "image/*");
+  const mediaType = response.headers.get("content-type")?.split(";")[0].trim() ?? "";
+
+  if (!mediaType.startsWith("image/")) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const data = await readBody(response, MAX_IMAGE_BYTES);
+  return data?.length ? { data, mediaType } : null;
+}
+
+/** Downloads a book file published at a fixed URL. */
+export async function fetchSourceFile(url: string, options: RequestOptions = {}): Promise<Buffer> {
+  const { response } = await request(url, options, "*/*");
+  const data = await readBody(response, MAX_FILE_BYTES);
+  if (!data) {
+    throw new Error("The file at this URL is too large to import.");
+  }
+  return data;
+}
+
+export const absoluteUrl = (href: string | undefined, base: string): string | undefined => {
+  if (!href) return undefined;
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/** Rewrites relative image and link URLs inside `root` so they survive extraction. */
+export function resolveContentUrls($: CheerioAPI, root: string, pageUrl: string) {
+  $(root)
+    .find("img[src], a[href]")
+    .each((_, element) => {
+      const attribute = element.tagName === "img" ? "src" : "href";
+      const value = $(element).attr(attribute);
+      if (value?.startsWith("#")) return;
+      const url = absoluteUrl(value, pageUrl);
+      if (url) $(element).attr(attribute, url);
+    });
+}
+
+export const cleanText = (value: string) => value.replace(/\s+/g, " ").trim();
+
+/**
+ * Removes elements a page hides with its own stylesheet. Some sites mix
+ * invisible watermark paragraphs into chapters; once the <style> block is
+ * sanitized away they would show up as text.
+ */
+export function removeHiddenElements($: CheerioAPI, root: string) {
+  const hiddenClasses = new Set<string>();
+  $("style").each((_, style) => {
+    const css = $(style).text();
+    for (const rule of css.matchAll(/([^{}]+)\{([^}]*)\}/g)) {
+      if (!/display\s*:\s*none|visibility\s*:\s*hidden/i.test(rule[2])) continue;
+      for (const selector of rule[1].split(",")) {
+        const className = /^\s*\.([\w-]+)\s*$/.exec(selector)?.[1];
+        if (className) hiddenClasses.add(className);
+      }
+    }
+  });
+
+  const container = $(root);
+  hiddenClasses.forEach((className) => container.find(`.${className}`).remove());
+  container.find("[style*='display:none'], [style*='display: none']").remove();
+}
@@ -0,0 +1,44 @@
+import type { SourceAdapter } from "@/lib/sources/types";
+import { createRoyalRoadAdapter } from "@/lib/sources/royal-road";
+import { createScribbleHubAdapter } from "@/lib/sources/scribble-hub";
+
+export type {
+  SourceAdapter,
+  SourceAdapterOptions,
+  SourceChapter,
+  SourceChapterLink,
+  SourceNovelInfo,
+  SourceSearchResult,
+} from "@/lib/sources/types";
+
+const adapters = new Map<string, SourceAdapter>();
+
+/** Makes `adapter` answer for its hostnames, replacing any earlier one. */
+export function registerSourceAdapter(adapter: SourceAdapter) {
+  for (const hostname of adapter.hostnames) {
+    adapters.set(hostname.toLowerCase(), adapter);
+  }
+}
+
+registerSourceAdapter(createRoyalRoadAdapter());
+registerSourceAdapter(createScribbleHubAdapter());
+
+export function findSourceAdapter(url: string): SourceAdapter | null {
+  let hostname: string;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    hostname = parsed.hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+  return adapters.get(hostname) ?? null;
+}
+
+export function getSourceAdapter(id: string): SourceAdapter | null {
+  return listSourceAdapters().find((adapter) => adapter.id === id) ?? null;
+}
+
+export function listSourceAdapters(): SourceAdapter[] {
+  return Array.from(new Set(adapters.values()));
+}
@@ -0,0 +1,106 @@
+import type { SourceAdapter, SourceAdapterOptions } from "@/lib/sources/types";
+import {
+  absoluteUrl,
+  cleanText,
+  fetchSourcePage,
+  removeHiddenElements,
+  resolveContentUrls,
+} from "@/lib/sources/http";
+
+const DEFAULT_BASE_URL = "https://www.royalroad.com";
+
+const fictionId = (url: string) => {
+  const id = /\/fiction\/(\d+)/.exec(new URL(url).pathname)?.[1];
+  if (!id) {
+    throw new Error("Not a Royal Road fiction URL.");
+  }
+  return id;
+};
+
+export function createRoyalRoadAdapter(options: SourceAdapterOptions = {}): SourceAdapter {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+  const requestOptions = { fetch: options.fetch };
+  const hostname = new URL(baseUrl).hostname.replace(/^www\./, "");
+
+  return {
+    id: "royalroad",
+    name: "Royal Road",
+    hostnames: [hostname],
+
+    async search(query) {
+      const $ = await fetchSourcePage(
+        `${baseUrl}/fictions/search?title=${encodeURIComponent(query)}`,
+        requestOptions
+      );
+      return $(".fiction-list-item")
+        .toArray()
+        .flatMap((item) => {
+          const link = $(item).find(".fiction-title a").first();
+          const url = absoluteUrl(link.attr("href"), baseUrl);
+          if (!url) return [];
+          return [
+            {
+              url,
+              title: cleanText(link.text()),
+              coverUrl: absoluteUrl($(item).find("img").first().attr("src"), baseUrl),
+            },
+          ];
+        });
+    },
+
+    async fetchNovelInfo(url) {
+      const id = fictionId(url);
+      const pageUrl = `${baseUrl}/fiction/${id}`;
+      const $ = await fetchSourcePage(pageUrl, requestOptions);
+
+      const title = cleanText($(".fic-title h1").first().text() || $("h1").first().text());
+      if (!title) {
+        throw new Error("Could not read the fiction title from Royal Road.");
+      }
+
+      return {
+        url: pageUrl,
+        identifier: `royalroad:${id}`,
+        title,
+        author:
+          cleanText($(".fic-title h4 a").first().text()) ||
+          $("meta[property='books:author']").attr("content") ||
+          undefined,
+        description: cleanText($(".description").first().text()) || undefined,
+        coverUrl: absoluteUrl(
+          $(".cover-art-container img").first().attr("src") ??
+            $("meta[property='og:image']").attr("content"),
+          pageUrl
+        ),
+      };
+    },
+
+    async listChapters(novelUrl) {
+      const pageUrl = `${baseUrl}/fiction/${fictionId(novelUrl)}`;
+      const $ = await fetchSourcePage(pageUrl, requestOptions);
+
+      return $("#chapters tbody tr")
+        .toArray()
+        .flatMap((row) => {
+          const link = $(row).find("a[href]").first();
+          const url = absoluteUrl($(row).attr("data-url") ?? link.attr("href"), pageUrl);
+          return url ? [{ url, title: cleanText(link.text()) }] : [];
+        });
+    },
+
+    async fetchChapter(chapterUrl) {
+      const $ = await fetchSourcePage(chapterUrl, requestOptions);
+      const root = ".chapter-inner.chapter-content";
+      if (!$(root).length) {
+        throw new Error(`No chapter text found at ${chapterUrl}.`);
+      }
+      removeHiddenElements($, root);
+      resolveContentUrls($, root, chapterUrl);
+
+      return {
+        title: cleanText($(".fic-header h1").first().text() || $("h1").first().text()),
+        content: $(root).first().html() ?? "",
+      };
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import type { SourceAdapter, SourceAdapterOptions } from "@/lib/sources/types";
+import { absoluteUrl, cleanText, fetchSourcePage, resolveContentUrls } from "@/lib/sources/http";
+
+const DEFAULT_BASE_URL = "https://www.scribblehub.com";
+
+const seriesId = (url: string) => {
+  const id = /\/series\/(\d+)/.exec(new URL(url).pathname)?.[1];
+  if (!id) {
+    throw new Error("Not a Scribble Hub series URL.");
+  }
+  return id;
+};
+
+export function createScribbleHubAdapter(options: SourceAdapterOptions = {}): SourceAdapter {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+  const requestOptions = { fetch: options.fetch };
+  const hostname = new URL(baseUrl).hostname.replace(/^www\./, "");
+
+  return {
+    id: "scribblehub",
+    name: "Scribble Hub",
+    hostnames: [hostname],
+
+    async search(query) {
+      const $ = await fetchSourcePage(
+        `${baseUrl}/?s=${encodeURIComponent(query)}&post_type=fictionposts`,
+        requestOptions
+      );
+      return $(".search_main_box")
+        .toArray()
+        .flatMap((item) => {
+          const link = $(item).find(".search_title a").first();
+          const url = absoluteUrl(link.attr("href"), baseUrl);
+          if (!url) return [];
+          return [
+            {
+              url,
+              title: cleanText(link.text()),
+              author: cleanText($(item).find(".a_un_st").first().text()) || undefined,
+              coverUrl: absoluteUrl($(item).find(".search_img img").first().attr("src"), baseUrl),
+            },
+          ];
+        });
+    },
+
+    async fetchNovelInfo(url) {
+      const id = seriesId(url);
+      // The slug is optional; the site redirects to the full series URL
+      const $ = await fetchSourcePage(`${baseUrl}/series/${id}/`, requestOptions);
+      const pageUrl = absoluteUrl($("link[rel='canonical']").attr("href"), baseUrl) ?? `${baseUrl}/series/${id}/`;
+
+      const title = cleanText($(".fic_title").first().text());
+      if (!title) {
+        throw new Error("Could not read the series title from Scribble Hub.");
+      }
+
+      return {
+        url: pageUrl,
+        identifier: `scribblehub:${id}`,
+        title,
+        author: cleanText($(".auth_name_fic").first().text()) || undefined,
+        description: cleanText($(".wi_fic_desc").first().text()) || undefined,
+        coverUrl: absoluteUrl($(".fic_image img").first().attr("src"), pageUrl),
+      };
+    },
+
+    async listChapters(novelUrl) {
+      // The series page paginates its TOC; this endpoint returns every chapter
+      const $ = await fetchSourcePage(`${baseUrl}/wp-admin/admin-ajax.php`, {
+        ...requestOptions,
+        method: "POST",
+        form: {
+          action: "wi_getreleases_pagination",
+          pagenum: "-1",
+          mypostid: seriesId(novelUrl),
+        },
+      });
+
+      return $("li.toc_w a.toc_a")
+        .toArray()
+        .flatMap((link) => {
+          const url = absoluteUrl($(link).attr("href"), baseUrl);
+          return url ? [{ url, title: cleanText($(link).text()) }] : [];
+        })
+        .reverse();
+    },
+
+    async fetchChapter(chapterUrl) {
+      const $ = await fetchSourcePage(chapterUrl, requestOptions);
+      const content = $("#chp_raw").first();
+      if (!content.length) {
+        throw new Error(`No chapter text found at ${chapterUrl}.`);
+      }
+      content.find(".wi_authornotes").remove();
+      resolveContentUrls($, "#chp_raw", chapterUrl);
+
+      return {
+        title: cleanText($(".chapter-title").first().text()),
+        content: content.html() ?? "",
+      };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+export type SourceNovelInfo = {
+  // Canonical URL of the novel's landing page on the source site
+  url: string;
+  // Stable id such as "royalroad:21220", used to spot re-imports
+  identifier: string;
+  title: string;
+  author?: string;
+  description?: string;
+  coverUrl?: string;
+};
+
+export type SourceSearchResult = Pick<SourceNovelInfo, "url" | "title" | "author" | "coverUrl">;
+
+export type SourceChapterLink = {
+  url: string;
+  title: string;
+};
+
+export type SourceChapter = {
+  title: string;
+  // Raw chapter markup; the importer sanitizes it like EPUB chapters
+  content: string;
+};
+
+/**
+ * Reads one webnovel site. Adapters only scrape: fetching order, retries,
+ * sanitizing and saving are left to the importer.
+ */
+export type SourceAdapter = {
+  id: string;
+  name: string;
+  // Hostnames the adapter answers for, without "www."
+  hostnames: string[];
+  search: (query: string) => Promise<SourceSearchResult[]>;
+  // Accepts the novel URL or the URL of any of its chapters
+  fetchNovelInfo: (url: string) => Promise<SourceNovelInfo>;
+  // Chapters in reading order
+  listChapters: (novelUrl: string) => Promise<SourceChapterLink[]>;
+  fetchChapter: (chapterUrl: string) => Promise<SourceChapter>;
+};
+
+export type SourceAdapterOptions = {
+  // Points the adapter at another origin, e.g. a local server with saved pages
+  baseUrl?: string;
+  fetch?: typeof fetch;
+};
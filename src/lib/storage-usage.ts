@@ -0,0 +1,185 @@
+import type { ParsedEpub } from "@/lib/epub";
+import { prisma } from "@/lib/prisma";
+import { statObject } from "@/lib/storage";
+
+const DEFAULT_STORAGE_QUOTA_MB = 1024;
+const MEASURE_BATCH_SIZE = 50;
+// Jobs that still hold their uploaded file until they finish
+const UNFINISHED_JOB_STATUSES = ["queued", "running", "review", "duplicate"];
+
+export type NovelStorageUsage = {
+  novelId: string;
+  title: string;
+  chapters: number;
+  assets: number;
+  original: number;
+  total: number;
+};
+
+export type StorageUsage = {
+  total: number;
+  // Uploads not imported yet, whether signed or waiting in an import job, still take up space
+  pending: number;
+  // null when quotas are switched off
+  quota: number | null;
+  novels: NovelStorageUsage[];
+};
+
+// STORAGE_QUOTA_MB caps what each user may store; 0 turns the quota off
+export function storageQuotaBytes(): number | null {
+  const configured = process.env.STORAGE_QUOTA_MB;
+  const megabytes = configured ? Number(configured) : DEFAULT_STORAGE_QUOTA_MB;
+  if (!Number.isFinite(megabytes) || megabytes < 0) {
+    return DEFAULT_STORAGE_QUOTA_MB * 1024 * 1024;
+  }
+  return megabytes === 0 ? null : megabytes * 1024 * 1024;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 || value >= 10 ? Math.round(value) : value.toFixed(1)} ${units[unit]}`;
+}
+
+/** Bytes the user's library takes up: chapter HTML, images and kept originals, per novel. */
+export async function getStorageUsage(userId: string): Promise<StorageUsage> {
+  const [novels, chapterSums, assetSums, pendingSum, jobs] = await Promise.all([
+    prisma.novel.findMany({
+      where: { userId },
+      select: { id: true, title: true, originalStorageKey: true, originalSize: true },
+    }),
+    prisma.chapter.groupBy({
+      by: ["novelId"],
+      where: { novel: { userId } },
+      _sum: { size: true },
+    }),
+    prisma.asset.groupBy({
+      by: ["novelId"],
+      where: { novel: { userId } },
+      _sum: { size: true },
+    }),
+    prisma.pendingUpload.aggregate({
+      where: { userId },
+      _sum: { size: true },
+    }),
+    prisma.importJob.findMany({
+      where: { userId, status: { in: UNFINISHED_JOB_STATUSES }, storageKey: { not: null } },
+      select: { storageKey: true, size: true },
+    }),
+  ]);
+
+  const chapterBytes = new Map(chapterSums.map((row) => [row.novelId, row._sum.size ?? 0]));
+  const assetBytes = new Map(assetSums.map((row) => [row.novelId, row._sum.size ?? 0]));
+
+  const usage: NovelStorageUsage[] = [];
+  for (const novel of novels) {
+    const original = novel.originalSize ?? 0;
+    const chapters = chapterBytes.get(novel.id) ?? 0;
+    const assets = assetBytes.get(novel.id) ?? 0;
+    usage.push({
+      novelId: novel.id,
+      title: novel.title,
+      chapters,
+      assets,
+      original,
+      total: chapters + assets + original,
+    });
+  }
+  usage.sort((a, b) => b.total - a.total);
+
+  // A re-import reads the novel's own original, which is counted with the novel
+  const originals = new Set(novels.map((novel) => novel.originalStorageKey));
+  const queued = jobs
+    .filter((job) => !originals.has(job.storageKey))
+    .reduce((sum, job) => sum + (job.size ?? 0), 0);
+  const pending = (pendingSum._sum.size ?? 0) + queued;
+  return {
+    total: usage.reduce((sum, novel) => sum + novel.total, 0) + pending,
+    pending,
+    quota: storageQuotaBytes(),
+    novels: usage,
+  };
+}
+
+/**
+ * Records the size of originals kept before sizes were stored, a batch at a
+ * time. Run by the import worker; until then they count as empty. Returns
+ * how many novels were measured.
+ */
+export async function measureUnsizedOriginals() {
+  const novels = await prisma.novel.findMany({
+    where: { originalStorageKey: { not: null }, originalSize: null },
+    take: MEASURE_BATCH_SIZE,
+    select: { id: true, originalStorageKey: true },
+  });
+
+  for (const novel of novels) {
+    const stored = await statObject(novel.originalStorageKey!).catch(() => null);
+    await prisma.novel.update({
+      where: { id: novel.id },
+      data: { originalSize: stored?.size ?? 0 },
+    });
+  }
+  return novels.length;
+}
+
+/**
+ * Explains why `incomingBytes` more would go over the user's quota, or
+ * returns null when there is room.
+ */
+export async function checkStorageQuota(userId: string, incomingBytes = 0) {
+  const quota = storageQuotaBytes();
+  if (quota === null) return null;
+
+  const usage = await getStorageUsage(userId);
+  if (usage.total + incomingBytes <= quota) return null;
+
+  return `Storage quota reached: ${formatBytes(usage.total)} of ${formatBytes(quota)} used. Delete some novels from your library to make room.`;
+}
+
+/**
+ * Throws the quota message when writing `parsed` would take the user past
+ * their quota. Counts its chapter HTML and the images the novel doesn't have
+ * yet; an update's chapters are taken to replace the novel's current ones.
+ */
+export async function assertRoomForChapters(
+  userId: string,
+  parsed: Pick<ParsedEpub, "chapters" | "assets">,
+  target: { novelId: string; replacesChapters: boolean } | null = null
+) {
+  if (storageQuotaBytes() === null) return;
+
+  let chapterBytes = parsed.chapters.reduce(
+    (sum, chapter) => sum + Buffer.byteLength(chapter.content),
+    0
+  );
+  let assets = parsed.assets;
+
+  if (target) {
+    const known = await prisma.asset.findMany({
+      where: { novelId: target.novelId, hash: { in: assets.map((asset) => asset.hash) } },
+      select: { hash: true },
+    });
+    const knownHashes = new Set(known.map((asset) => asset.hash));
+    assets = assets.filter((asset) => !knownHashes.has(asset.hash));
+
+    if (target.replacesChapters) {
+      const current = await prisma.chapter.aggregate({
+        where: { novelId: target.novelId },
+        _sum: { size: true },
+      });
+      chapterBytes = Math.max(0, chapterBytes - (current._sum.size ?? 0));
+    }
+  }
+
+  const assetBytes = assets.reduce((sum, asset) => sum + asset.data.length, 0);
+  const quotaError = await checkStorageQuota(userId, chapterBytes + assetBytes);
+  if (quotaError) {
+    throw new Error(quotaError);
+  }
+}
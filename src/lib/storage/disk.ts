@@ -0,0 +1,134 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { DEFAULT_URL_EXPIRY_SECONDS, type StorageDriver } from "@/lib/storage/types";
+
+// Signed URLs point back at the app, which serves them from /api/storage
+export const DISK_STORAGE_ROUTE = "/api/storage";
+
+export type SignedStorageMethod = "GET" | "PUT";
+
+const storageDir = () => path.resolve(process.env.LOCAL_STORAGE_DIR || ".storage");
+
+const signingSecret = () => {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("Set STORAGE_SIGNING_SECRET (or NEXTAUTH_SECRET) to sign storage URLs");
+  }
+  return secret;
+};
+
+/** Resolves a key inside the storage directory, refusing keys that climb out of it. */
+export const localObjectPath = (key: string): string => {
+  const root = storageDir();
+  const resolved = path.resolve(root, key);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return resolved;
+};
+
+type SignedRequest = {
+  method: SignedStorageMethod;
+  key: string;
+  // Uploads are bound to the type and size they were signed for, like S3 presigned PUTs
+  contentType?: string;
+  contentLength?: number;
+};
+
+const sign = (request: SignedRequest, expires: number) =>
+  createHmac("sha256", signingSecret())
+    .update(
+      [
+        request.method,
+        request.key,
+        expires,
+        request.contentType ?? "",
+        request.contentLength ?? "",
+      ].join("\n")
+    )
+    .digest("base64url");
+
+function signedUrl(request: SignedRequest, expiresInSeconds: number) {
+  const { key } = request;
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  const params = new URLSearchParams({
+    expires: String(expires),
+    signature: sign(request, expires),
+  });
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  return `${DISK_STORAGE_ROUTE}/${encodedKey}?${params}`;
+}
+
+/** Checks a request against the signature the driver handed out for it. */
+export function verifyStorageSignature(
+  opts: SignedRequest & { expires: string | null; signature: string | null }
+) {
+  const expires = Number(opts.expires);
+  if (!opts.signature || !Number.isInteger(expires) || expires < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(opts, expires));
+  const actual = Buffer.from(opts.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Keeps objects in a directory on local disk (LOCAL_STORAGE_DIR). Browsers
+ * upload and download through short-lived signed URLs on the app itself, so
+ * a single box needs no object store.
+ */
+export function createDiskDriver(): StorageDriver {
+  return {
+    name: "disk",
+
+    async createUploadUrl(opts) {
+      localObjectPath(opts.key);
+      return signedUrl(
+        {
+          method: "PUT",
+          key: opts.key,
+          contentType: opts.contentType,
+          contentLength: opts.contentLength,
+        },
+        opts.expiresInSeconds ?? DEFAULT_URL_EXPIRY_SECONDS
+      );
+    },
+
+    async createDownloadUrl(opts) {
+      localObjectPath(opts.key);
+      return signedUrl(
+        { method: "GET", key: opts.key },
+        opts.expiresInSeconds ?? DEFAULT_URL_EXPIRY_SECONDS
+      );
+    },
+
+    async putObject(opts) {
+      const filePath = localObjectPath(opts.key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, opts.body);
+    },
+
+    async getObject(key) {
+      try {
+        return await fs.readFile(localObjectPath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async statObject(key) {
+      const stat = await fs.stat(localObjectPath(key)).catch((error) => {
+        if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+        throw error;
+      });
+      return stat?.isFile() ? { size: stat.size } : null;
+    },
+
+    async deleteObject(key) {
+      await fs.rm(localObjectPath(key), { force: true });
+    },
+  };
+}
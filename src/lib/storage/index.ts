@@ -0,0 +1,57 @@
+import { createDiskDriver } from "@/lib/storage/disk";
+import { createS3Driver } from "@/lib/storage/s3";
+import type { DownloadUrlOptions, StorageDriver, UploadUrlOptions } from "@/lib/storage/types";
+
+export type { StorageDriver } from "@/lib/storage/types";
+
+export type StorageDriverName = "s3" | "disk";
+
+// STORAGE_DRIVER picks the backend; without it, a configured bucket means S3
+export function resolveStorageDriverName(): StorageDriverName {
+  const configured = process.env.STORAGE_DRIVER?.toLowerCase();
+  if (configured === "s3" || configured === "disk") return configured;
+  if (configured) {
+    console.warn(`[storage] Unknown STORAGE_DRIVER "${configured}". Use "s3" or "disk".`);
+  }
+  return process.env.S3_BUCKET_NAME ? "s3" : "disk";
+}
+
+const globalForStorage = globalThis as unknown as {
+  storageDriver?: StorageDriver;
+};
+
+export function getStorageDriver(): StorageDriver {
+  globalForStorage.storageDriver ??=
+    resolveStorageDriverName() === "s3" ? createS3Driver() : createDiskDriver();
+  return globalForStorage.storageDriver;
+}
+
+// Upload keys are namespaced by user so an import can only consume its own files
+export function createUploadKey(userId: string, filename: string): string {
+  const cleanFilename = filename.replace(/[^a-zA-Z0-9._-]/g, "_");
+  return `${userId}/${Date.now()}-${cleanFilename}`;
+}
+
+export function createUploadUrl(opts: UploadUrlOptions): Promise<string> {
+  return getStorageDriver().createUploadUrl(opts);
+}
+
+export function createDownloadUrl(opts: DownloadUrlOptions): Promise<string> {
+  return getStorageDriver().createDownloadUrl(opts);
+}
+
+export function putObject(opts: { key: string; body: Buffer; contentType: string }): Promise<void> {
+  return getStorageDriver().putObject(opts);
+}
+
+export function getObject(key: string): Promise<Buffer | null> {
+  return getStorageDriver().getObject(key);
+}
+
+export function statObject(key: string): Promise<{ size: number } | null> {
+  return getStorageDriver().statObject(key);
+}
+
+export function deleteObject(key: string): Promise<void> {
+  return getStorageDriver().deleteObject(key);
+}
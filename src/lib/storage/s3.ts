@@ -0,0 +1,109 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  NotFound,
+  NoSuchKey,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { DEFAULT_URL_EXPIRY_SECONDS, type StorageDriver } from "@/lib/storage/types";
+
+export function createS3Driver(): StorageDriver {
+  const bucket = process.env.S3_BUCKET_NAME;
+  const region = process.env.S3_REGION;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  const endpoint = process.env.S3_ENDPOINT;
+
+  if (!bucket || !region || !accessKeyId || !secretAccessKey) {
+    // We intentionally don't throw here to avoid breaking builds,
+    // but API routes that rely on storage should validate configuration.
+    console.warn(
+      "[storage] Missing S3 configuration. Set S3_BUCKET_NAME, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY."
+    );
+  }
+
+  const s3Client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle: Boolean(endpoint),
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+  });
+
+  const requireBucket = () => {
+    if (!bucket) {
+      throw new Error("S3_BUCKET_NAME is not configured");
+    }
+    return bucket;
+  };
+
+  return {
+    name: "s3",
+
+    async createUploadUrl(opts) {
+      const command = new PutObjectCommand({
+        Bucket: requireBucket(),
+        Key: opts.key,
+        ContentType: opts.contentType,
+        ContentLength: opts.contentLength,
+      });
+
+      return getSignedUrl(s3Client, command, {
+        expiresIn: opts.expiresInSeconds ?? DEFAULT_URL_EXPIRY_SECONDS,
+      });
+    },
+
+    async createDownloadUrl(opts) {
+      const command = new GetObjectCommand({
+        Bucket: requireBucket(),
+        Key: opts.key,
+      });
+
+      return getSignedUrl(s3Client, command, {
+        expiresIn: opts.expiresInSeconds ?? DEFAULT_URL_EXPIRY_SECONDS,
+      });
+    },
+
+    async putObject(opts) {
+      await s3Client.send(
+        new PutObjectCommand({
+          Bucket: requireBucket(),
+          Key: opts.key,
+          Body: opts.body,
+          ContentType: opts.contentType,
+        })
+      );
+    },
+
+    async getObject(key) {
+      try {
+        const response = await s3Client.send(
+          new GetObjectCommand({ Bucket: requireBucket(), Key: key })
+        );
+        if (!response.Body) return null;
+        return Buffer.from(await response.Body.transformToByteArray());
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+
+    async statObject(key) {
+      try {
+        const response = await s3Client.send(
+          new HeadObjectCommand({ Bucket: requireBucket(), Key: key })
+        );
+        return { size: response.ContentLength ?? 0 };
+      } catch (error) {
+        if (error instanceof NotFound || error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+
+    async deleteObject(key) {
+      await s3Client.send(new DeleteObjectCommand({ Bucket: requireBucket(), Key: key }));
+    },
+  };
+}
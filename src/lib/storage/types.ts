@@ -0,0 +1,30 @@
+export type UploadUrlOptions = {
+  key: string;
+  contentType: string;
+  // Exact size the upload must have, enforced where the driver can sign it
+  contentLength?: number;
+  expiresInSeconds?: number;
+};
+
+export type DownloadUrlOptions = {
+  key: string;
+  expiresInSeconds?: number;
+};
+
+/**
+ * Where uploads, originals and extracted images live. Browsers talk to the
+ * driver only through the signed URLs it hands out.
+ */
+export type StorageDriver = {
+  name: string;
+  createUploadUrl: (opts: UploadUrlOptions) => Promise<string>;
+  createDownloadUrl: (opts: DownloadUrlOptions) => Promise<string>;
+  putObject: (opts: { key: string; body: Buffer; contentType: string }) => Promise<void>;
+  // Resolves to null when the object doesn't exist
+  getObject: (key: string) => Promise<Buffer | null>;
+  // Size of a stored object without reading it, or null when it doesn't exist
+  statObject: (key: string) => Promise<{ size: number } | null>;
+  deleteObject: (key: string) => Promise<void>;
+};
+
+export const DEFAULT_URL_EXPIRY_SECONDS = 60 * 10;
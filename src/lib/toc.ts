@@ -0,0 +1,130 @@
+export type TocEntry = {
+  title: string;
+  // Index into the novel's chapter list (Chapter.position). Missing when the
+  // entry points at something that didn't become a chapter, e.g. a skipped
+  // title page or a heading-only volume label.
+  chapterIndex?: number;
+  children: TocEntry[];
+};
+
+export type ChapterTreeNode =
+  | { type: "chapter"; index: number }
+  | { type: "group"; id: string; title: string; children: ChapterTreeNode[] };
+
+export type ChapterListRow =
+  | { kind: "chapter"; index: number; depth: number }
+  | { kind: "group"; id: string; title: string; depth: number; expanded: boolean };
+
+const firstChapterIndex = (entry: TocEntry): number | undefined => {
+  let first = entry.chapterIndex;
+  for (const child of entry.children) {
+    const childIndex = firstChapterIndex(child);
+    if (typeof childIndex === "number" && (first === undefined || childIndex < first)) {
+      first = childIndex;
+    }
+  }
+  return first;
+};
+
+export function isTocEntryList(value: unknown): value is TocEntry[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (entry) =>
+        typeof entry === "object" &&
+        entry !== null &&
+        typeof (entry as TocEntry).title === "string" &&
+        isTocEntryList((entry as TocEntry).children)
+    )
+  );
+}
+
+/**
+ * Turns the TOC into a tree that covers every chapter exactly once. Entries
+ * with children become groups spanning from their first chapter up to the next
+ * sibling; chapters the TOC doesn't mention stay where they are in the list.
+ */
+export function buildChapterTree(toc: TocEntry[], chapterCount: number): ChapterTreeNode[] {
+  const build = (entries: TocEntry[], start: number, end: number, idPrefix: string) => {
+    const nodes: ChapterTreeNode[] = [];
+    const starts = entries.map(firstChapterIndex);
+    let cursor = start;
+
+    entries.forEach((entry, entryIndex) => {
+      const entryStart = starts[entryIndex];
+      if (!entry.children.length || typeof entryStart !== "number") return;
+
+      const groupStart = clampIndex(entryStart, cursor, end);
+      const following = starts.slice(entryIndex + 1).find((value) => typeof value === "number");
+      const groupEnd = clampIndex(following ?? end, groupStart, end);
+      if (groupEnd <= groupStart) return;
+
+      for (; cursor < groupStart; cursor += 1) {
+        nodes.push({ type: "chapter", index: cursor });
+      }
+
+      const id = `${idPrefix}${entryIndex}`;
+      nodes.push({
+        type: "group",
+        id,
+        title: entry.title,
+        children: build(entry.children, groupStart, groupEnd, `${id}.`),
+      });
+      cursor = groupEnd;
+    });
+
+    for (; cursor < end; cursor += 1) {
+      nodes.push({ type: "chapter", index: cursor });
+    }
+
+    return nodes;
+  };
+
+  return build(toc, 0, chapterCount, "");
+}
+
+const clampIndex = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/** Ids of the groups that contain the given chapter, outermost first. */
+export function findGroupPath(tree: ChapterTreeNode[], chapterIndex: number): string[] {
+  for (const node of tree) {
+    if (node.type === "chapter") {
+      if (node.index === chapterIndex) return [];
+      continue;
+    }
+    const inner = findGroupPath(node.children, chapterIndex);
+    if (inner.length || containsChapter(node.children, chapterIndex)) {
+      return [node.id, ...inner];
+    }
+  }
+  return [];
+}
+
+const containsChapter = (nodes: ChapterTreeNode[], chapterIndex: number): boolean =>
+  nodes.some((node) =>
+    node.type === "chapter" ? node.index === chapterIndex : containsChapter(node.children, chapterIndex)
+  );
+
+/** Flattens the tree into the rows currently visible in the chapter list. */
+export function flattenChapterTree(
+  tree: ChapterTreeNode[],
+  expanded: ReadonlySet<string>
+): ChapterListRow[] {
+  const rows: ChapterListRow[] = [];
+  const walk = (nodes: ChapterTreeNode[], depth: number) => {
+    for (const node of nodes) {
+      if (node.type === "chapter") {
+        rows.push({ kind: "chapter", index: node.index, depth });
+        continue;
+      }
+      const isExpanded = expanded.has(node.id);
+      rows.push({ kind: "group", id: node.id, title: node.title, depth, expanded: isExpanded });
+      if (isExpanded) {
+        walk(node.children, depth + 1);
+      }
+    }
+  };
+  walk(tree, 0);
+  return rows;
+}
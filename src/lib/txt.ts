@@ -0,0 +1,281 @@
+import type { ParsedEpub, ParseEpubOptions } from "@/lib/epub";
+import type { TocEntry } from "@/lib/toc";
+import type { ImportWarning } from "@/lib/import-report";
+import { sanitizeChapterHtml } from "@/lib/sanitize";
+import {
+  DEFAULT_TXT_HEADINGS,
+  HEADING_PATTERN_ERROR,
+  TXT_HEADING_PRESETS,
+  compileHeadingPattern,
+  titleFromFilename,
+  type ImportParseOptions,
+  type TxtEncoding,
+} from "@/lib/import-formats";
+
+export type ParsedTxt = ParsedEpub & {
+  encoding: TxtEncoding;
+};
+
+export type ParseTxtOptions = ParseEpubOptions & ImportParseOptions;
+
+type Section = {
+  title?: string;
+  lines: string[];
+};
+
+// Longer lines are prose that happens to start like a heading
+const MAX_HEADING_LENGTH = 100;
+// Target size of the parts a file without headings is cut into
+const SPLIT_CHAPTER_CHARS = 8000;
+const ENCODING_SAMPLE_BYTES = 64 * 1024;
+
+const REPLACEMENT_CHAR = /\uFFFD/g;
+const HIRAGANA = /[\u3040-\u309f]/g;
+const CJK_CHAR = /[\u3000-\u30ff\u3400-\u9fff\uff00-\uffef]/;
+const METADATA_LINE = /^(?:(author|作者|著者|作者名)|(title|书名|書名|タイトル))\s*[:：]\s*(.+)$/i;
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+const decode = (buffer: Uint8Array, encoding: string, fatal = false) =>
+  new TextDecoder(encoding === "gbk" ? "gb18030" : encoding, { fatal }).decode(buffer);
+
+/**
+ * Picks the encoding from a BOM, then strict UTF-8, then whichever of GBK and
+ * Shift-JIS reads more plausibly: Japanese text is full of hiragana, Chinese
+ * text decoded as Shift-JIS is not.
+ */
+export function detectTxtEncoding(buffer: Buffer): TxtEncoding {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return "utf-8";
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return "utf-16le";
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return "utf-16be";
+
+  const sample = buffer.subarray(0, ENCODING_SAMPLE_BYTES);
+
+  // BOM-less UTF-16 still gives itself away with zero bytes on one side
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < Math.min(sample.length, 4096); index += 1) {
+    if (sample[index] === 0) {
+      if (index % 2 === 0) evenZeros += 1;
+      else oddZeros += 1;
+    }
+  }
+  const pairs = Math.min(sample.length, 4096) / 2;
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros < oddZeros / 4) return "utf-16le";
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros < evenZeros / 4) return "utf-16be";
+
+  // A sample can end mid-character; trim up to 3 trailing bytes before judging
+  for (let trim = 0; trim < 4; trim += 1) {
+    try {
+      decode(sample.subarray(0, sample.length - trim), "utf-8", true);
+      return "utf-8";
+    } catch {
+      if (sample.length === buffer.length) break;
+    }
+  }
+
+  const gbk = decode(sample, "gbk");
+  const sjis = decode(sample, "shift_jis");
+  const gbkErrors = countMatches(gbk, REPLACEMENT_CHAR);
+  const sjisErrors = countMatches(sjis, REPLACEMENT_CHAR);
+
+  if (sjisErrors < gbkErrors) return "shift_jis";
+  if (gbkErrors < sjisErrors) return "gbk";
+  return countMatches(sjis, HIRAGANA) > sjis.length * 0.05 ? "shift_jis" : "gbk";
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Hard-wrapped lines are joined; CJK text has no spaces between words
+const joinWrappedLines = (lines: string[]) =>
+  lines.reduce((joined, line) => {
+    if (!joined) return line;
+    return CJK_CHAR.test(joined[joined.length - 1]) ? joined + line : `${joined} ${line}`;
+  }, "");
+
+/**
+ * Turns plain text into paragraphs. Files that separate paragraphs with blank
+ * lines are treated as hard-wrapped; otherwise every line is a paragraph, the
+ * usual layout of webnovel dumps.
+ */
+function linesToParagraphs(lines: string[], blankLineParagraphs: boolean): string[] {
+  const paragraphs: string[] = [];
+  let pending: string[] = [];
+
+  for (const rawLine of lines) {
+    // Leading full-width spaces are the TXT way of indenting a paragraph
+    const line = rawLine.replace(/^[\s\u3000]+|[\s\u3000]+$/g, "");
+    if (!line) {
+      if (pending.length) paragraphs.push(joinWrappedLines(pending));
+      pending = [];
+      continue;
+    }
+    if (blankLineParagraphs) pending.push(line);
+    else paragraphs.push(line);
+  }
+  if (pending.length) paragraphs.push(joinWrappedLines(pending));
+
+  return paragraphs;
+}
+
+const chapterHtml = (title: string, paragraphs: string[]) =>
+  sanitizeChapterHtml(
+    [`<h2>${escapeHtml(title)}</h2>`, ...paragraphs.map((text) => `<p>${escapeHtml(text)}</p>`)].join(
+      "\n"
+    )
+  );
+
+function headingMatchers(options: ImportParseOptions): RegExp[] {
+  const matchers = (options.headings ?? DEFAULT_TXT_HEADINGS).map(
+    (preset) => TXT_HEADING_PRESETS[preset].pattern
+  );
+  if (options.customHeading?.trim()) {
+    const custom = compileHeadingPattern(options.customHeading);
+    if (!custom) throw new Error(HEADING_PATTERN_ERROR);
+    matchers.push(custom);
+  }
+  return matchers;
+}
+
+function splitByLength(paragraphs: string[]): string[][] {
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  for (const paragraph of paragraphs) {
+    current.push(paragraph);
+    size += paragraph.length;
+    if (size >= SPLIT_CHAPTER_CHARS) {
+      parts.push(current);
+      current = [];
+      size = 0;
+    }
+  }
+  if (current.length) parts.push(current);
+
+  return parts;
+}
+
+export async function parseTxt(
+  buffer: Buffer,
+  fallbackTitle: string,
+  options: ParseTxtOptions = {}
+): Promise<ParsedTxt> {
+  const encoding = options.encoding ?? detectTxtEncoding(buffer);
+  const text = decode(buffer, encoding).replace(/^\uFEFF/, "");
+  const warnings: ImportWarning[] = [];
+
+  const invalidCount = countMatches(text, REPLACEMENT_CHAR);
+  if (invalidCount) {
+    warnings.push({
+      code: "invalid-characters",
+      message: `${invalidCount} character${invalidCount === 1 ? "" : "s"} could not be read as ${encoding}. Try another encoding if the text looks garbled.`,
+    });
+  }
+
+  const lines = text.split(/\r\n|\r|\n/);
+  const nonEmpty = lines.filter((line) => line.trim()).length;
+  const blankLineParagraphs = lines.length - nonEmpty >= nonEmpty * 0.5;
+  const matchers = headingMatchers(options);
+  const separatorPattern = TXT_HEADING_PRESETS.separator.pattern;
+
+  const sections: Section[] = [{ lines: [] }];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const isHeading =
+      trimmed.length > 0 &&
+      trimmed.length <= MAX_HEADING_LENGTH &&
+      matchers.some((pattern) => pattern.test(trimmed));
+
+    if (isHeading) {
+      // Separator lines start a chapter but aren't a title themselves
+      sections.push({ title: separatorPattern.test(trimmed) ? undefined : trimmed, lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  let title = titleFromFilename(fallbackTitle);
+  let author: string | undefined;
+  let description: string | undefined;
+
+  // Text before the first heading: title/author lines, a blurb or a preface
+  const [lead, ...headed] = sections;
+  const leadLines = lead.lines.filter((line) => {
+    const metadata = METADATA_LINE.exec(line.trim());
+    if (!metadata) return true;
+    if (metadata[1]) author ??= metadata[3].trim();
+    else title = metadata[3].trim();
+    return false;
+  });
+  const leadParagraphs = linesToParagraphs(leadLines, blankLineParagraphs);
+
+  const chapters: ParsedEpub["chapters"] = [];
+  const toc: TocEntry[] = [];
+  let volume: TocEntry | null = null;
+
+  if (!headed.length) {
+    const parts = splitByLength(leadParagraphs);
+    parts.forEach((paragraphs, index) => {
+      const partTitle = parts.length === 1 ? title : `Part ${index + 1}`;
+      chapters.push({ title: partTitle, content: chapterHtml(partTitle, paragraphs) });
+    });
+    if (parts.length > 1) {
+      warnings.push({
+        code: "no-chapter-headings",
+        message: `No chapter headings matched, so the text was split into ${parts.length} parts by length.`,
+      });
+    }
+  } else {
+    const leadText = leadParagraphs.join("\n\n");
+    if (leadParagraphs.length > 3 || leadText.length > 1000) {
+      chapters.push({ title: "Preface", content: chapterHtml("Preface", leadParagraphs) });
+    } else if (leadText) {
+      description = leadText;
+    }
+
+    for (const [index, section] of headed.entries()) {
+      await options.onProgress?.(index, headed.length);
+
+      const paragraphs = linesToParagraphs(section.lines, blankLineParagraphs);
+      const sectionTitle = section.title ?? `Chapter ${chapters.length + 1}`;
+
+      // A heading straight followed by another heading labels a volume
+      if (!paragraphs.length) {
+        if (section.title) {
+          volume = { title: section.title, children: [] };
+          toc.push(volume);
+        }
+        continue;
+      }
+
+      const entry: TocEntry = { title: sectionTitle, chapterIndex: chapters.length, children: [] };
+      if (volume) volume.children.push(entry);
+      else toc.push(entry);
+      chapters.push({ title: sectionTitle, content: chapterHtml(sectionTitle, paragraphs) });
+    }
+  }
+
+  await options.onProgress?.(headed.length, headed.length);
+
+  if (!chapters.length) {
+    throw new Error("No readable text found.");
+  }
+
+  return {
+    title,
+    author,
+    description,
+    chapters,
+    // A flat TOC adds nothing over the chapter list itself
+    toc: toc.some((entry) => entry.children.length) ? toc : [],
+    assets: [],
+    warnings,
+    encoding,
+  };
+}
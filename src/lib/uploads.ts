@@ -0,0 +1,190 @@
+import { prisma } from "@/lib/prisma";
+import { createUploadKey, createUploadUrl, deleteObject, statObject } from "@/lib/storage";
+import { detectImportFormat, isImportContentType } from "@/lib/import-formats";
+import { checkStorageQuota } from "@/lib/storage-usage";
+
+const DEFAULT_MAX_UPLOAD_MB = 100;
+const DEFAULT_UPLOAD_TTL_HOURS = 24;
+// How often an idle worker clears out uploads nobody imported
+export const UPLOAD_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+// MAX_UPLOAD_MB caps each file a user uploads for import
+export const maxUploadBytes = () =>
+  (Number(process.env.MAX_UPLOAD_MB) || DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+
+// UPLOAD_TTL_HOURS is how long an upload may wait to be imported or retried
+const uploadTtlMs = () =>
+  (Number(process.env.UPLOAD_TTL_HOURS) || DEFAULT_UPLOAD_TTL_HOURS) * 60 * 60 * 1000;
+
+export class UploadRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400
+  ) {
+    super(message);
+    this.name = "UploadRejectedError";
+  }
+}
+
+/**
+ * Signs an upload for a book file after checking its name, type and size,
+ * and records it so it can be matched up by /api/import or swept later.
+ */
+export async function createPendingUpload(
+  userId: string,
+  file: { filename: string; contentType: string; size: number }
+) {
+  if (!detectImportFormat(file.filename) || !isImportContentType(file.contentType)) {
+    throw new UploadRejectedError(
+      "Invalid file type. Please upload an EPUB, MOBI, AZW3, FB2, CBZ or TXT file."
+    );
+  }
+
+  const maxBytes = maxUploadBytes();
+  if (file.size > maxBytes) {
+    throw new UploadRejectedError(
+      `File too large. Maximum size is ${Math.floor(maxBytes / (1024 * 1024))}MB.`,
+      413
+    );
+  }
+
+  const quotaError = await checkStorageQuota(userId, file.size);
+  if (quotaError) {
+    throw new UploadRejectedError(quotaError, 413);
+  }
+
+  const key = createUploadKey(userId, file.filename);
+  const uploadUrl = await createUploadUrl({
+    key,
+    contentType: file.contentType,
+    contentLength: file.size,
+  });
+
+  await prisma.pendingUpload.create({
+    data: {
+      userId,
+      storageKey: key,
+      filename: file.filename,
+      contentType: file.contentType,
+      size: file.size,
+    },
+  });
+
+  return { key, uploadUrl };
+}
+
+/**
+ * Claims a finished upload for an import. The stored object has to be the
+ * size that was signed for; anything else is deleted on the spot.
+ */
+export async function consumePendingUpload(userId: string, key: string) {
+  const pending = await prisma.pendingUpload.findFirst({
+    where: { storageKey: key, userId },
+    select: { id: true, filename: true, size: true },
+  });
+  if (!pending) {
+    throw new UploadRejectedError("Upload not found or expired. Please upload the file again.");
+  }
+
+  const stored = await statObject(key);
+  if (!stored) {
+    throw new UploadRejectedError("The upload did not finish. Please upload the file again.");
+  }
+
+  // Claimed by deleting the record, so two requests can't both consume it
+  const claimed = await prisma.pendingUpload.deleteMany({ where: { id: pending.id } });
+  if (claimed.count !== 1) {
+    throw new UploadRejectedError("This upload has already been imported.", 409);
+  }
+
+  if (stored.size !== pending.size || stored.size > maxUploadBytes()) {
+    await deleteObject(key).catch((error) =>
+      console.error(`Failed to delete rejected upload ${key}:`, error)
+    );
+    throw new UploadRejectedError("The uploaded file does not match the size that was announced.");
+  }
+
+  return { filename: pending.filename, size: stored.size };
+}
+
+async function deleteObjects(keys: string[]) {
+  for (const key of keys) {
+    await deleteObject(key).catch((error) =>
+      console.error(`Failed to delete abandoned upload ${key}:`, error)
+    );
+  }
+}
+
+// Deletes the files of settled jobs, except any a novel keeps as its original
+async function releaseJobFiles(jobs: { id: string; storageKey: string | null }[]) {
+  const jobKeys = jobs.map((job) => job.storageKey!);
+  // A failed update can share its file with a novel that keeps it as the original
+  const kept = await prisma.novel.findMany({
+    where: { originalStorageKey: { in: jobKeys } },
+    select: { originalStorageKey: true },
+  });
+  const keptKeys = new Set(kept.map((novel) => novel.originalStorageKey));
+  await deleteObjects(jobKeys.filter((key) => !keptKeys.has(key)));
+  await prisma.importJob.updateMany({
+    where: { id: { in: jobs.map((job) => job.id) } },
+    data: { storageKey: null },
+  });
+}
+
+/**
+ * Deletes uploads that were never imported, and the files of imports that
+ * failed or were cancelled, once they are older than the TTL. Imports left
+ * waiting in review or on a duplicate for longer than the TTL are cancelled
+ * and lose their file too. Files kept as a novel's original are left alone.
+ * Returns how many objects were removed.
+ */
+export async function sweepAbandonedUploads() {
+  const cutoff = new Date(Date.now() - uploadTtlMs());
+
+  const pending = await prisma.pendingUpload.findMany({
+    where: { createdAt: { lt: cutoff } },
+    orderBy: { createdAt: "asc" },
+    take: SWEEP_BATCH_SIZE,
+    select: { id: true, storageKey: true },
+  });
+  await deleteObjects(pending.map((upload) => upload.storageKey));
+  await prisma.pendingUpload.deleteMany({
+    where: { id: { in: pending.map((upload) => upload.id) } },
+  });
+
+  const paused = await prisma.importJob.findMany({
+    where: {
+      status: { in: ["review", "duplicate"] },
+      storageKey: { not: null },
+      updatedAt: { lt: cutoff },
+    },
+    orderBy: { updatedAt: "asc" },
+    take: SWEEP_BATCH_SIZE,
+    select: { id: true, storageKey: true },
+  });
+  const expired: typeof paused = [];
+  for (const job of paused) {
+    // One at a time, so a job the user answers meanwhile keeps its file
+    const cancelled = await prisma.importJob.updateMany({
+      where: { id: job.id, status: { in: ["review", "duplicate"] }, updatedAt: { lt: cutoff } },
+      data: { status: "cancelled", cancelRequested: true, finishedAt: new Date() },
+    });
+    if (cancelled.count === 1) expired.push(job);
+  }
+  await releaseJobFiles(expired);
+
+  const jobs = await prisma.importJob.findMany({
+    where: {
+      status: { in: ["failed", "cancelled"] },
+      storageKey: { not: null },
+      finishedAt: { lt: cutoff },
+    },
+    orderBy: { finishedAt: "asc" },
+    take: SWEEP_BATCH_SIZE,
+    select: { id: true, storageKey: true },
+  });
+  await releaseJobFiles(jobs);
+
+  return pending.length + expired.length + jobs.length;
+}
@@ -0,0 +1,24 @@
+// Standalone import worker: `npm run worker`. Run it alongside the web app
+// with IMPORT_WORKER=external so imports don't compete with page requests.
+import { runImportWorkerLoop } from "@/lib/import-jobs";
+import { prisma } from "@/lib/prisma";
+
+let stopping = false;
+
+const stop = () => {
+  if (stopping) return;
+  stopping = true;
+  console.log("[import-worker] Finishing current job, then exiting...");
+};
+
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+console.log("[import-worker] Waiting for import jobs");
+
+runImportWorkerLoop(() => stopping)
+  .catch((error) => {
+    console.error("[import-worker] Crashed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());